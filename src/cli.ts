@@ -5,12 +5,16 @@
  */
 
 import { runServer } from './server.js';
+import { loadFxRates } from './utils/fx.js';
+import { validateApiVersion } from './stripe/versions.js';
+import { loadAccessTokens } from './http.js';
+import type { ServerOptions } from './types.js';
 
 /**
  * Parse command-line arguments and environment variables.
- * Returns the API key or exits with error.
+ * Returns the API key and server options, or exits with error.
  */
-function parseArgs(): string {
+function parseArgs(): { apiKey: string; options: ServerOptions } {
   const args = process.argv.slice(2);
   
   // Check for --help flag
@@ -20,13 +24,47 @@ stripe-analytics-mcp - MCP server for Stripe SaaS metrics
 
 USAGE:
   stripe-analytics-mcp [OPTIONS]
+  stripe-analytics-mcp serve-webhooks --webhook-secret <whsec_...> [--port <port>] [OPTIONS]
+
+COMMANDS:
+  serve-webhooks       Also receive Stripe webhooks on http://127.0.0.1:<port>/webhooks,
+                       verifying each Stripe-Signature, instead of polling for events
 
 OPTIONS:
-  --key <key>    Stripe secret API key (overrides STRIPE_SECRET_KEY env var)
-  --help, -h     Show this help message
+  --key <key>          Stripe secret or restricted API key (overrides STRIPE_SECRET_KEY env var)
+  --currency <code>    Reporting currency for mixed-currency accounts (e.g. usd)
+  --fx-rates <file>    JSON FX rate table: {"base": "usd", "rates": {"eur": 0.92}}
+  --store <file>       Persist the subscription snapshot to this JSON file between runs
+  --record <dir>       Also write raw Stripe data read by tools to this fixture directory
+  --replay <dir>       Serve tools from a recorded fixture directory (no API key needed)
+  --from-csv <dir>     Compute metrics from Stripe dashboard CSV exports (no API key needed)
+  --accounts <ids>     Comma-separated Stripe Connect account IDs to read and consolidate
+  --event-archive <file>  Keep every event read in this file, beyond Stripe's 30 days
+  --webhook-secret <s> Webhook signing secret for serve-webhooks (whsec_...)
+  --port <port>        Webhook port for serve-webhooks (default: 4242)
+  --api-version <v>    Stripe API version to request (default: 2025-02-24.acacia)
+  --http               Serve over streamable HTTP at http://<host>:<port>/mcp instead of stdio
+  --http-port <port>   HTTP port (default: 3000)
+  --http-host <host>   HTTP host to listen on (default: 127.0.0.1; 0.0.0.0 for the whole network)
+  --tokens <file>      JSON access tokens for --http: [{"name": "ana", "token": "...", "accounts": ["acct_..."]}]
+  --help, -h           Show this help message
 
 ENVIRONMENT VARIABLES:
-  STRIPE_SECRET_KEY    Stripe secret API key (required if --key not provided)
+  STRIPE_SECRET_KEY            Stripe secret or restricted API key (required if --key not provided)
+  STRIPE_REPORTING_CURRENCY    Same as --currency
+  STRIPE_FX_RATES_FILE         Same as --fx-rates
+  STRIPE_ANALYTICS_STORE       Same as --store
+  STRIPE_RECORD_DIR            Same as --record
+  STRIPE_REPLAY_DIR            Same as --replay
+  STRIPE_CSV_DIR               Same as --from-csv
+  STRIPE_CONNECTED_ACCOUNTS    Same as --accounts
+  STRIPE_EVENT_ARCHIVE         Same as --event-archive
+  STRIPE_WEBHOOK_SECRET        Same as --webhook-secret
+  STRIPE_WEBHOOK_PORT          Same as --port
+  STRIPE_API_VERSION           Same as --api-version
+  STRIPE_ANALYTICS_HTTP_PORT   Same as --http-port (and turns on --http)
+  STRIPE_ANALYTICS_HTTP_HOST   Same as --http-host
+  STRIPE_ANALYTICS_TOKENS      Same as --tokens
 
 EXAMPLES:
   # Using environment variable
@@ -35,12 +73,44 @@ EXAMPLES:
   # Using command-line flag
   stripe-analytics-mcp --key sk_test_123
 
+  # Report a USD/EUR/GBP account in USD
+  stripe-analytics-mcp --currency usd --fx-rates ./fx-rates.json
+
+  # Keep the subscription snapshot and event history across restarts
+  stripe-analytics-mcp --store ~/.cache/stripe-analytics/snapshot.json \
+    --event-archive ~/.cache/stripe-analytics/events.jsonl
+
+  # Record a session, then reproduce it offline
+  stripe-analytics-mcp --record ./fixtures/acme
+  stripe-analytics-mcp --replay ./fixtures/acme
+
+  # Month-end numbers from audited exports
+  stripe-analytics-mcp --from-csv ./exports/2026-09
+
+  # Near-real-time metrics from webhooks, tested locally with the Stripe CLI
+  stripe-analytics-mcp serve-webhooks --webhook-secret whsec_123
+  stripe listen --forward-to localhost:4242/webhooks
+
+  # One server for several connected accounts on a platform key
+  stripe-analytics-mcp --accounts acct_1Abc,acct_2Def
+
+  # One shared server for the team; teammates connect with their own token
+  stripe-analytics-mcp --http --http-host 0.0.0.0 --tokens ./tokens.json
+
 TOOLS:
   get_mrr                  - Compute Monthly Recurring Revenue
   get_churn                - Compute churn rates (customer & revenue)
   get_revenue_by_plan      - Break down MRR by pricing plan
   get_subscriber_stats     - Get subscriber counts and changes
   get_recent_changes       - List recent subscription events
+  get_mrr_history          - Month-end / week-end MRR over time
+  get_cohort_retention     - Logo & revenue retention by signup month
+  get_revenue_retention    - Net & gross revenue retention (NRR / GRR)
+  get_top_customers        - Largest accounts and revenue concentration
+  get_discount_cliff       - MRR returning as discount coupons expire
+  get_pending_cancellations - Scheduled cancellations and MRR at risk
+  get_trial_conversion     - Trial-to-paid conversion by plan and trial length
+  sync_status              - Freshness of the local subscription snapshot
 
 For more information, visit: https://github.com/yourusername/stripe-analytics-mcp
 `);
@@ -59,28 +129,177 @@ For more information, visit: https://github.com/yourusername/stripe-analytics-mc
     apiKey = process.env.STRIPE_SECRET_KEY;
   }
   
-  // Validate API key
-  if (!apiKey) {
-    console.error('Error: Stripe API key is required.');
-    console.error('');
-    console.error('Provide it via:');
-    console.error('  - STRIPE_SECRET_KEY environment variable, or');
-    console.error('  - --key command-line flag');
-    console.error('');
-    console.error('Example:');
-    console.error('  STRIPE_SECRET_KEY=sk_test_123 stripe-analytics-mcp');
-    console.error('');
-    console.error('Run --help for more information.');
+  // Recording / replaying fixtures, or reading CSV exports
+  const recordDir = getFlagValue(args, '--record') || process.env.STRIPE_RECORD_DIR;
+  const replayDir = getFlagValue(args, '--replay') || process.env.STRIPE_REPLAY_DIR;
+  
+  const csvDir = getFlagValue(args, '--from-csv') || process.env.STRIPE_CSV_DIR;
+  
+  if ([recordDir, replayDir, csvDir].filter(Boolean).length > 1) {
+    console.error('Error: --record, --replay and --from-csv cannot be used together.');
     process.exit(1);
   }
   
-  if (!apiKey.startsWith('sk_')) {
-    console.error('Error: Invalid Stripe API key format.');
-    console.error('Expected key starting with sk_ (e.g., sk_test_... or sk_live_...)');
+  // Replaying fixtures or exports never talks to Stripe, so no key is needed
+  if (replayDir || csvDir) {
+    apiKey = apiKey || '';
+  } else {
+    // Validate API key
+    if (!apiKey) {
+      console.error('Error: Stripe API key is required.');
+      console.error('');
+      console.error('Provide it via:');
+      console.error('  - STRIPE_SECRET_KEY environment variable, or');
+      console.error('  - --key command-line flag');
+      console.error('');
+      console.error('Example:');
+      console.error('  STRIPE_SECRET_KEY=sk_test_123 stripe-analytics-mcp');
+      console.error('');
+      console.error('Run --help for more information.');
+      process.exit(1);
+    }
+
+    if (!apiKey.startsWith('sk_') && !apiKey.startsWith('rk_')) {
+      console.error('Error: Invalid Stripe API key format.');
+      console.error('Expected a secret key (sk_test_... or sk_live_...) or restricted key (rk_test_... or rk_live_...)');
+      process.exit(1);
+    }
+  }
+  
+  // Reporting currency and FX rates (both optional)
+  const options: ServerOptions = {};
+  const reportingCurrency = getFlagValue(args, '--currency') || process.env.STRIPE_REPORTING_CURRENCY;
+  const fxRatesFile = getFlagValue(args, '--fx-rates') || process.env.STRIPE_FX_RATES_FILE;
+  
+  if (reportingCurrency && !fxRatesFile) {
+    console.error('Error: --currency requires an FX rate table.');
+    console.error('Provide it via --fx-rates <file> or the STRIPE_FX_RATES_FILE environment variable.');
     process.exit(1);
   }
   
-  return apiKey;
+  if (fxRatesFile) {
+    try {
+      const fxRates = loadFxRates(fxRatesFile);
+      options.currency = {
+        reportingCurrency: (reportingCurrency || fxRates.base).toLowerCase(),
+        fxRates,
+      };
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Failed to load FX rates'}`);
+      process.exit(1);
+    }
+  }
+  
+  if (recordDir) {
+    options.record = recordDir;
+  }
+  if (replayDir) {
+    options.replay = replayDir;
+  }
+  if (csvDir) {
+    options.csv = csvDir;
+  }
+  
+  // Stripe Connect accounts (optional; without them tools read the key's own account)
+  const accountList = getFlagValue(args, '--accounts') || process.env.STRIPE_CONNECTED_ACCOUNTS;
+  if (accountList) {
+    if (replayDir || csvDir) {
+      console.error('Error: --accounts cannot be used with --replay or --from-csv.');
+      process.exit(1);
+    }
+    const accounts = accountList.split(',').map(id => id.trim()).filter(Boolean);
+    const invalid = accounts.filter(id => !id.startsWith('acct_'));
+    if (invalid.length > 0) {
+      console.error(`Error: Invalid connected account ID(s): ${invalid.join(', ')}`);
+      console.error('Expected IDs starting with acct_ (e.g., acct_1Abc...)');
+      process.exit(1);
+    }
+    options.accounts = accounts;
+  }
+  
+  // Snapshot file (optional; without it the snapshot lives in memory)
+  const storePath = getFlagValue(args, '--store') || process.env.STRIPE_ANALYTICS_STORE;
+  if (storePath) {
+    options.store = { path: storePath };
+  }
+  
+  // Webhook mode: verify and store pushed events instead of polling for them
+  if (args[0] === 'serve-webhooks') {
+    if (replayDir || csvDir) {
+      console.error('Error: serve-webhooks cannot be used with --replay or --from-csv.');
+      process.exit(1);
+    }
+    const secret = getFlagValue(args, '--webhook-secret') || process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret || !secret.startsWith('whsec_')) {
+      console.error('Error: serve-webhooks requires a webhook signing secret starting with whsec_.');
+      console.error('Provide it via --webhook-secret <secret> or the STRIPE_WEBHOOK_SECRET environment variable.');
+      console.error('With the Stripe CLI, `stripe listen` prints one.');
+      process.exit(1);
+    }
+    const portValue = getFlagValue(args, '--port') || process.env.STRIPE_WEBHOOK_PORT;
+    const port = portValue ? Number(portValue) : undefined;
+    if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+      console.error(`Error: Invalid webhook port "${portValue}".`);
+      process.exit(1);
+    }
+    options.webhooks = { secret, port };
+  }
+  
+  // Event archive (optional; without it events older than 30 days are only kept in memory)
+  const eventArchive = getFlagValue(args, '--event-archive') || process.env.STRIPE_EVENT_ARCHIVE;
+  if (eventArchive) {
+    options.eventArchive = eventArchive;
+  }
+  
+  // API version (optional; both pre- and post-2025-03-31 shapes are understood)
+  const apiVersion = getFlagValue(args, '--api-version') || process.env.STRIPE_API_VERSION;
+  if (apiVersion) {
+    try {
+      options.apiVersion = validateApiVersion(apiVersion);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Invalid API version'}`);
+      process.exit(1);
+    }
+  }
+  
+  // HTTP mode: serve token holders over the network instead of one stdio client
+  const httpPortValue = getFlagValue(args, '--http-port') || process.env.STRIPE_ANALYTICS_HTTP_PORT;
+  if (args.includes('--http') || httpPortValue) {
+    const tokensFile = getFlagValue(args, '--tokens') || process.env.STRIPE_ANALYTICS_TOKENS;
+    if (!tokensFile) {
+      console.error('Error: --http requires access tokens, so only your team can read your Stripe data.');
+      console.error('Provide them via --tokens <file> or the STRIPE_ANALYTICS_TOKENS environment variable.');
+      process.exit(1);
+    }
+    const port = httpPortValue ? Number(httpPortValue) : undefined;
+    if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+      console.error(`Error: Invalid HTTP port "${httpPortValue}".`);
+      process.exit(1);
+    }
+    try {
+      options.http = {
+        tokens: loadAccessTokens(tokensFile),
+        port,
+        host: getFlagValue(args, '--http-host') || process.env.STRIPE_ANALYTICS_HTTP_HOST,
+      };
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Failed to load access tokens'}`);
+      process.exit(1);
+    }
+  }
+  
+  return { apiKey, options };
+}
+
+/**
+ * Get the value following a flag, e.g. `--currency eur` → "eur".
+ */
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index !== -1 && index + 1 < args.length) {
+    return args[index + 1];
+  }
+  return undefined;
 }
 
 /**
@@ -88,7 +307,7 @@ For more information, visit: https://github.com/yourusername/stripe-analytics-mc
  */
 async function main(): Promise<void> {
   try {
-    const apiKey = parseArgs();
+    const { apiKey, options } = parseArgs();
     
     // Set up graceful shutdown
     const shutdown = (): void => {
@@ -100,7 +319,7 @@ async function main(): Promise<void> {
     process.on('SIGTERM', shutdown);
     
     // Start the server
-    await runServer(apiKey);
+    await runServer(apiKey, options);
   } catch (error) {
     console.error('Fatal error:', error instanceof Error ? error.message : 'Unknown error');
     process.exit(1);
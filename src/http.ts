@@ -0,0 +1,278 @@
+/**
+ * Streamable HTTP transport for stripe-analytics-mcp.
+ * One shared server for a team: the Stripe key stays on the server and each
+ * teammate connects with a static bearer token. Every MCP session gets its own
+ * server from the factory, reading only the accounts its token allows.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type RequestListener, type Server as HttpServer } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { readBody } from './utils/http.js';
+import type { AccessToken, HttpOptions, ServerFactory } from './types.js';
+
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const MCP_PATH = '/mcp';
+export const DEFAULT_SESSION_IDLE_SECONDS = 30 * 60;
+
+// Tool calls are a few hundred bytes; anything this large isn't one
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Shorter tokens can be guessed
+const MIN_TOKEN_LENGTH = 16;
+
+// Upper bound on how late an idle session is noticed
+const IDLE_CHECK_MS = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  access: AccessToken;
+  openRequests: number;          // requests still being answered, e.g. an open event stream
+  lastActiveMs: number;          // when the last request ended
+}
+
+/**
+ * Load access tokens from a JSON file.
+ *
+ * @param filePath - JSON array of {"name", "token", "accounts"?}
+ * @returns Validated access tokens
+ * @throws Error if the file can't be read or a token is invalid
+ */
+export function loadAccessTokens(filePath: string): AccessToken[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read access tokens from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return parseAccessTokens(raw);
+}
+
+/**
+ * Validate a list of access tokens.
+ *
+ * Rules:
+ * 1. At least one token; each has a name and a token of 16+ characters
+ * 2. Tokens and names are unique
+ * 3. accounts, if given, is a non-empty list of connected account IDs (acct_...)
+ *
+ * @param raw - Untrusted token list (e.g. parsed JSON or embedder config)
+ * @returns Validated access tokens
+ * @throws Error naming the first invalid entry
+ */
+export function parseAccessTokens(raw: unknown): AccessToken[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('Invalid access tokens: expected a non-empty array of {"name", "token", "accounts"?}');
+  }
+
+  const tokens: AccessToken[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const { name, token, accounts } = (entry ?? {}) as { name?: unknown; token?: unknown; accounts?: unknown };
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error(`Invalid access token #${index + 1}: expected a "name"`);
+    }
+    if (typeof token !== 'string' || token.length < MIN_TOKEN_LENGTH) {
+      throw new Error(`Invalid access token "${name}": expected a "token" of at least ${MIN_TOKEN_LENGTH} characters`);
+    }
+    if (accounts !== undefined && (
+      !Array.isArray(accounts) || accounts.length === 0 ||
+      accounts.some(accountId => typeof accountId !== 'string' || !accountId.startsWith('acct_'))
+    )) {
+      throw new Error(`Invalid access token "${name}": "accounts" must be a non-empty list of IDs starting with acct_`);
+    }
+    if (tokens.some(other => other.name === name || other.token === token)) {
+      throw new Error(`Invalid access token "${name}": names and tokens must be unique`);
+    }
+    tokens.push({ name, token, ...(accounts ? { accounts: accounts as string[] } : {}) });
+  }
+  return tokens;
+}
+
+/**
+ * Find the access token a request carries, as `Authorization: Bearer <token>`
+ * or `X-API-Key: <token>`. Tokens are compared in constant time.
+ *
+ * @returns The matching token, or null if there is none or it is unknown
+ */
+export function authenticate(request: IncomingMessage, tokens: AccessToken[]): AccessToken | null {
+  const authorization = request.headers.authorization;
+  const apiKey = request.headers['x-api-key'];
+  const presented = authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim()
+    ?? (typeof apiKey === 'string' ? apiKey.trim() : undefined);
+  if (!presented) {
+    return null;
+  }
+
+  // Hashing first gives equal-length buffers, as timingSafeEqual requires
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+  const presentedDigest = digest(presented);
+  return tokens.find(candidate => timingSafeEqual(digest(candidate.token), presentedDigest)) ?? null;
+}
+
+/**
+ * Create the request listener for the MCP endpoint.
+ *
+ * Rules:
+ * 1. Only MCP_PATH is served (404 otherwise)
+ * 2. A missing or unknown token gets 401
+ * 3. A request with an Mcp-Session-Id goes to that session; an unknown session
+ *    gets 404, and a session opened with another token gets 403
+ * 4. An initialize request without a session opens one, with its own server
+ *    from the factory limited to the token's accounts; any other request
+ *    without a session gets 400
+ * 5. Sessions end when the client sends DELETE, when the server closes, or
+ *    when no request has been open on them for idleTimeoutSeconds (a client
+ *    that went away without DELETE). Idle sessions are checked at most once a
+ *    minute, on a timer that doesn't keep the process alive
+ *
+ * @param factory - Creates one MCP server per session over shared data
+ * @param options - Access tokens and idle timeout
+ * @returns Node HTTP request listener, and a function closing every session
+ */
+export function createHttpListener(
+  factory: ServerFactory,
+  options: HttpOptions
+): { listener: RequestListener; closeSessions: () => Promise<void> } {
+  const sessions = new Map<string, Session>();
+  const idleMs = (options.idleTimeoutSeconds ?? DEFAULT_SESSION_IDLE_SECONDS) * 1000;
+  let idleTimer: ReturnType<typeof setInterval> | null = null;
+
+  function closeIdleSessions(): void {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActiveMs <= cutoff) {
+        sessions.delete(id);
+        console.error(`${session.access.name} disconnected after being idle (session ${id})`);
+        void session.transport.close();
+      }
+    }
+    if (sessions.size === 0) {
+      stopIdleTimer();
+    }
+  }
+
+  function stopIdleTimer(): void {
+    if (idleTimer) {
+      clearInterval(idleTimer);
+      idleTimer = null;
+    }
+  }
+
+  async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (new URL(request.url ?? '/', 'http://localhost').pathname !== MCP_PATH) {
+      replyError(response, 404, 'Not found');
+      return;
+    }
+
+    const access = authenticate(request, options.tokens);
+    if (!access) {
+      replyError(response, 401, 'Missing or invalid access token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const sessionId = request.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        replyError(response, 404, 'Session not found');
+        return;
+      }
+      if (session.access !== access) {
+        replyError(response, 403, 'Session belongs to another access token');
+        return;
+      }
+      session.openRequests += 1;
+      response.once('close', () => {
+        session.openRequests -= 1;
+        session.lastActiveMs = Date.now();
+      });
+      await session.transport.handleRequest(request, response);
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      replyError(response, 400, 'No session: send an initialize request first');
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse((await readBody(request, MAX_BODY_BYTES)).toString('utf8'));
+    } catch (error) {
+      replyError(response, 400, error instanceof Error ? error.message : 'Invalid request body');
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      replyError(response, 400, 'No session: send an initialize request first');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, access, openRequests: 0, lastActiveMs: Date.now() });
+        console.error(`${access.name} connected (session ${id})`);
+        if (!idleTimer) {
+          idleTimer = setInterval(closeIdleSessions, Math.min(idleMs, IDLE_CHECK_MS));
+          idleTimer.unref();
+        }
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await factory.createServer(access).connect(transport);
+    await transport.handleRequest(request, response, body);
+  }
+
+  return {
+    listener: (request, response) => {
+      handle(request, response).catch(error => {
+        console.error('MCP request failed:', error instanceof Error ? error.message : error);
+        if (!response.headersSent) {
+          replyError(response, 500, 'Internal server error');
+        }
+      });
+    },
+    closeSessions: async () => {
+      stopIdleTimer();
+      await Promise.all([...sessions.values()].map(session => session.transport.close()));
+    },
+  };
+}
+
+/**
+ * Serve MCP over streamable HTTP.
+ * Once the returned server closes (closeAllConnections() ends open streams),
+ * every session and the factory's own listeners (webhooks) are closed too.
+ *
+ * @param factory - Creates one MCP server per session over shared data
+ * @param options - Access tokens, port and host
+ * @returns Listening HTTP server
+ */
+export function startHttpServer(factory: ServerFactory, options: HttpOptions): Promise<HttpServer> {
+  const { listener, closeSessions } = createHttpListener(factory, options);
+  const httpServer = createHttpServer(listener);
+  httpServer.on('close', () => {
+    void closeSessions().then(() => factory.close());
+  });
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? DEFAULT_HTTP_PORT, options.host ?? DEFAULT_HTTP_HOST, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
+
+/**
+ * Reply with a JSON-RPC error, as the MCP transport does for its own errors.
+ */
+function replyError(response: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
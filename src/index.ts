@@ -4,7 +4,34 @@
  */
 
 // Server
-export { createServer, runServer } from './server.js';
+export { createServer, createServerFactory, runServer } from './server.js';
+
+// Streamable HTTP transport
+export {
+  startHttpServer,
+  createHttpListener,
+  authenticate,
+  loadAccessTokens,
+  parseAccessTokens,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_HTTP_HOST,
+  MCP_PATH,
+  DEFAULT_SESSION_IDLE_SECONDS,
+} from './http.js';
+
+// Tool registry
+export { defineTool, TOOLS, SNAPSHOT_PERMISSIONS, ACCOUNT_ARGUMENT } from './tools.js';
+
+// Metric resources
+export {
+  RESOURCES,
+  RESOURCE_URI_PREFIX,
+  DEFAULT_RESOURCE_REFRESH_SECONDS,
+  createResourceWatcher,
+} from './resources.js';
+
+// Report prompts
+export { definePrompt, PROMPTS } from './prompts.js';
 
 // Types
 export type {
@@ -12,44 +39,244 @@ export type {
   SubscriptionStatus,
   SubscriptionItemData,
   BillingInterval,
+  BillingScheme,
+  TiersMode,
+  UsageType,
+  PriceTier,
   DiscountData,
+  CouponDuration,
+  CancellationDetails,
+  CancellationReason,
+  CancellationFeedback,
   NormalizedEvent,
+  EventItems,
   MrrResult,
   ChurnResult,
+  ChurnType,
+  ChurnSegment,
+  ChurnReasonBreakdown,
   PlanBreakdown,
   RevenueByPlanResult,
   SubscriberStats,
   SubscriptionChange,
   RecentChangesResult,
+  HistoryGranularity,
+  MrrHistoryPoint,
+  MrrHistoryResult,
+  CohortRow,
+  CohortRetentionResult,
+  RevenueRetentionResult,
+  CustomerMrr,
+  TopCustomer,
+  TopCustomersResult,
+  ExpiringDiscount,
+  DiscountCliffResult,
+  PendingCancellation,
+  MrrAtRisk,
+  PendingCancellationsResult,
+  TrialOutcome,
+  TrialConversionCounts,
+  TrialConversionByPlan,
+  TrialConversionByLength,
+  TrialConversionResult,
+  FxRates,
+  CurrencyOptions,
+  CurrencySubtotal,
+  ArchiveCoverage,
+  EventArchive,
+  AccountData,
+  AccountSubscriptions,
+  AccountScope,
+  AccountMrr,
+  AccountMovement,
+  DataSource,
+  RecordingSource,
+  FixtureManifest,
+  RawStripeData,
+  SyncMode,
+  SubscriptionChanges,
+  SubscriptionSnapshot,
+  SyncStatusResult,
+  SnapshotStore,
+  StoreOptions,
+  ServerOptions,
+  ServerFactory,
+  HttpOptions,
+  AccessToken,
+  WebhookOptions,
+  StripeResource,
+  PermissionReport,
+  RequestPool,
+  RequestPoolOptions,
+  RequestUsage,
+  ToolPermissions,
+  ComputeContext,
+  ToolContext,
+  ToolDefinition,
+  Tool,
+  ResourceDefinition,
+  ResourceWatcher,
+  PromptDefinition,
+  PromptToolCall,
+  Prompt,
   StripeClientError,
 } from './types.js';
 
 // Stripe client utilities
 export {
   createStripeClient,
+  createConnectedAccountSource,
+  isRestrictedKey,
+  checkPermissions,
+  STRIPE_RESOURCES,
   fetchAllSubscriptions,
   fetchCanceledSubscriptions,
   fetchRecentEvents,
+  fetchFailedInvoices,
+  fetchSubscriptionChangesSince,
+  collectSubscriptionChanges,
+  normalizeEvent,
+  normalizeEvents,
+  METRIC_EVENT_TYPES,
 } from './stripe/client.js';
 
+// Request pooling and per-call request accounting
+export { mapStripeError } from './stripe/errors.js';
+export { createRequestPool } from './stripe/pool.js';
+export {
+  createCountingSource,
+  createRequestUsage,
+  withRequestUsage,
+  formatRequestUsage,
+} from './stripe/usage.js';
+
+// API version compatibility
+export {
+  DEFAULT_API_VERSION,
+  INVOICE_PARENTS_API_VERSION,
+  validateApiVersion,
+  usesInvoiceParents,
+  invoiceSubscriptionExpand,
+  subscriptionPeriodEnd,
+  invoiceSubscription,
+  invoiceSubscriptionId,
+  isInvoicePaid,
+  invoiceLinePrice,
+  isProrationLine,
+} from './stripe/versions.js';
+
+// Webhook ingestion
+export {
+  verifyWebhookEvent,
+  createWebhookListener,
+  startWebhookServer,
+  DEFAULT_WEBHOOK_PORT,
+  DEFAULT_WEBHOOK_PATH,
+} from './stripe/webhooks.js';
+
+// Fixture recording and replay
+export { createRecordingSource, createReplaySource, createStaticSource, readManifest } from './stripe/fixtures.js';
+
+// Stripe dashboard CSV exports
+export { createCsvSource, loadCsvExports } from './stripe/csv.js';
+export { parseCsv } from './utils/csv.js';
+
+// Local subscription snapshot
+export {
+  createSnapshotStore,
+  mergeSubscriptionChanges,
+  needsFullSync,
+  buildSyncStatus,
+  loadSnapshot,
+  saveSnapshot,
+} from './store/snapshot.js';
+
+// Event archive
+export {
+  createEventArchive,
+  extendCoverage,
+  describeCoverageGap,
+  STRIPE_EVENT_RETENTION_DAYS,
+} from './store/events.js';
+
 // Metric computation functions (pure functions)
-export { computeMrr } from './metrics/mrr.js';
-export { computeChurn } from './metrics/churn.js';
+export { computeMrr, computeSubscriptionMrr, isDiscountActive } from './metrics/mrr.js';
+export { computeChurn, classifyChurn } from './metrics/churn.js';
 export { computeRevenueByPlan } from './metrics/plans.js';
 export { computeSubscriberStats } from './metrics/subscribers.js';
 export { computeRecentChanges } from './metrics/changes.js';
+export { computeMrrHistory } from './metrics/history.js';
+export { computeCohortRetention } from './metrics/cohorts.js';
+export { computeRevenueRetention } from './metrics/retention.js';
+export { groupByCustomer, aggregateByCustomer, computeTopCustomers } from './metrics/customers.js';
+export { computeConsolidatedMrr, computeConsolidatedMovement } from './metrics/accounts.js';
+export { computeDiscountCliff } from './metrics/discounts.js';
+export { computePendingCancellations, scheduledCancelDate, MRR_AT_RISK_HORIZONS } from './metrics/cancellations.js';
+export { computeTrialConversion, trialOutcome } from './metrics/trials.js';
 
 // Formatting utilities
 export {
   formatCents,
   formatPercent,
+  formatGrowthRate,
   formatDate,
   mrrToMarkdown,
   churnToMarkdown,
   planBreakdownToMarkdown,
   subscriberStatsToMarkdown,
   changesToMarkdown,
+  mrrHistoryToMarkdown,
+  cohortRetentionToMarkdown,
+  revenueRetentionToMarkdown,
+  topCustomersToMarkdown,
+  discountCliffToMarkdown,
+  pendingCancellationsToMarkdown,
+  trialConversionToMarkdown,
+  syncStatusToMarkdown,
 } from './utils/format.js';
 
+// Tool output schemas (structured content)
+export {
+  mrrResultSchema,
+  churnResultSchema,
+  revenueByPlanResultSchema,
+  subscriberStatsSchema,
+  recentChangesResultSchema,
+  mrrMovementResultSchema,
+  dashboardOutputSchema,
+  failedPaymentsResultSchema,
+  mrrHistoryResultSchema,
+  cohortRetentionResultSchema,
+  revenueRetentionResultSchema,
+  topCustomersResultSchema,
+  discountCliffResultSchema,
+  pendingCancellationsResultSchema,
+  trialConversionResultSchema,
+  syncStatusOutputSchema,
+  toInputSchema,
+  toOutputSchema,
+  toPromptArguments,
+} from './schemas.js';
+export type { DashboardOutput } from './schemas.js';
+
+// Currency conversion
+export {
+  convertCents,
+  toReportingCurrency,
+  eventsToReportingCurrency,
+  computeCurrencySubtotals,
+  loadFxRates,
+  parseFxRates,
+  requireSingleCurrency,
+} from './utils/fx.js';
+
+// Money
+export {
+  getMinorUnitDigits,
+  toMajorUnits,
+  toMinorUnits,
+  formatSignedCents,
+} from './utils/money.js';
+
 // Utility functions
-export { normalizeToMonthlyCents } from './types.js';
+export { normalizeToMonthlyCents, computeItemAmountCents } from './types.js';
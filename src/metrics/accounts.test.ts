@@ -0,0 +1,123 @@
+/**
+ * Tests for consolidated metrics across connected accounts.
+ * Covers: summed MRR and movement, per-account breakdown and ordering,
+ * empty accounts, mixed currencies, Stripe-Account header pass-through.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { computeConsolidatedMrr, computeConsolidatedMovement } from './accounts.js';
+import { createConnectedAccountSource, fetchAllSubscriptions } from '../stripe/client.js';
+import type { AccountData, NormalizedEvent } from '../types.js';
+import { createSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+function createUpgrade(id: string, fromCents: number, toCents: number): NormalizedEvent {
+  return {
+    id,
+    type: 'customer.subscription.updated',
+    created: now - DAY,
+    customerId: 'cus_test',
+    customerEmail: null,
+    subscriptionId: 'sub_test',
+    planName: 'Test Plan',
+    amountCents: toCents,
+    previousPlanName: 'Test Plan',
+    previousAmountCents: fromCents,
+    currency: 'usd',
+  };
+}
+
+function createAccount(accountId: string, overrides: Partial<AccountData> = {}): AccountData {
+  return { accountId, subscriptions: [], canceledSubscriptions: [], events: [], ...overrides };
+}
+
+describe('computeConsolidatedMrr', () => {
+  it('sums MRR across accounts with a breakdown sorted by MRR', () => {
+    const result = computeConsolidatedMrr([
+      createAccount('acct_small', { subscriptions: [createSubscription({ id: 'sub_1' }, 1000)] }),
+      createAccount('acct_big', {
+        subscriptions: [createSubscription({ id: 'sub_2' }, 2000), createSubscription({ id: 'sub_3' }, 1000)],
+      }),
+    ]);
+
+    expect(result.totalMrrCents).toBe(4000);
+    expect(result.subscriptionCount).toBe(3);
+    expect(result.accountBreakdown).toEqual([
+      { accountId: 'acct_big', subscriptionCount: 2, mrrCents: 3000, mrrFormatted: '$30.00', percentOfTotal: 75 },
+      { accountId: 'acct_small', subscriptionCount: 1, mrrCents: 1000, mrrFormatted: '$10.00', percentOfTotal: 25 },
+    ]);
+  });
+
+  it('formats an empty account in the consolidated currency', () => {
+    const result = computeConsolidatedMrr([
+      createAccount('acct_eur', { subscriptions: [createSubscription({ id: 'sub_1', currency: 'eur' })] }),
+      createAccount('acct_empty'),
+    ]);
+
+    expect(result.currency).toBe('eur');
+    expect(result.accountBreakdown![1]).toMatchObject({ accountId: 'acct_empty', mrrCents: 0, mrrFormatted: '€0.00', percentOfTotal: 0 });
+  });
+
+  it('throws when accounts bill in different currencies without FX rates', () => {
+    expect(() => computeConsolidatedMrr([
+      createAccount('acct_us', { subscriptions: [createSubscription({ id: 'sub_1' })] }),
+      createAccount('acct_eu', { subscriptions: [createSubscription({ id: 'sub_2', currency: 'eur' })] }),
+    ])).toThrow('Mixed currencies');
+  });
+});
+
+describe('computeConsolidatedMovement', () => {
+  it('sums movement across accounts with a per-account breakdown', () => {
+    const result = computeConsolidatedMovement([
+      createAccount('acct_a', {
+        subscriptions: [createSubscription({ id: 'sub_new', createdAt: now - DAY }, 5000)],
+        canceledSubscriptions: [createSubscription({ id: 'sub_gone', status: 'canceled', canceledAt: now - DAY }, 1000)],
+      }),
+      createAccount('acct_b', { events: [createUpgrade('evt_1', 1000, 3000)] }),
+    ], 7);
+
+    expect(result.newMrrCents).toBe(5000);
+    expect(result.expansionMrrCents).toBe(2000);
+    expect(result.churnedMrrCents).toBe(1000);
+    expect(result.netNewMrrCents).toBe(6000);
+    expect(result.accountBreakdown!.map(a => [a.accountId, a.netNewMrrCents, a.netNewMrrFormatted])).toEqual([
+      ['acct_a', 4000, '+$40.00'],
+      ['acct_b', 2000, '+$20.00'],
+    ]);
+  });
+});
+
+describe('createConnectedAccountSource', () => {
+  it('sends the Stripe-Account header with every request', async () => {
+    const calls: unknown[] = [];
+    const raw = {
+      id: 'sub_1',
+      customer: 'cus_1',
+      status: 'active',
+      current_period_end: now,
+      canceled_at: null,
+      cancel_at: null,
+      created: now,
+      trial_end: null,
+      discount: null,
+      currency: 'usd',
+      items: { data: [{ quantity: 1, price: { id: 'price_1', product: 'prod_1', nickname: null, unit_amount: 1000, recurring: { interval: 'month', interval_count: 1 } } }] },
+    };
+    const stripe = {
+      subscriptions: { list: (_params: unknown, options: unknown) => { calls.push(options); return [raw]; } },
+      products: { retrieve: async (id: string, _params: unknown, options: unknown) => { calls.push(options); return { id, name: 'Pro' }; } },
+    } as unknown as Stripe;
+
+    const subs = await fetchAllSubscriptions(createConnectedAccountSource(stripe, 'acct_123'), ['active']);
+
+    expect(subs[0].items[0].productName).toBe('Pro');
+    expect(calls).toEqual([{ stripeAccount: 'acct_123' }, { stripeAccount: 'acct_123' }]);
+  });
+
+  it('rejects IDs that are not connected accounts', () => {
+    expect(() => createConnectedAccountSource({} as Stripe, 'cus_123')).toThrow('Invalid connected account ID');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Consolidated metrics across Stripe Connect connected accounts.
+ * Pure functions - no API calls, only computation.
+ */
+
+import type {
+  AccountData,
+  AccountSubscriptions,
+  AccountMrr,
+  AccountMovement,
+  MrrResult,
+  MrrMovementResult,
+  CurrencyOptions,
+} from '../types.js';
+import { computeMrr } from './mrr.js';
+import { computeMrrMovement } from './dashboard.js';
+import { formatCents, formatSignedCents } from '../utils/money.js';
+
+/**
+ * Compute MRR over several connected accounts, with a per-account breakdown.
+ *
+ * Rules:
+ * 1. The total is computeMrr over every account's subscriptions together
+ * 2. Each account's MRR follows the same rules on its own subscriptions
+ * 3. All accounts must share a currency (throw on mismatch), unless currency
+ *    options convert them into a reporting currency
+ * 4. Breakdown is sorted by MRR descending, then account ID
+ *
+ * @param accounts - Subscriptions per connected account
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp to compute at (default: now)
+ * @returns MrrResult for the whole platform, with accountBreakdown set
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeConsolidatedMrr(
+  accounts: AccountSubscriptions[],
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): MrrResult {
+  const result = computeMrr(accounts.flatMap(account => account.subscriptions), currencyOptions, asOf);
+
+  result.accountBreakdown = accounts
+    .map((account): AccountMrr => {
+      const mrr = computeMrr(account.subscriptions, currencyOptions, asOf);
+      return {
+        accountId: account.accountId,
+        subscriptionCount: mrr.subscriptionCount,
+        mrrCents: mrr.totalMrrCents,
+        // Format in the consolidated currency; an empty account defaults to USD on its own
+        mrrFormatted: formatCents(mrr.totalMrrCents, result.currency),
+        percentOfTotal: result.totalMrrCents === 0 ? 0 : (mrr.totalMrrCents / result.totalMrrCents) * 100,
+      };
+    })
+    .sort((a, b) => b.mrrCents - a.mrrCents || a.accountId.localeCompare(b.accountId));
+
+  return result;
+}
+
+/**
+ * Compute MRR movement over several connected accounts, with a per-account breakdown.
+ *
+ * Rules:
+ * 1. The total is computeMrrMovement over every account's data together
+ * 2. Each account's movement follows the same rules on its own data
+ * 3. Breakdown is sorted by net new MRR descending, then account ID
+ *
+ * @param accounts - Subscriptions, canceled subscriptions and events per connected account
+ * @param periodDays - Number of days to look back
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the period ends at (default: now)
+ * @returns MrrMovementResult for the whole platform, with accountBreakdown set
+ */
+export function computeConsolidatedMovement(
+  accounts: AccountData[],
+  periodDays: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): MrrMovementResult {
+  const result = computeMrrMovement(
+    accounts.flatMap(account => account.subscriptions),
+    accounts.flatMap(account => account.canceledSubscriptions),
+    accounts.flatMap(account => account.events),
+    periodDays,
+    currencyOptions,
+    asOf
+  );
+
+  result.accountBreakdown = accounts
+    .map((account): AccountMovement => {
+      const movement = computeMrrMovement(
+        account.subscriptions,
+        account.canceledSubscriptions,
+        account.events,
+        periodDays,
+        currencyOptions,
+        asOf
+      );
+      return {
+        accountId: account.accountId,
+        newMrrCents: movement.newMrrCents,
+        expansionMrrCents: movement.expansionMrrCents,
+        contractionMrrCents: movement.contractionMrrCents,
+        churnedMrrCents: movement.churnedMrrCents,
+        netNewMrrCents: movement.netNewMrrCents,
+        netNewMrrFormatted: formatSignedCents(movement.netNewMrrCents, result.currency),
+      };
+    })
+    .sort((a, b) => b.netNewMrrCents - a.netNewMrrCents || a.accountId.localeCompare(b.accountId));
+
+  return result;
+}
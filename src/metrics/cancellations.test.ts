@@ -0,0 +1,121 @@
+/**
+ * Tests for scheduled cancellations.
+ * Covers: cancel_at vs cancel_at_period_end, MRR at risk per horizon,
+ * ordering, status filtering, dashboard totals, failed payments in several
+ * currencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computePendingCancellations, scheduledCancelDate } from './cancellations.js';
+import { computeDashboard, summarizeFailedPayments } from './dashboard.js';
+import type { FailedPaymentInfo, SubscriptionData } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+// $100/month by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }, unitAmountCents: number = 10000) =>
+  createTestSubscription(overrides, unitAmountCents);
+
+describe('scheduledCancelDate', () => {
+  it('prefers cancel_at, then the period end when cancel_at_period_end is set', () => {
+    expect(scheduledCancelDate(createSubscription({ id: 'sub_1' }))).toBeNull();
+    expect(scheduledCancelDate(createSubscription({ id: 'sub_2', cancelAtPeriodEnd: true }))).toBe(now + 30 * DAY);
+    expect(scheduledCancelDate(createSubscription({ id: 'sub_3', cancelAt: now + 5 * DAY, cancelAtPeriodEnd: true }))).toBe(now + 5 * DAY);
+  });
+});
+
+describe('computePendingCancellations', () => {
+  it('lists scheduled cancellations soonest first with their MRR', () => {
+    const result = computePendingCancellations([
+      createSubscription({ id: 'sub_period_end', cancelAtPeriodEnd: true, currentPeriodEnd: now + 20 * DAY }, 5000),
+      createSubscription({ id: 'sub_dated', cancelAt: now + 10 * DAY }),
+      createSubscription({ id: 'sub_staying' }),
+    ]);
+
+    expect(result.cancellations.map(c => [c.subscriptionId, c.daysUntilCancel, c.atPeriodEnd, c.mrrCents])).toEqual([
+      ['sub_dated', 10, false, 10000],
+      ['sub_period_end', 20, true, 5000],
+    ]);
+    expect(result.cancellations[0].planName).toBe('Test Plan');
+    expect(result.totalMrrCents).toBe(15000);
+    expect(result.totalMrrFormatted).toBe('$150.00');
+  });
+
+  it('totals MRR at risk cumulatively over 30, 60 and 90 days', () => {
+    const result = computePendingCancellations([
+      createSubscription({ id: 'sub_15', cancelAt: now + 15 * DAY }, 1000),
+      createSubscription({ id: 'sub_45', cancelAt: now + 45 * DAY }, 2000),
+      createSubscription({ id: 'sub_75', cancelAt: now + 75 * DAY }, 4000),
+      createSubscription({ id: 'sub_200', cancelAt: now + 200 * DAY }, 8000),
+    ]);
+
+    expect(result.mrrAtRisk.map(r => [r.withinDays, r.subscriptionCount, r.mrrCents])).toEqual([
+      [30, 1, 1000],
+      [60, 2, 3000],
+      [90, 3, 7000],
+    ]);
+    expect(result.totalMrrCents).toBe(15000);
+  });
+
+  it('ignores non-paying subscriptions and cancel dates already passed', () => {
+    const result = computePendingCancellations([
+      createSubscription({ id: 'sub_trial', status: 'trialing', cancelAtPeriodEnd: true }),
+      createSubscription({ id: 'sub_past', cancelAt: now - DAY }),
+      createSubscription({ id: 'sub_past_due', status: 'past_due', cancelAtPeriodEnd: true }),
+    ]);
+
+    expect(result.cancellations.map(c => c.subscriptionId)).toEqual(['sub_past_due']);
+  });
+
+  it('throws on mixed currencies without currency options', () => {
+    expect(() => computePendingCancellations([
+      createSubscription({ id: 'sub_usd', cancelAtPeriodEnd: true }),
+      createSubscription({ id: 'sub_eur', cancelAtPeriodEnd: true, currency: 'eur' }),
+    ])).toThrow();
+  });
+});
+
+describe('computeDashboard', () => {
+  it('includes MRR at risk from scheduled cancellations', () => {
+    const subs = [
+      createSubscription({ id: 'sub_leaving', cancelAtPeriodEnd: true, currentPeriodEnd: now + 12 * DAY }),
+      createSubscription({ id: 'sub_staying' }),
+    ];
+    const result = computeDashboard(subs, [], [], []);
+
+    expect(result.mrrAtRisk.map(r => r.mrrCents)).toEqual([10000, 10000, 10000]);
+  });
+
+  it('keeps failed payments in several currencies instead of failing', () => {
+    const failedPayments = [
+      createFailedPayment('usd', 2000),
+      createFailedPayment('eur', 1000),
+      createFailedPayment('usd', 500),
+    ];
+
+    const result = computeDashboard([createSubscription({ id: 'sub_1' })], [], [], failedPayments);
+    expect(result.failedPayments).toHaveLength(3);
+
+    const summary = summarizeFailedPayments(failedPayments);
+    expect(summary.totalAtRiskCents).toBeNull();
+    expect(summary.currency).toBeNull();
+    expect(summary.totalAtRiskFormatted).toBe('$25.00 + €10.00');
+  });
+});
+
+function createFailedPayment(currency: string, amountCents: number): FailedPaymentInfo {
+  return {
+    customerEmail: 'test@example.com',
+    customerId: 'cus_test',
+    amountCents,
+    amountFormatted: '',
+    currency,
+    failureReason: 'card_declined',
+    attemptCount: 1,
+    lastAttemptDate: '2026-10-01',
+    subscriptionId: null,
+    planName: null,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Scheduled cancellations module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  PendingCancellation,
+  PendingCancellationsResult,
+  MrrAtRisk,
+  CurrencyOptions,
+} from '../types.js';
+import { computeSubscriptionMrr } from './mrr.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Horizons, in days, for the MRR at risk totals.
+ */
+export const MRR_AT_RISK_HORIZONS = [30, 60, 90];
+
+/**
+ * When a subscription is scheduled to cancel, or null if it isn't.
+ * An explicit cancel_at wins; otherwise cancel_at_period_end means the end of
+ * the current period.
+ */
+export function scheduledCancelDate(sub: SubscriptionData): number | null {
+  if (sub.cancelAt !== null) return sub.cancelAt;
+  return sub.cancelAtPeriodEnd ? sub.currentPeriodEnd : null;
+}
+
+/**
+ * List subscriptions scheduled to cancel and the MRR that goes with them.
+ *
+ * Rules:
+ * 1. Only 'active' and 'past_due' subscriptions count (same as computeMrr)
+ * 2. A subscription is pending cancellation if it has a cancel date in the
+ *    future (see scheduledCancelDate)
+ * 3. MRR is the subscription's MRR today, discounts included
+ * 4. MRR at risk is cumulative: the 60-day figure includes the first 30 days
+ * 5. Sorted by cancel date, then subscription ID
+ * 6. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - All subscriptions to analyze
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp to compute at (default: now)
+ * @returns PendingCancellationsResult with each cancellation and MRR at risk
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computePendingCancellations(
+  subscriptions: SubscriptionData[],
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): PendingCancellationsResult {
+  const paying = subscriptions.filter(sub =>
+    sub.status === 'active' || sub.status === 'past_due'
+  );
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(paying, currencyOptions);
+
+  const pending: Array<{ cancelAt: number; cancellation: PendingCancellation }> = [];
+  for (const sub of converted) {
+    const cancelAt = scheduledCancelDate(sub);
+    if (cancelAt === null || cancelAt <= asOf) continue;
+
+    const mrrCents = Math.round(computeSubscriptionMrr(sub, asOf));
+    pending.push({
+      cancelAt,
+      cancellation: {
+        subscriptionId: sub.id,
+        customerId: sub.customerId,
+        customerEmail: sub.customerEmail,
+        planName: sub.items[0]?.planName || 'Unknown',
+        cancelDate: new Date(cancelAt * 1000).toISOString().split('T')[0],
+        daysUntilCancel: Math.ceil((cancelAt - asOf) / 86400),
+        atPeriodEnd: sub.cancelAt === null,
+        mrrCents,
+        mrrFormatted: formatCents(mrrCents, currency),
+      },
+    });
+  }
+
+  pending.sort((a, b) =>
+    a.cancelAt - b.cancelAt || a.cancellation.subscriptionId.localeCompare(b.cancellation.subscriptionId)
+  );
+
+  const mrrAtRisk: MrrAtRisk[] = MRR_AT_RISK_HORIZONS.map(withinDays => {
+    const within = pending.filter(p => p.cancelAt <= asOf + withinDays * 86400);
+    const mrrCents = within.reduce((sum, p) => sum + p.cancellation.mrrCents, 0);
+    return {
+      withinDays,
+      subscriptionCount: within.length,
+      mrrCents,
+      mrrFormatted: formatCents(mrrCents, currency),
+    };
+  });
+
+  const totalMrrCents = pending.reduce((sum, p) => sum + p.cancellation.mrrCents, 0);
+
+  return {
+    cancellations: pending.map(p => p.cancellation),
+    mrrAtRisk,
+    totalMrrCents,
+    totalMrrFormatted: formatCents(totalMrrCents, currency),
+    currency,
+  };
+}
@@ -8,6 +8,7 @@ import type {
   RecentChangesResult,
   SubscriptionChange,
 } from '../types.js';
+import { formatCents } from '../utils/money.js';
 
 /**
  * Compute recent subscription changes from events.
@@ -69,7 +70,7 @@ export function computeRecentChanges(
       type: changeType,
       customerEmail: event.customerEmail || 'No email',
       planName: event.planName || 'Unknown Plan',
-      amountFormatted: formatAmount(event.amountCents),
+      amountFormatted: formatAmount(event.amountCents, event.currency),
       date: formatDate(event.created),
     };
     
@@ -125,15 +126,10 @@ function mapEventToChangeType(
 }
 
 /**
- * Format amount in cents to dollar string.
+ * Format an event amount in the event's currency.
  */
-function formatAmount(amountCents: number | null): string {
-  if (amountCents === null) {
-    return '$0.00';
-  }
-  
-  const dollars = amountCents / 100;
-  return `$${dollars.toFixed(2)}`;
+function formatAmount(amountCents: number | null, currency: string | null): string {
+  return formatCents(amountCents ?? 0, currency ?? 'usd');
 }
 
 /**
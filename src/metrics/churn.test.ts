@@ -0,0 +1,73 @@
+/**
+ * Tests for churn.
+ * Covers: voluntary / involuntary / unclassified split, rates adding up to the
+ * overall rates, reason breakdown, no subscriptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeChurn, classifyChurn } from './churn.js';
+import type { CancellationDetails, SubscriptionData } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+// $100/month by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }, unitAmountCents: number = 10000) =>
+  createTestSubscription(overrides, unitAmountCents);
+
+function canceled(
+  id: string,
+  details: CancellationDetails | null,
+  unitAmountCents: number = 10000
+): SubscriptionData {
+  return createSubscription({ id, status: 'canceled', canceledAt: now - 5 * DAY, cancellationDetails: details }, unitAmountCents);
+}
+
+describe('classifyChurn', () => {
+  it('classifies by the cancellation reason', () => {
+    expect(classifyChurn({ reason: 'cancellation_requested', feedback: null, comment: null })).toBe('voluntary');
+    expect(classifyChurn({ reason: 'payment_failed', feedback: null, comment: null })).toBe('involuntary');
+    expect(classifyChurn({ reason: 'payment_disputed', feedback: null, comment: null })).toBe('involuntary');
+    expect(classifyChurn(null)).toBe('unclassified');
+  });
+});
+
+describe('computeChurn', () => {
+  const current = Array.from({ length: 10 }, (_, i) => createSubscription({ id: `sub_active_${i}` }));
+
+  it('splits churn into voluntary, involuntary and unclassified', () => {
+    const result = computeChurn(current, [
+      canceled('sub_price', { reason: 'cancellation_requested', feedback: 'too_expensive', comment: 'Too pricey' }),
+      canceled('sub_unused', { reason: 'cancellation_requested', feedback: 'unused', comment: null }, 5000),
+      canceled('sub_card', { reason: 'payment_failed', feedback: null, comment: null }),
+      canceled('sub_old', null, 2000),
+    ], 30);
+
+    expect(result.voluntary).toMatchObject({ churnedCustomers: 2, churnedMrrCents: 15000, customerChurnRate: 20, revenueChurnRate: 15 });
+    expect(result.involuntary).toMatchObject({ churnedCustomers: 1, churnedMrrCents: 10000, customerChurnRate: 10, revenueChurnRate: 10 });
+    expect(result.unclassified).toMatchObject({ churnedCustomers: 1, churnedMrrCents: 2000 });
+    expect(result.voluntary.customerChurnRate + result.involuntary.customerChurnRate + result.unclassified.customerChurnRate)
+      .toBeCloseTo(result.customerChurnRate);
+  });
+
+  it('breaks churn down by reason and feedback, largest MRR first', () => {
+    const result = computeChurn(current, [
+      canceled('sub_1', { reason: 'cancellation_requested', feedback: 'too_expensive', comment: null }, 2000),
+      canceled('sub_2', { reason: 'payment_failed', feedback: null, comment: null }),
+      canceled('sub_3', { reason: 'cancellation_requested', feedback: 'too_expensive', comment: null }, 2000),
+    ], 30);
+
+    expect(result.reasons.map(r => [r.churnType, r.reason, r.feedback, r.churnedCustomers, r.churnedMrrCents])).toEqual([
+      ['involuntary', 'payment_failed', null, 1, 10000],
+      ['voluntary', 'cancellation_requested', 'too_expensive', 2, 4000],
+    ]);
+    expect(result.reasons[0].percentOfChurnedMrr).toBeCloseTo(71.43, 1);
+  });
+
+  it('returns empty segments with no subscriptions', () => {
+    const result = computeChurn([], [], 30);
+    expect(result.voluntary.churnedCustomers).toBe(0);
+    expect(result.reasons).toEqual([]);
+  });
+});
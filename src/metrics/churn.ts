@@ -6,9 +6,16 @@
 import type {
   SubscriptionData,
   ChurnResult,
+  ChurnSegment,
+  ChurnType,
+  ChurnReasonBreakdown,
+  CancellationDetails,
+  CurrencyOptions,
   normalizeToMonthlyCents,
 } from '../types.js';
-import { normalizeToMonthlyCents as normalizeFn } from '../types.js';
+import { computeSubscriptionMrr } from './mrr.js';
+import { toReportingCurrency, computeCurrencySubtotals } from '../utils/fx.js';
+import { formatCents } from '../utils/money.js';
 
 /**
  * Compute churn metrics for a given period.
@@ -21,32 +28,42 @@ import { normalizeToMonthlyCents as normalizeFn } from '../types.js';
  * 5. startingMRR = sum of MRR from subscriptions that existed before the period
  * 6. churnedMRR = sum of MRR from canceled subscriptions
  * 7. Handle edge: 0 starting customers = 0% churn
+ * 8. With currency options, amounts are converted into the reporting currency
+ *    and churned MRR is also broken down by original currency
+ * 9. Churn is split by type (see classifyChurn); each type's rates use the
+ *    same starting customers and MRR, so they add up to the overall rates
+ * 10. Reasons group churned subscriptions by type, reason and feedback,
+ *     largest churned MRR first
  * 
  * @param allSubs - All current subscriptions (active, trialing, past_due)
  * @param canceledSubs - Subscriptions canceled in the period
  * @param periodDays - Number of days for the period
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the period ends at (default: now)
  * @returns ChurnResult with churn rates and metrics
- * @throws Error if mixed currencies detected
+ * @throws Error if mixed currencies detected without currency options
  */
 export function computeChurn(
   allSubs: SubscriptionData[],
   canceledSubs: SubscriptionData[],
-  periodDays: number
+  periodDays: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): ChurnResult {
   // Normalize periodDays
   const normalizedPeriodDays = periodDays <= 0 ? 1 : periodDays;
   
   // Calculate period boundaries (in seconds)
-  const nowSeconds = Math.floor(Date.now() / 1000);
-  const periodStartSeconds = nowSeconds - (normalizedPeriodDays * 24 * 60 * 60);
+  const periodStartSeconds = asOf - (normalizedPeriodDays * 24 * 60 * 60);
   
   // Format dates for output
-  const endDate = new Date(nowSeconds * 1000).toISOString().split('T')[0];
+  const endDate = new Date(asOf * 1000).toISOString().split('T')[0];
   const startDate = new Date(periodStartSeconds * 1000).toISOString().split('T')[0];
   
-  // Currency validation: ensure all subscriptions have same currency
+  // Currency validation / conversion into a single currency
   const allSubscriptions = [...allSubs, ...canceledSubs];
   if (allSubscriptions.length === 0) {
+    const currency = currencyOptions?.reportingCurrency.toLowerCase() ?? 'usd';
     return {
       periodDays: normalizedPeriodDays,
       startDate,
@@ -55,26 +72,24 @@ export function computeChurn(
       revenueChurnRate: 0,
       churnedCustomers: 0,
       churnedMrrCents: 0,
-      churnedMrrFormatted: '$0.00',
+      churnedMrrFormatted: formatCents(0, currency),
       startingCustomers: 0,
       startingMrrCents: 0,
-      currency: 'usd',
+      voluntary: computeChurnSegment([], 0, 0, currency, asOf),
+      involuntary: computeChurnSegment([], 0, 0, currency, asOf),
+      unclassified: computeChurnSegment([], 0, 0, currency, asOf),
+      reasons: [],
+      currency,
     };
   }
   
-  const currencies = new Set(allSubscriptions.map(sub => sub.currency.toLowerCase()));
-  if (currencies.size > 1) {
-    const currencyList = Array.from(currencies)
-      .map(c => c.toUpperCase())
-      .sort()
-      .join(', ');
-    throw new Error(`Mixed currencies not supported. Found: ${currencyList}`);
-  }
-  const currency = allSubscriptions[0].currency.toLowerCase();
+  const { currency, subscriptions: converted } = toReportingCurrency(allSubscriptions, currencyOptions);
+  const current = converted.slice(0, allSubs.length);
+  const canceled = converted.slice(allSubs.length);
   
   // Compute starting customers: active/past_due subs that existed BEFORE the period
   // This means subscriptions created before periodStartSeconds
-  const startingSubscriptions = allSubs.filter(sub => {
+  const startingSubscriptions = current.filter(sub => {
     const isRelevantStatus = sub.status === 'active' || sub.status === 'past_due';
     const existedBeforePeriod = sub.createdAt < periodStartSeconds;
     return isRelevantStatus && existedBeforePeriod;
@@ -83,11 +98,11 @@ export function computeChurn(
   const startingCustomers = startingSubscriptions.length;
   
   // Compute starting MRR
-  const startingMrrCents = computeTotalMrr(startingSubscriptions);
+  const startingMrrCents = computeTotalMrr(startingSubscriptions, asOf);
   
   // Compute churned metrics
-  const churnedCustomers = canceledSubs.length;
-  const churnedMrrCents = computeTotalMrr(canceledSubs);
+  const churnedCustomers = canceled.length;
+  const churnedMrrCents = computeTotalMrr(canceled, asOf);
   
   // Compute churn rates
   // Edge case: 0 starting customers = 0% churn
@@ -95,9 +110,9 @@ export function computeChurn(
   const revenueChurnRate = startingMrrCents === 0 ? 0 : (churnedMrrCents / startingMrrCents) * 100;
   
   // Format churned MRR
-  const churnedMrrFormatted = formatCentsAsDollars(churnedMrrCents, currency);
+  const churnedMrrFormatted = formatCents(churnedMrrCents, currency);
   
-  return {
+  const result: ChurnResult = {
     periodDays: normalizedPeriodDays,
     startDate,
     endDate,
@@ -108,75 +123,108 @@ export function computeChurn(
     churnedMrrFormatted,
     startingCustomers,
     startingMrrCents: Math.round(startingMrrCents),
+    voluntary: computeChurnSegment(
+      canceled.filter(sub => classifyChurn(sub.cancellationDetails) === 'voluntary'),
+      startingCustomers, startingMrrCents, currency, asOf
+    ),
+    involuntary: computeChurnSegment(
+      canceled.filter(sub => classifyChurn(sub.cancellationDetails) === 'involuntary'),
+      startingCustomers, startingMrrCents, currency, asOf
+    ),
+    unclassified: computeChurnSegment(
+      canceled.filter(sub => classifyChurn(sub.cancellationDetails) === 'unclassified'),
+      startingCustomers, startingMrrCents, currency, asOf
+    ),
+    reasons: computeChurnReasons(canceled, churnedMrrCents, currency, asOf),
     currency,
   };
+  
+  // Keep the original-currency subtotals of churned MRR visible when converting
+  if (currencyOptions) {
+    result.currencyBreakdown = computeCurrencySubtotals(
+      canceledSubs,
+      sub => computeTotalMrr([sub], asOf),
+      currencyOptions
+    );
+  }
+  
+  return result;
 }
 
 /**
- * Compute total MRR for a set of subscriptions.
- * Same logic as computeMrr but returns just the cents value.
+ * Classify a cancellation as voluntary (the customer asked for it) or
+ * involuntary (payment failed or was disputed). Cancellations without a
+ * recorded reason are unclassified.
+ */
+export function classifyChurn(details: CancellationDetails | null): ChurnType {
+  switch (details?.reason) {
+    case 'cancellation_requested':
+      return 'voluntary';
+    case 'payment_failed':
+    case 'payment_disputed':
+      return 'involuntary';
+    default:
+      return 'unclassified';
+  }
+}
+
+/**
+ * Churn counts and rates for one type of churn.
  */
-function computeTotalMrr(subscriptions: SubscriptionData[]): number {
-  return subscriptions.reduce((total, subscription) => {
-    // Skip subscriptions with no items
-    if (subscription.items.length === 0) {
-      return total;
-    }
-    
-    // Normalize each item to monthly, then sum
-    let monthlyAmount = subscription.items.reduce((itemTotal, item) => {
-      const itemAmount = item.unitAmountCents * item.quantity;
-      const monthlyItemAmount = normalizeFn(
-        itemAmount,
-        item.interval,
-        item.intervalCount
-      );
-      return itemTotal + monthlyItemAmount;
-    }, 0);
-    
-    // Apply discount AFTER normalization
-    if (subscription.discount) {
-      if (subscription.discount.percentOff !== null) {
-        monthlyAmount = monthlyAmount * (1 - subscription.discount.percentOff / 100);
-      } else if (subscription.discount.amountOff !== null) {
-        const referenceInterval = subscription.items[0].interval;
-        const referenceIntervalCount = subscription.items[0].intervalCount;
-        const monthlyDiscount = normalizeFn(
-          subscription.discount.amountOff,
-          referenceInterval,
-          referenceIntervalCount
-        );
-        monthlyAmount = monthlyAmount - monthlyDiscount;
-      }
-    }
-    
-    // Clamp negative amounts to 0
-    monthlyAmount = Math.max(0, monthlyAmount);
-    
-    return total + monthlyAmount;
-  }, 0);
+function computeChurnSegment(
+  canceled: SubscriptionData[],
+  startingCustomers: number,
+  startingMrrCents: number,
+  currency: string,
+  asOf: number
+): ChurnSegment {
+  const churnedMrrCents = computeTotalMrr(canceled, asOf);
+  return {
+    customerChurnRate: startingCustomers === 0 ? 0 : (canceled.length / startingCustomers) * 100,
+    revenueChurnRate: startingMrrCents === 0 ? 0 : (churnedMrrCents / startingMrrCents) * 100,
+    churnedCustomers: canceled.length,
+    churnedMrrCents: Math.round(churnedMrrCents),
+    churnedMrrFormatted: formatCents(churnedMrrCents, currency),
+  };
 }
 
 /**
- * Format cents as dollar string.
+ * Group churned subscriptions by type, reason and customer feedback.
  */
-function formatCentsAsDollars(cents: number, currency: string): string {
-  const dollars = cents / 100;
-  const symbol = currency.toLowerCase() === 'usd' ? '$' : getCurrencySymbol(currency);
-  return `${symbol}${dollars.toFixed(2)}`;
+function computeChurnReasons(
+  canceled: SubscriptionData[],
+  churnedMrrCents: number,
+  currency: string,
+  asOf: number
+): ChurnReasonBreakdown[] {
+  const groups = new Map<string, { sample: CancellationDetails | null; subs: SubscriptionData[] }>();
+  for (const sub of canceled) {
+    const key = `${sub.cancellationDetails?.reason ?? ''}\u0000${sub.cancellationDetails?.feedback ?? ''}`;
+    const group = groups.get(key) ?? { sample: sub.cancellationDetails, subs: [] };
+    group.subs.push(sub);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ sample, subs }) => {
+      const mrrCents = computeTotalMrr(subs, asOf);
+      return {
+        churnType: classifyChurn(sample),
+        reason: sample?.reason ?? null,
+        feedback: sample?.feedback ?? null,
+        churnedCustomers: subs.length,
+        churnedMrrCents: Math.round(mrrCents),
+        churnedMrrFormatted: formatCents(mrrCents, currency),
+        percentOfChurnedMrr: churnedMrrCents === 0 ? 0 : (mrrCents / churnedMrrCents) * 100,
+      };
+    })
+    .sort((a, b) => b.churnedMrrCents - a.churnedMrrCents || b.churnedCustomers - a.churnedCustomers);
 }
 
 /**
- * Get currency symbol for common currencies.
+ * Compute total MRR for a set of subscriptions.
+ * Same logic as computeMrr but returns just the cents value.
  */
-function getCurrencySymbol(currency: string): string {
-  const symbols: Record<string, string> = {
-    usd: '$',
-    eur: '€',
-    gbp: '£',
-    jpy: '¥',
-    cad: 'CA$',
-    aud: 'A$',
-  };
-  return symbols[currency.toLowerCase()] || currency.toUpperCase() + ' ';
+function computeTotalMrr(subscriptions: SubscriptionData[], at: number): number {
+  return subscriptions.reduce((total, subscription) => total + computeSubscriptionMrr(subscription, at), 0);
 }
@@ -0,0 +1,120 @@
+/**
+ * Tests for computeCohortRetention.
+ * Covers: cohort assignment by first subscription, customer-level grouping,
+ * logo vs revenue retention, plan changes, triangular shape, range filtering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCohortRetention } from './cohorts.js';
+import type { SubscriptionData, NormalizedEvent } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+// Signed up now by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }) =>
+  createTestSubscription({ createdAt: Math.floor(Date.now() / 1000), ...overrides });
+
+/** Unix timestamp for the 1st of the month, `monthsAgo` months before now (UTC). */
+function monthsAgo(months: number): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, 1) / 1000;
+}
+
+describe('computeCohortRetention', () => {
+  it('returns no cohorts for an empty list', () => {
+    const result = computeCohortRetention([], [], 6);
+    expect(result.cohorts).toEqual([]);
+    expect(result.currency).toBe('usd');
+  });
+
+  it('builds a triangular matrix (older cohorts have more columns)', () => {
+    const subs = [
+      createSubscription({ id: 'sub_a', customerId: 'cus_a', createdAt: monthsAgo(3) }),
+      createSubscription({ id: 'sub_b', customerId: 'cus_b', createdAt: monthsAgo(1) }),
+    ];
+    const result = computeCohortRetention(subs, [], 6);
+    expect(result.cohorts.map(c => c.logoRetention.length)).toEqual([4, 2]);
+  });
+
+  it('groups by customer and uses their first subscription month', () => {
+    const subs = [
+      createSubscription({ id: 'sub_1', customerId: 'cus_a', createdAt: monthsAgo(2) }),
+      createSubscription({ id: 'sub_2', customerId: 'cus_a', createdAt: monthsAgo(1) }),
+    ];
+    const result = computeCohortRetention(subs, [], 6);
+    expect(result.cohorts).toHaveLength(1);
+    expect(result.cohorts[0].customers).toBe(1);
+    expect(result.cohorts[0].startingMrrCents).toBe(1000);
+    // Second subscription is expansion: revenue retention above 100%
+    expect(result.cohorts[0].revenueRetention[2]).toBeCloseTo(200);
+    expect(result.cohorts[0].logoRetention[2]).toBe(100);
+  });
+
+  it('tracks churned customers in both logo and revenue retention', () => {
+    const subs = [
+      createSubscription({ id: 'sub_1', customerId: 'cus_a', createdAt: monthsAgo(2) }),
+      createSubscription({
+        id: 'sub_2',
+        customerId: 'cus_b',
+        createdAt: monthsAgo(2),
+        status: 'canceled',
+        canceledAt: monthsAgo(1),
+      }),
+    ];
+    const [row] = computeCohortRetention(subs, [], 6).cohorts;
+    expect(row.customers).toBe(2);
+    expect(row.logoRetention[0]).toBe(100);
+    expect(row.logoRetention[1]).toBe(50);
+    expect(row.revenueRetention[1]).toBeCloseTo(50);
+  });
+
+  it('shows an upgrade after the signup month as expansion', () => {
+    const subs = [
+      createSubscription({
+        id: 'sub_1',
+        customerId: 'cus_a',
+        createdAt: monthsAgo(2),
+        items: [{ ...createSubscription({ id: 'sub_1' }).items[0], unitAmountCents: 2000 }],
+      }),
+    ];
+    const upgrade: NormalizedEvent = {
+      id: 'evt_upgrade',
+      type: 'customer.subscription.updated',
+      created: monthsAgo(1) + 86400,
+      customerId: 'cus_a',
+      customerEmail: 'test@example.com',
+      subscriptionId: 'sub_1',
+      planName: 'Test Plan',
+      amountCents: 2000,
+      previousPlanName: 'Test Plan',
+      previousAmountCents: 1000,
+      currency: 'usd',
+    };
+
+    const [row] = computeCohortRetention(subs, [upgrade], 6).cohorts;
+    expect(row.startingMrrCents).toBe(1000);
+    expect(row.revenueRetention).toEqual([100, 200, 200]);
+    expect(row.logoRetention).toEqual([100, 100, 100]);
+
+    // Without the event the upgrade is invisible
+    expect(computeCohortRetention(subs, [], 6).cohorts[0].revenueRetention).toEqual([100, 100, 100]);
+  });
+
+  it('reports null revenue retention when the cohort started in trial', () => {
+    const subs = [
+      createSubscription({ id: 'sub_1', customerId: 'cus_a', createdAt: monthsAgo(0), status: 'trialing', trialEnd: Math.floor(Date.now() / 1000) + 86400 }),
+    ];
+    const [row] = computeCohortRetention(subs, [], 3).cohorts;
+    expect(row.logoRetention).toEqual([100]);
+    expect(row.revenueRetention).toEqual([null]);
+  });
+
+  it('excludes customers who signed up before the range', () => {
+    const subs = [
+      createSubscription({ id: 'sub_old', customerId: 'cus_old', createdAt: monthsAgo(12) }),
+      createSubscription({ id: 'sub_new', customerId: 'cus_new', createdAt: monthsAgo(1) }),
+    ];
+    const result = computeCohortRetention(subs, [], 3);
+    expect(result.cohorts).toHaveLength(1);
+    expect(result.cohorts[0].customers).toBe(1);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Signup-cohort retention computation module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  NormalizedEvent,
+  CohortRow,
+  CohortRetentionResult,
+  CurrencyOptions,
+} from '../types.js';
+import { indexAmountChanges, isSubscriptionLiveAt, subscriptionMrrAt } from './history.js';
+import { groupByCustomer } from './customers.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Compute a signup-month cohort retention matrix.
+ *
+ * Rules:
+ * 1. A customer's signup month is the month of their earliest subscription
+ *    (SubscriptionData.createdAt), in UTC
+ * 2. Only the last `months` signup months are reported (oldest first)
+ * 3. For each cohort and each month since signup (up to the current month),
+ *    logo retention = customers with at least one live subscription at that
+ *    month's end / cohort size. Trials count as live.
+ * 4. Revenue retention = cohort MRR at that month's end / cohort MRR at the end
+ *    of the signup month, using the same lifecycle rules as get_mrr_history:
+ *    plan changes after a month's end are backed out, so upgrades show up as
+ *    expansion and downgrades as contraction
+ * 5. The current month is measured "now" rather than at the calendar boundary
+ * 6. Incomplete/incomplete_expired subscriptions are ignored
+ * 7. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - Active AND canceled subscriptions
+ * @param events - Normalized events (subscription updates are used to replay plan changes)
+ * @param months - Number of signup cohorts to report
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the current month is measured at (default: now)
+ * @returns CohortRetentionResult with one triangular row per cohort
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeCohortRetention(
+  subscriptions: SubscriptionData[],
+  events: NormalizedEvent[],
+  months: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): CohortRetentionResult {
+  const normalizedMonths = months <= 0 ? 1 : Math.floor(months);
+  const now = new Date(asOf * 1000);
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(subscriptions, currencyOptions);
+  const updatesBySubscription = indexAmountChanges(events, currencyOptions);
+
+  // Group subscriptions by customer
+  const byCustomer = groupByCustomer(converted.filter(sub =>
+    sub.status !== 'incomplete' && sub.status !== 'incomplete_expired'
+  ));
+
+  // Assign each customer to the month of their first subscription
+  const currentMonthIndex = now.getUTCFullYear() * 12 + now.getUTCMonth();
+  const firstCohortIndex = currentMonthIndex - normalizedMonths + 1;
+  const cohortMembers = new Map<number, SubscriptionData[][]>();
+  for (const subs of byCustomer.values()) {
+    const signup = new Date(Math.min(...subs.map(s => s.createdAt)) * 1000);
+    const cohortIndex = signup.getUTCFullYear() * 12 + signup.getUTCMonth();
+    if (cohortIndex < firstCohortIndex || cohortIndex > currentMonthIndex) continue;
+    const members = cohortMembers.get(cohortIndex) || [];
+    members.push(subs);
+    cohortMembers.set(cohortIndex, members);
+  }
+
+  const cohorts: CohortRow[] = [];
+  for (let cohortIndex = firstCohortIndex; cohortIndex <= currentMonthIndex; cohortIndex++) {
+    const members = cohortMembers.get(cohortIndex);
+    if (!members) continue;
+
+    const logoRetention: number[] = [];
+    const revenueRetention: (number | null)[] = [];
+    let startingMrr = 0;
+
+    for (let monthIndex = cohortIndex; monthIndex <= currentMonthIndex; monthIndex++) {
+      const monthEnd = Math.min(endOfMonth(monthIndex), asOf);
+      let liveCustomers = 0;
+      let mrr = 0;
+
+      for (const subs of members) {
+        if (subs.some(sub => isSubscriptionLiveAt(sub, monthEnd))) {
+          liveCustomers++;
+        }
+        for (const sub of subs) {
+          mrr += subscriptionMrrAt(sub, updatesBySubscription.get(sub.id) || [], monthEnd) ?? 0;
+        }
+      }
+
+      if (monthIndex === cohortIndex) {
+        startingMrr = mrr;
+      }
+
+      logoRetention.push((liveCustomers / members.length) * 100);
+      revenueRetention.push(startingMrr === 0 ? null : (mrr / startingMrr) * 100);
+    }
+
+    cohorts.push({
+      cohort: monthLabel(cohortIndex),
+      customers: members.length,
+      startingMrrCents: Math.round(startingMrr),
+      startingMrrFormatted: formatCents(startingMrr, currency),
+      logoRetention,
+      revenueRetention,
+    });
+  }
+
+  return {
+    months: normalizedMonths,
+    cohorts,
+    currency,
+  };
+}
+
+/**
+ * Last second of a month, given as years * 12 + month (UTC).
+ */
+function endOfMonth(monthIndex: number): number {
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  return Date.UTC(year, month + 1, 1) / 1000 - 1;
+}
+
+/**
+ * "YYYY-MM" label for a month given as years * 12 + month.
+ */
+function monthLabel(monthIndex: number): string {
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  return `${year}-${month.toString().padStart(2, '0')}`;
+}
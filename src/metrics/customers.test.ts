@@ -0,0 +1,90 @@
+/**
+ * Tests for customer-level aggregation and concentration.
+ * Covers: one customer with many subscriptions, status filtering,
+ * Pareto cumulative shares, Herfindahl index, limit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateByCustomer, computeTopCustomers, groupByCustomer } from './customers.js';
+import { createSubscription } from '../test/helpers/subscription.js';
+
+describe('groupByCustomer', () => {
+  it('groups subscriptions by customerId', () => {
+    const groups = groupByCustomer([
+      createSubscription({ id: 'sub_1', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_2', customerId: 'cus_b' }),
+      createSubscription({ id: 'sub_3', customerId: 'cus_a' }),
+    ]);
+    expect(groups.size).toBe(2);
+    expect(groups.get('cus_a')!.map(s => s.id)).toEqual(['sub_1', 'sub_3']);
+  });
+});
+
+describe('aggregateByCustomer', () => {
+  it('counts a customer with three subscriptions once', () => {
+    const customers = aggregateByCustomer([
+      createSubscription({ id: 'sub_1', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_2', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_3', customerId: 'cus_a' }),
+    ]);
+    expect(customers).toHaveLength(1);
+    expect(customers[0].subscriptionCount).toBe(3);
+    expect(customers[0].mrrCents).toBe(3000);
+  });
+
+  it('ignores trialing and canceled subscriptions', () => {
+    const customers = aggregateByCustomer([
+      createSubscription({ id: 'sub_1', customerId: 'cus_a', status: 'trialing' }),
+      createSubscription({ id: 'sub_2', customerId: 'cus_b', status: 'canceled' }),
+      createSubscription({ id: 'sub_3', customerId: 'cus_c', status: 'past_due' }),
+    ]);
+    expect(customers.map(c => c.customerId)).toEqual(['cus_c']);
+  });
+});
+
+describe('computeTopCustomers', () => {
+  it('returns empty result for no customers', () => {
+    const result = computeTopCustomers([], 10);
+    expect(result.customers).toEqual([]);
+    expect(result.totalCustomers).toBe(0);
+    expect(result.herfindahlIndex).toBe(0);
+    expect(result.top10PercentShare).toBe(0);
+  });
+
+  it('ranks customers and computes Pareto shares', () => {
+    const subs = [
+      createSubscription({ id: 'sub_a', customerId: 'cus_a' }, 6000),
+      createSubscription({ id: 'sub_b', customerId: 'cus_b' }, 3000),
+      createSubscription({ id: 'sub_c', customerId: 'cus_c' }, 1000),
+    ];
+    const result = computeTopCustomers(subs, 10);
+
+    expect(result.customers.map(c => c.customerId)).toEqual(['cus_a', 'cus_b', 'cus_c']);
+    expect(result.customers.map(c => c.rank)).toEqual([1, 2, 3]);
+    expect(result.customers[0].percentOfTotal).toBeCloseTo(60);
+    expect(result.customers[1].cumulativePercent).toBeCloseTo(90);
+    expect(result.customers[2].cumulativePercent).toBeCloseTo(100);
+    // 60² + 30² + 10² = 4600
+    expect(result.herfindahlIndex).toBe(4600);
+    expect(result.customersFor80Percent).toBe(2);
+    expect(result.top10PercentShare).toBeCloseTo(60);
+  });
+
+  it('limits the list but keeps concentration over all customers', () => {
+    const subs = Array.from({ length: 5 }, (_, i) =>
+      createSubscription({ id: `sub_${i}`, customerId: `cus_${i}` })
+    );
+    const result = computeTopCustomers(subs, 2);
+    expect(result.customers).toHaveLength(2);
+    expect(result.totalCustomers).toBe(5);
+    expect(result.herfindahlIndex).toBe(2000);
+  });
+
+  it('throws on mixed currencies', () => {
+    const subs = [
+      createSubscription({ id: 'sub_usd', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_eur', customerId: 'cus_b', currency: 'eur' }),
+    ];
+    expect(() => computeTopCustomers(subs, 10)).toThrow('Mixed currencies not supported');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Customer-level aggregation and revenue concentration module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  CustomerMrr,
+  TopCustomer,
+  TopCustomersResult,
+  CurrencyOptions,
+} from '../types.js';
+import { computeSubscriptionMrr } from './mrr.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Group subscriptions by SubscriptionData.customerId.
+ * Preserves input order within each customer.
+ *
+ * @param subscriptions - Subscriptions in any status
+ * @returns Map of customer ID to that customer's subscriptions
+ */
+export function groupByCustomer(subscriptions: SubscriptionData[]): Map<string, SubscriptionData[]> {
+  const byCustomer = new Map<string, SubscriptionData[]>();
+  for (const sub of subscriptions) {
+    const list = byCustomer.get(sub.customerId) || [];
+    list.push(sub);
+    byCustomer.set(sub.customerId, list);
+  }
+  return byCustomer;
+}
+
+/**
+ * Aggregate current MRR per customer.
+ *
+ * Rules:
+ * 1. Only 'active' and 'past_due' subscriptions contribute (same as computeMrr)
+ * 2. A customer's MRR is the sum of their subscriptions' MRR
+ * 3. Customers with 0 MRR are omitted
+ * 4. Sorted by MRR descending, then customer ID for stable output
+ *
+ * @param subscriptions - All subscriptions to analyze
+ * @param currency - Currency used for the formatted amounts
+ * @param asOf - Unix timestamp to value discounts at (default: now)
+ * @returns One entry per paying customer
+ */
+export function aggregateByCustomer(
+  subscriptions: SubscriptionData[],
+  currency: string = 'usd',
+  asOf: number = Math.floor(Date.now() / 1000)
+): CustomerMrr[] {
+  const paying = subscriptions.filter(sub =>
+    sub.status === 'active' || sub.status === 'past_due'
+  );
+
+  const customers: CustomerMrr[] = [];
+  for (const [customerId, subs] of groupByCustomer(paying)) {
+    const mrrCents = subs.reduce((total, sub) => total + computeSubscriptionMrr(sub, asOf), 0);
+    if (mrrCents <= 0) continue;
+
+    const planNames = [...new Set(subs.map(sub => sub.items[0]?.planName).filter((p): p is string => !!p))];
+    customers.push({
+      customerId,
+      customerEmail: subs.find(sub => sub.customerEmail)?.customerEmail ?? null,
+      subscriptionCount: subs.length,
+      mrrCents: Math.round(mrrCents),
+      mrrFormatted: formatCents(mrrCents, currency),
+      planNames,
+    });
+  }
+
+  customers.sort((a, b) => b.mrrCents - a.mrrCents || a.customerId.localeCompare(b.customerId));
+  return customers;
+}
+
+/**
+ * Rank customers by MRR and measure revenue concentration.
+ *
+ * Rules:
+ * 1. Customers come from aggregateByCustomer (active/past_due only)
+ * 2. percentOfTotal and cumulativePercent are shares of total MRR
+ * 3. herfindahlIndex = sum of squared percentage shares over ALL customers
+ *    (10000 = one customer holds everything; < 1500 is unconcentrated)
+ * 4. customersFor80Percent = smallest number of customers covering 80% of MRR
+ * 5. top10PercentShare = share of MRR from the largest ceil(10%) of customers
+ * 6. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - All subscriptions to analyze
+ * @param limit - Number of customers to list
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp to compute at (default: now)
+ * @returns TopCustomersResult with the ranked list and concentration metrics
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeTopCustomers(
+  subscriptions: SubscriptionData[],
+  limit: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): TopCustomersResult {
+  const paying = subscriptions.filter(sub =>
+    sub.status === 'active' || sub.status === 'past_due'
+  );
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(paying, currencyOptions);
+
+  const all = aggregateByCustomer(converted, currency, asOf);
+  const totalMrrCents = all.reduce((sum, c) => sum + c.mrrCents, 0);
+
+  let cumulative = 0;
+  let herfindahlIndex = 0;
+  let customersFor80Percent = 0;
+  const ranked: TopCustomer[] = all.map((customer, index) => {
+    const percentOfTotal = totalMrrCents === 0 ? 0 : (customer.mrrCents / totalMrrCents) * 100;
+    if (cumulative < 80) customersFor80Percent++;
+    cumulative += percentOfTotal;
+    herfindahlIndex += percentOfTotal * percentOfTotal;
+    return {
+      ...customer,
+      rank: index + 1,
+      percentOfTotal,
+      cumulativePercent: Math.min(100, cumulative),
+    };
+  });
+
+  const topDecileCount = Math.ceil(all.length * 0.1);
+  const top10PercentShare = topDecileCount === 0 ? 0 : ranked[topDecileCount - 1].cumulativePercent;
+
+  return {
+    customers: ranked.slice(0, Math.max(0, limit)),
+    totalCustomers: all.length,
+    totalMrrCents,
+    totalMrrFormatted: formatCents(totalMrrCents, currency),
+    herfindahlIndex: Math.round(herfindahlIndex),
+    customersFor80Percent,
+    top10PercentShare,
+    currency,
+  };
+}
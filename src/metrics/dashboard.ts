@@ -8,24 +8,44 @@ import type {
   DashboardResult,
   MrrMovementResult,
   FailedPaymentInfo,
+  FailedPaymentsResult,
   TrialInfo,
+  CurrencyOptions,
 } from '../types.js';
-import { normalizeToMonthlyCents } from '../types.js';
-import { computeMrr } from './mrr.js';
+import { computeMrr, computeSubscriptionMrr } from './mrr.js';
+import { computePendingCancellations } from './cancellations.js';
+import {
+  toReportingCurrency,
+  eventsToReportingCurrency,
+  convertCents,
+} from '../utils/fx.js';
+import { formatCents, formatSignedCents, formatTotalsByCurrency } from '../utils/money.js';
 
 /**
  * Compute MRR movement (waterfall) for a period.
  * New + Expansion - Contraction - Churn = Net New MRR
+ * With currency options, subscriptions and event amounts are converted into
+ * the reporting currency first. The period ends at `asOf` (default: now).
  */
 export function computeMrrMovement(
   currentSubs: SubscriptionData[],
   canceledSubs: SubscriptionData[],
   events: NormalizedEvent[],
-  periodDays: number
+  periodDays: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): MrrMovementResult {
-  const cutoff = Math.floor(Date.now() / 1000) - (periodDays * 86400);
-  const currencies = new Set(currentSubs.map(s => s.currency.toLowerCase()));
-  const currency = currencies.size > 0 ? [...currencies][0] : 'usd';
+  const cutoff = asOf - (periodDays * 86400);
+  let currency: string;
+  if (currencyOptions) {
+    currency = currencyOptions.reportingCurrency.toLowerCase();
+    currentSubs = toReportingCurrency(currentSubs, currencyOptions).subscriptions;
+    canceledSubs = toReportingCurrency(canceledSubs, currencyOptions).subscriptions;
+    events = eventsToReportingCurrency(events, currencyOptions);
+  } else {
+    const currencies = new Set(currentSubs.map(s => s.currency.toLowerCase()));
+    currency = currencies.size > 0 ? [...currencies][0] : 'usd';
+  }
 
   let newMrr = 0;
   let expansionMrr = 0;
@@ -35,7 +55,7 @@ export function computeMrrMovement(
   // New MRR: subscriptions created in the period that are active
   for (const sub of currentSubs) {
     if (sub.createdAt >= cutoff && (sub.status === 'active' || sub.status === 'past_due')) {
-      const subMrr = computeSubscriptionMrr(sub);
+      const subMrr = computeSubscriptionMrr(sub, asOf);
       newMrr += subMrr;
     }
   }
@@ -43,7 +63,7 @@ export function computeMrrMovement(
   // Churned MRR: canceled subscriptions in the period
   for (const sub of canceledSubs) {
     if (sub.canceledAt && sub.canceledAt >= cutoff) {
-      const subMrr = computeSubscriptionMrr(sub);
+      const subMrr = computeSubscriptionMrr(sub, asOf);
       churnedMrr += subMrr;
     }
   }
@@ -72,31 +92,31 @@ export function computeMrrMovement(
     contractionMrrCents: Math.round(contractionMrr),
     churnedMrrCents: Math.round(churnedMrr),
     netNewMrrCents: Math.round(netNew),
-    netNewMrrFormatted: `${netNew >= 0 ? '+' : '-'}$${(Math.abs(netNew) / 100).toFixed(2)}`,
+    netNewMrrFormatted: formatSignedCents(netNew, currency),
     currency,
   };
 }
 
 /**
- * Get trials expiring within N days.
+ * Get trials expiring within N days of `asOf` (default: now).
  */
 export function getExpiringTrials(
   subscriptions: SubscriptionData[],
-  withinDays: number = 3
+  withinDays: number = 3,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): TrialInfo[] {
-  const now = Math.floor(Date.now() / 1000);
-  const cutoff = now + (withinDays * 86400);
+  const cutoff = asOf + (withinDays * 86400);
 
   return subscriptions
     .filter(sub =>
       sub.status === 'trialing' &&
       sub.trialEnd !== null &&
-      sub.trialEnd > now &&
+      sub.trialEnd > asOf &&
       sub.trialEnd <= cutoff
     )
     .map(sub => {
-      const daysRemaining = Math.ceil((sub.trialEnd! - now) / 86400);
-      const mrrIfConverted = computeSubscriptionMrr(sub);
+      const daysRemaining = Math.ceil((sub.trialEnd! - asOf) / 86400);
+      const mrrIfConverted = computeSubscriptionMrr(sub, asOf);
       return {
         customerEmail: sub.customerEmail || 'No email',
         customerId: sub.customerId,
@@ -104,25 +124,69 @@ export function getExpiringTrials(
         trialEnd: sub.trialEnd!,
         daysRemaining,
         mrrIfConverted: Math.round(mrrIfConverted),
-        mrrIfConvertedFormatted: `$${(mrrIfConverted / 100).toFixed(2)}`,
+        mrrIfConvertedFormatted: formatCents(mrrIfConverted, sub.currency),
+        currency: sub.currency.toLowerCase(),
       };
     })
     .sort((a, b) => a.daysRemaining - b.daysRemaining);
 }
 
 /**
- * Compute the full dashboard result.
+ * Total the amount at risk across failed payments.
+ * With currency options, each payment is converted into the reporting currency.
+ * Otherwise payments in a single currency are totaled as-is; payments in several
+ * currencies get one total per currency and no overall total, since adding them
+ * up would mix currencies.
+ */
+export function summarizeFailedPayments(
+  failedPayments: FailedPaymentInfo[],
+  currencyOptions?: CurrencyOptions
+): FailedPaymentsResult {
+  if (currencyOptions) {
+    const currency = currencyOptions.reportingCurrency.toLowerCase();
+    failedPayments = failedPayments.map(fp => {
+      if (fp.currency.toLowerCase() === currency) return fp;
+      const amountCents = Math.round(convertCents(fp.amountCents, fp.currency, currency, currencyOptions.fxRates));
+      return { ...fp, amountCents, amountFormatted: formatCents(amountCents, currency), currency };
+    });
+  }
+
+  const currencies = new Set(failedPayments.map(fp => fp.currency.toLowerCase()));
+  if (currencies.size > 1) {
+    return {
+      failedPayments,
+      totalAtRiskCents: null,
+      totalAtRiskFormatted: formatTotalsByCurrency(failedPayments),
+      currency: null,
+    };
+  }
+
+  const currency = currencyOptions?.reportingCurrency.toLowerCase() ?? [...currencies][0] ?? 'usd';
+  const totalAtRisk = failedPayments.reduce((sum, fp) => sum + fp.amountCents, 0);
+  return {
+    failedPayments,
+    totalAtRiskCents: totalAtRisk,
+    totalAtRiskFormatted: formatCents(totalAtRisk, currency),
+    currency,
+  };
+}
+
+/**
+ * Compute the full dashboard result, as of `asOf` (default: now).
  */
 export function computeDashboard(
   currentSubs: SubscriptionData[],
   canceledSubs: SubscriptionData[],
   events: NormalizedEvent[],
   failedPayments: FailedPaymentInfo[],
-  periodDays: number = 7
+  periodDays: number = 7,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): DashboardResult {
-  const mrr = computeMrr(currentSubs);
-  const mrrMovement = computeMrrMovement(currentSubs, canceledSubs, events, periodDays);
-  const expiringTrials = getExpiringTrials(currentSubs, 3);
+  const mrr = computeMrr(currentSubs, currencyOptions, asOf);
+  const mrrMovement = computeMrrMovement(currentSubs, canceledSubs, events, periodDays, currencyOptions, asOf);
+  const expiringTrials = getExpiringTrials(toReportingCurrency(currentSubs, currencyOptions).subscriptions, 3, asOf);
+  const { mrrAtRisk } = computePendingCancellations(currentSubs, currencyOptions, asOf);
 
   // Quick Ratio: (new + expansion) / (contraction + churn)
   const positive = mrrMovement.newMrrCents + mrrMovement.expansionMrrCents;
@@ -132,34 +196,9 @@ export function computeDashboard(
   return {
     mrr,
     mrrMovement,
-    failedPayments,
+    failedPayments: summarizeFailedPayments(failedPayments, currencyOptions).failedPayments,
     expiringTrials,
+    mrrAtRisk,
     quickRatio: Math.round(quickRatio * 10) / 10,
   };
 }
-
-/**
- * Compute MRR for a single subscription (helper).
- */
-function computeSubscriptionMrr(sub: SubscriptionData): number {
-  let monthlyAmount = 0;
-  for (const item of sub.items) {
-    const itemAmount = item.unitAmountCents * item.quantity;
-    monthlyAmount += normalizeToMonthlyCents(itemAmount, item.interval, item.intervalCount);
-  }
-
-  if (sub.discount) {
-    if (sub.discount.percentOff !== null) {
-      monthlyAmount *= (1 - sub.discount.percentOff / 100);
-    } else if (sub.discount.amountOff !== null && sub.items[0]) {
-      const monthlyDiscount = normalizeToMonthlyCents(
-        sub.discount.amountOff,
-        sub.items[0].interval,
-        sub.items[0].intervalCount
-      );
-      monthlyAmount -= monthlyDiscount;
-    }
-  }
-
-  return Math.max(0, monthlyAmount);
-}
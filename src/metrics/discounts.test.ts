@@ -0,0 +1,61 @@
+/**
+ * Tests for the discount cliff.
+ * Covers: repeating coupons ending inside and outside the window, one-time
+ * coupons, stacked discounts, scheduled cancellations, status filtering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeDiscountCliff } from './discounts.js';
+import type { DiscountData, SubscriptionData } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+// $100/month by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }, unitAmountCents: number = 10000) =>
+  createTestSubscription(overrides, unitAmountCents);
+
+function repeating(couponId: string, percentOff: number, endsInDays: number): DiscountData {
+  return { couponId, percentOff, amountOff: null, duration: 'repeating', end: now + endsInDays * DAY };
+}
+
+describe('computeDiscountCliff', () => {
+  it('lists repeating coupons ending inside the window', () => {
+    const result = computeDiscountCliff([
+      createSubscription({ id: 'sub_soon', discounts: [repeating('launch', 50, 10)] }),
+      createSubscription({ id: 'sub_later', discounts: [repeating('annual', 20, 200)] }),
+      createSubscription({ id: 'sub_once', discounts: [{ couponId: 'welcome', percentOff: 50, amountOff: null, duration: 'once', end: null }] }),
+      createSubscription({ id: 'sub_forever', discounts: [{ couponId: 'partner', percentOff: 10, amountOff: null, duration: 'forever', end: null }] }),
+    ], 90);
+
+    expect(result.expiringDiscounts.map(d => d.subscriptionId)).toEqual(['sub_soon']);
+    expect(result.expiringDiscounts[0].returningMrrCents).toBe(5000);
+    expect(result.returningMrrCents).toBe(5000);
+    // $50 + $80 + $100 (one-time coupon doesn't count) + $90
+    expect(result.currentMrrCents).toBe(32000);
+  });
+
+  it('splits stacked discounts so they add up to the total change', () => {
+    const result = computeDiscountCliff([
+      createSubscription({ id: 'sub_1', discounts: [repeating('first', 50, 30), repeating('second', 20, 10)] }),
+    ], 90);
+
+    // $100 * 0.5 * 0.8 = $40 now; $50 after "second" ends; $100 after "first" ends
+    expect(result.expiringDiscounts.map(d => [d.couponId, d.returningMrrCents])).toEqual([
+      ['second', 1000],
+      ['first', 5000],
+    ]);
+    expect(result.returningMrrCents).toBe(6000);
+  });
+
+  it('skips coupons that outlast a scheduled cancellation and non-paying subscriptions', () => {
+    const result = computeDiscountCliff([
+      createSubscription({ id: 'sub_leaving', cancelAt: now + 5 * DAY, discounts: [repeating('launch', 50, 10)] }),
+      createSubscription({ id: 'sub_trial', status: 'trialing', discounts: [repeating('launch', 50, 10)] }),
+    ], 90);
+
+    expect(result.expiringDiscounts).toEqual([]);
+    expect(result.currentMrrCents).toBe(5000);
+  });
+});
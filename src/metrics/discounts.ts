@@ -0,0 +1,102 @@
+/**
+ * Discount cliff computation module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  DiscountCliffResult,
+  ExpiringDiscount,
+  CurrencyOptions,
+} from '../types.js';
+import { computeSubscriptionMrr, isDiscountActive } from './mrr.js';
+import { scheduledCancelDate } from './cancellations.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Find the MRR that comes back as coupons expire over the next N days.
+ *
+ * Rules:
+ * 1. Only 'active' and 'past_due' subscriptions count (same as computeMrr)
+ * 2. A discount expires in the window if it is active now (see isDiscountActive)
+ *    and its end falls within the next `days` days; subscription- and
+ *    item-level discounts both count
+ * 3. Discounts ending at or after a scheduled cancellation are skipped, since
+ *    that revenue never returns
+ * 4. Each discount's returning MRR is the subscription's MRR just after it ends
+ *    minus the MRR just before, taken in end order, so stacked discounts add up
+ *    to the subscription's total change
+ * 5. Sorted by end date, then subscription ID
+ * 6. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - All subscriptions to analyze
+ * @param days - Window in days, starting now
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the window starts at (default: now)
+ * @returns DiscountCliffResult with current MRR and each expiring discount
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeDiscountCliff(
+  subscriptions: SubscriptionData[],
+  days: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): DiscountCliffResult {
+  const paying = subscriptions.filter(sub =>
+    sub.status === 'active' || sub.status === 'past_due'
+  );
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(paying, currencyOptions);
+
+  const windowEnd = asOf + days * 86400;
+
+  let currentMrrCents = 0;
+  const expiringDiscounts: ExpiringDiscount[] = [];
+  for (const sub of converted) {
+    let previousMrr = computeSubscriptionMrr(sub, asOf);
+    currentMrrCents += previousMrr;
+    const cancelAt = scheduledCancelDate(sub);
+
+    const expiring = [...sub.discounts, ...sub.items.flatMap(item => item.discounts ?? [])]
+      .filter(discount =>
+        isDiscountActive(discount, asOf) &&
+        discount.end !== null &&
+        discount.end <= windowEnd &&
+        (cancelAt === null || discount.end < cancelAt)
+      )
+      .sort((a, b) => a.end! - b.end!);
+
+    for (const discount of expiring) {
+      const nextMrr = computeSubscriptionMrr(sub, discount.end!);
+      const returningMrrCents = nextMrr - previousMrr;
+      previousMrr = nextMrr;
+      expiringDiscounts.push({
+        subscriptionId: sub.id,
+        customerId: sub.customerId,
+        customerEmail: sub.customerEmail,
+        couponId: discount.couponId,
+        endsAt: new Date(discount.end! * 1000).toISOString().split('T')[0],
+        returningMrrCents: Math.round(returningMrrCents),
+        returningMrrFormatted: formatCents(returningMrrCents, currency),
+      });
+    }
+  }
+
+  expiringDiscounts.sort((a, b) =>
+    a.endsAt.localeCompare(b.endsAt) || a.subscriptionId.localeCompare(b.subscriptionId)
+  );
+  const returningMrrCents = expiringDiscounts.reduce((sum, discount) => sum + discount.returningMrrCents, 0);
+
+  return {
+    periodDays: days,
+    currentMrrCents: Math.round(currentMrrCents),
+    currentMrrFormatted: formatCents(currentMrrCents, currency),
+    returningMrrCents,
+    returningMrrFormatted: formatCents(returningMrrCents, currency),
+    expiringDiscounts,
+    currency,
+  };
+}
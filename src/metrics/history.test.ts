@@ -0,0 +1,131 @@
+/**
+ * Tests for computeMrrHistory.
+ * Covers: lifecycle replay (created, trial end, canceled), plan-change undo,
+ * growth rate, weekly granularity, mixed currency error.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeMrrHistory } from './history.js';
+import type { SubscriptionData, NormalizedEvent } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+
+// Created well before the history window by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }) =>
+  createTestSubscription({ createdAt: Math.floor(Date.now() / 1000) - 400 * DAY, ...overrides });
+
+function createUpdateEvent(
+  subscriptionId: string,
+  created: number,
+  previousAmountCents: number,
+  amountCents: number
+): NormalizedEvent {
+  return {
+    id: `evt_${subscriptionId}_${created}`,
+    type: 'customer.subscription.updated',
+    created,
+    customerId: 'cus_test',
+    customerEmail: 'test@example.com',
+    subscriptionId,
+    planName: 'Test Plan',
+    amountCents,
+    previousPlanName: 'Test Plan',
+    previousAmountCents,
+    currency: 'usd',
+  };
+}
+
+describe('computeMrrHistory', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  it('returns one point per period, oldest first', () => {
+    const result = computeMrrHistory([createSubscription({ id: 'sub_1' })], [], 6);
+    expect(result.points).toHaveLength(6);
+    expect(result.granularity).toBe('month');
+    const labels = result.points.map(p => p.periodLabel);
+    expect([...labels].sort()).toEqual(labels);
+    expect(labels[5]).toBe(new Date().toISOString().slice(0, 7));
+  });
+
+  it('returns zero points for an empty subscription list', () => {
+    const result = computeMrrHistory([], [], 3);
+    expect(result.currency).toBe('usd');
+    expect(result.points.every(p => p.mrrCents === 0)).toBe(true);
+  });
+
+  it('excludes subscriptions before they were created', () => {
+    const subs = [
+      createSubscription({ id: 'sub_old' }),
+      createSubscription({ id: 'sub_new', createdAt: now - 2 * DAY }),
+    ];
+    const result = computeMrrHistory(subs, [], 12);
+    expect(result.points[0].mrrCents).toBe(1000);
+    expect(result.points[11].mrrCents).toBe(2000);
+  });
+
+  it('excludes canceled subscriptions after their cancellation', () => {
+    const subs = [
+      createSubscription({ id: 'sub_keep' }),
+      createSubscription({ id: 'sub_gone', status: 'canceled', canceledAt: now - 1 }),
+    ];
+    const result = computeMrrHistory(subs, [], 3);
+    expect(result.points[0].mrrCents).toBe(2000);
+    expect(result.points[2].mrrCents).toBe(1000);
+  });
+
+  it('excludes the trial period', () => {
+    const subs = [createSubscription({ id: 'sub_trial', trialEnd: now - 1 })];
+    const result = computeMrrHistory(subs, [], 3);
+    expect(result.points[0].mrrCents).toBe(0);
+    expect(result.points[2].mrrCents).toBe(1000);
+  });
+
+  it('ignores incomplete subscriptions', () => {
+    const subs = [createSubscription({ id: 'sub_inc', status: 'incomplete' })];
+    const result = computeMrrHistory(subs, [], 2);
+    expect(result.points[1].mrrCents).toBe(0);
+  });
+
+  it('undoes plan changes that happened after the snapshot', () => {
+    const subs = [createSubscription({ id: 'sub_up', items: [
+      {
+        priceId: 'price_pro',
+        productName: 'Pro',
+        planName: 'Pro',
+        quantity: 1,
+        unitAmountCents: 5000,
+        interval: 'month',
+        intervalCount: 1,
+      },
+    ] })];
+    const events = [createUpdateEvent('sub_up', now - 1, 1000, 5000)];
+    const result = computeMrrHistory(subs, events, 2);
+    expect(result.points[0].mrrCents).toBe(1000);
+    expect(result.points[1].mrrCents).toBe(5000);
+    expect(result.points[1].growthRate).toBeCloseTo(400);
+  });
+
+  it('has null growth for the first point and a zero baseline', () => {
+    const subs = [createSubscription({ id: 'sub_new', createdAt: now - 1 })];
+    const result = computeMrrHistory(subs, [], 2);
+    expect(result.points[0].growthRate).toBeNull();
+    expect(result.points[1].growthRate).toBeNull();
+  });
+
+  it('supports weekly granularity', () => {
+    const result = computeMrrHistory([createSubscription({ id: 'sub_1' })], [], 4, 'week');
+    expect(result.points).toHaveLength(4);
+    for (const point of result.points) {
+      expect(new Date(point.periodLabel).getUTCDay()).toBe(0);
+    }
+  });
+
+  it('throws on mixed currencies', () => {
+    const subs = [
+      createSubscription({ id: 'sub_usd' }),
+      createSubscription({ id: 'sub_eur', currency: 'eur' }),
+    ];
+    expect(() => computeMrrHistory(subs, [], 3)).toThrow('Mixed currencies not supported');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Historical MRR reconstruction module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  NormalizedEvent,
+  HistoryGranularity,
+  MrrHistoryPoint,
+  MrrHistoryResult,
+  CurrencyOptions,
+} from '../types.js';
+import { normalizeToMonthlyCents } from '../types.js';
+import { computeSubscriptionMrr } from './mrr.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency, eventsToReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Reconstruct period-end MRR for the last N months or weeks.
+ *
+ * Rules:
+ * 1. A subscription counts at time T if it was created at or before T,
+ *    was not in trial at T (trialEnd <= T), and — if it is canceled now —
+ *    was canceled after T
+ * 2. Only 'active', 'past_due' and 'canceled' subscriptions are replayed;
+ *    incomplete/unpaid/paused ones never contributed to MRR
+ * 3. The value at T starts from the subscription's current MRR, with the
+ *    discounts that were active at T, and backs out
+ *    every customer.subscription.updated amount change that happened after T
+ * 4. Amount changes are normalized with the first item's interval, the same
+ *    way computeMrr normalizes amount-off discounts
+ * 5. The most recent period ends "now" rather than at the calendar boundary
+ * 6. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - Active AND canceled subscriptions
+ * @param events - Normalized events (only subscription updates are used)
+ * @param periods - Number of periods to return (oldest first)
+ * @param granularity - 'month' for month-end, 'week' for week-end (Sunday, UTC)
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the latest period ends at (default: now)
+ * @returns MrrHistoryResult with one point per period
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeMrrHistory(
+  subscriptions: SubscriptionData[],
+  events: NormalizedEvent[],
+  periods: number,
+  granularity: HistoryGranularity = 'month',
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): MrrHistoryResult {
+  const normalizedPeriods = periods <= 0 ? 1 : Math.floor(periods);
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(subscriptions, currencyOptions);
+
+  const replayable = converted.filter(sub =>
+    sub.status === 'active' || sub.status === 'past_due' || sub.status === 'canceled'
+  );
+
+  // Index amount changes by subscription so each snapshot can undo later ones
+  const updatesBySubscription = indexAmountChanges(events, currencyOptions);
+
+  const points: MrrHistoryPoint[] = [];
+  for (const period of getPeriodEnds(asOf, normalizedPeriods, granularity)) {
+    let mrrCents = 0;
+    let subscriptionCount = 0;
+
+    for (const sub of replayable) {
+      const mrrAt = subscriptionMrrAt(sub, updatesBySubscription.get(sub.id) || [], period.end);
+      if (mrrAt === null) continue;
+      mrrCents += mrrAt;
+      subscriptionCount++;
+    }
+
+    const previous = points[points.length - 1];
+    const growthRate = previous === undefined || previous.mrrCents === 0
+      ? null
+      : ((mrrCents - previous.mrrCents) / previous.mrrCents) * 100;
+
+    points.push({
+      periodLabel: period.label,
+      periodEnd: new Date(period.end * 1000).toISOString().split('T')[0],
+      mrrCents: Math.round(mrrCents),
+      mrrFormatted: formatCents(mrrCents, currency),
+      subscriptionCount,
+      growthRate,
+    });
+  }
+
+  return {
+    granularity,
+    periods: normalizedPeriods,
+    points,
+    currency,
+  };
+}
+
+/**
+ * Group customer.subscription.updated events that changed the amount by
+ * subscription ID, converted into the reporting currency, for subscriptionMrrAt.
+ *
+ * @param events - Normalized events; other types are ignored
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @returns Amount changes per subscription ID
+ */
+export function indexAmountChanges(
+  events: NormalizedEvent[],
+  currencyOptions?: CurrencyOptions
+): Map<string, NormalizedEvent[]> {
+  const updatesBySubscription = new Map<string, NormalizedEvent[]>();
+  for (const event of eventsToReportingCurrency(events, currencyOptions)) {
+    if (event.type !== 'customer.subscription.updated' ||
+        event.subscriptionId === null ||
+        event.amountCents === null ||
+        event.previousAmountCents === null ||
+        event.amountCents === event.previousAmountCents) {
+      continue;
+    }
+    const list = updatesBySubscription.get(event.subscriptionId) || [];
+    list.push(event);
+    updatesBySubscription.set(event.subscriptionId, list);
+  }
+  return updatesBySubscription;
+}
+
+/**
+ * MRR a subscription contributed at a point in time, or null if it was not
+ * paying then (not yet created, still trialing, or already canceled).
+ *
+ * @param sub - Subscription to replay
+ * @param updates - Its customer.subscription.updated events with amount changes
+ * @param at - Unix timestamp of the snapshot
+ * @returns Unrounded monthly amount in cents, or null if not paying at `at`
+ */
+export function subscriptionMrrAt(
+  sub: SubscriptionData,
+  updates: NormalizedEvent[],
+  at: number
+): number | null {
+  if (!isSubscriptionLiveAt(sub, at)) return null;
+  if (sub.trialEnd !== null && sub.trialEnd > at) return null;
+
+  let mrr = computeSubscriptionMrr(sub, at);
+  const reference = sub.items[0];
+  if (reference) {
+    for (const update of updates) {
+      if (update.created <= at) continue;
+      const diff = update.amountCents! - update.previousAmountCents!;
+      mrr -= normalizeToMonthlyCents(diff, reference.interval, reference.intervalCount);
+    }
+  }
+
+  return Math.max(0, mrr);
+}
+
+/**
+ * Whether a subscription existed and was not yet canceled at a point in time.
+ * Trials count as live; use subscriptionMrrAt for paying status.
+ */
+export function isSubscriptionLiveAt(sub: SubscriptionData, at: number): boolean {
+  if (sub.createdAt > at) return false;
+  if (sub.status === 'canceled' && sub.canceledAt !== null && sub.canceledAt <= at) return false;
+  return true;
+}
+
+/**
+ * Compute the last N period-end timestamps (oldest first), capping the
+ * current, still-open period at now.
+ */
+function getPeriodEnds(
+  nowSeconds: number,
+  periods: number,
+  granularity: HistoryGranularity
+): Array<{ label: string; end: number }> {
+  const now = new Date(nowSeconds * 1000);
+  const ends: Array<{ label: string; end: number }> = [];
+
+  for (let i = periods - 1; i >= 0; i--) {
+    let end: number;
+    let label: string;
+
+    if (granularity === 'month') {
+      // Last second of the month, i months ago
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+      end = Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1) / 1000 - 1;
+      label = monthStart.toISOString().slice(0, 7);
+    } else {
+      // Last second of the week (Sunday, UTC), i weeks ago
+      const daysToSunday = (7 - now.getUTCDay()) % 7;
+      const sunday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + daysToSunday - i * 7);
+      end = sunday / 1000 + 86400 - 1;
+      label = new Date(sunday).toISOString().split('T')[0];
+    }
+
+    ends.push({ label, end: Math.min(end, nowSeconds) });
+  }
+
+  return ends;
+}
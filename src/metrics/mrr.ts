@@ -5,9 +5,15 @@
 
 import {
   SubscriptionData,
+  SubscriptionItemData,
+  DiscountData,
   MrrResult,
+  CurrencyOptions,
   normalizeToMonthlyCents,
+  computeItemAmountCents,
 } from '../types.js';
+import { toReportingCurrency, computeCurrencySubtotals } from '../utils/fx.js';
+import { formatCents } from '../utils/money.js';
 
 /**
  * Compute Monthly Recurring Revenue from subscription data.
@@ -15,43 +21,45 @@ import {
  * Rules:
  * 1. Only include 'active' or 'past_due' subscriptions in MRR
  * 2. EXCLUDE 'trialing' subscriptions (not yet paid)
- * 3. Sum all items per subscription: unitAmountCents * quantity
+ * 3. Sum all items per subscription: unitAmountCents * quantity, or the
+ *    tiered amount for the quantity (see computeItemAmountCents)
  * 4. Normalize to monthly using normalizeToMonthlyCents
- * 5. Apply discounts AFTER normalization
- * 6. All subscriptions must have same currency (throw on mismatch)
+ * 5. Apply discounts AFTER normalization; expired and one-time coupons don't count
+ * 6. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options are given — then everything is converted into the
+ *    reporting currency and per-currency subtotals are returned
  * 7. Return status breakdown for ALL subscriptions (including trialing)
  * 
  * @param subscriptions - Array of subscription data
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp to compute at (default: now)
  * @returns MrrResult with total MRR, formatted amount, and breakdowns
- * @throws Error if mixed currencies detected
+ * @throws Error if mixed currencies detected without currency options
  */
-export function computeMrr(subscriptions: SubscriptionData[]): MrrResult {
+export function computeMrr(
+  subscriptions: SubscriptionData[],
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): MrrResult {
   // Edge case: empty list
   if (subscriptions.length === 0) {
+    const currency = currencyOptions?.reportingCurrency.toLowerCase() ?? 'usd';
     return {
       totalMrrCents: 0,
-      totalMrrFormatted: '$0.00',
-      currency: 'usd',
+      totalMrrFormatted: formatCents(0, currency),
+      currency,
       subscriptionCount: 0,
       statusBreakdown: {
         active: 0,
         trialing: 0,
         pastDue: 0,
       },
-      asOfDate: new Date().toISOString(),
+      asOfDate: new Date(asOf * 1000).toISOString(),
     };
   }
 
-  // Currency validation: ensure all subscriptions have same currency
-  const currencies = new Set(subscriptions.map(sub => sub.currency.toLowerCase()));
-  if (currencies.size > 1) {
-    const currencyList = Array.from(currencies)
-      .map(c => c.toUpperCase())
-      .sort()
-      .join(', ');
-    throw new Error(`Mixed currencies not supported. Found: ${currencyList}`);
-  }
-  const currency = subscriptions[0].currency.toLowerCase();
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(subscriptions, currencyOptions);
 
   // Status breakdown: count ALL subscriptions by status
   const statusBreakdown = {
@@ -61,93 +69,121 @@ export function computeMrr(subscriptions: SubscriptionData[]): MrrResult {
   };
 
   // Filter subscriptions that contribute to MRR
-  const mrrSubscriptions = subscriptions.filter(sub =>
+  const mrrSubscriptions = converted.filter(sub =>
     sub.status === 'active' || sub.status === 'past_due'
   );
 
   // Compute MRR for each subscription
-  const totalMrrCents = mrrSubscriptions.reduce((total, subscription) => {
-    // Skip subscriptions with no items
-    if (subscription.items.length === 0) {
-      return total;
-    }
-
-    // Normalize each item to monthly, then sum
-    // This is correct because items can have different intervals
-    let monthlyAmount = subscription.items.reduce((itemTotal, item) => {
-      const itemAmount = item.unitAmountCents * item.quantity;
-      const monthlyItemAmount = normalizeToMonthlyCents(
-        itemAmount,
-        item.interval,
-        item.intervalCount
-      );
-      return itemTotal + monthlyItemAmount;
-    }, 0);
-
-    // Apply discount AFTER normalization
-    if (subscription.discount) {
-      if (subscription.discount.percentOff !== null) {
-        // Percentage discount: multiply by (1 - percentOff/100)
-        monthlyAmount = monthlyAmount * (1 - subscription.discount.percentOff / 100);
-      } else if (subscription.discount.amountOff !== null) {
-        // Amount discount: subtract the monthly-normalized amount
-        // Use the first item's interval as a representative normalization
-        // (Stripe coupons are typically per-invoice, applied at subscription level)
-        const referenceInterval = subscription.items[0].interval;
-        const referenceIntervalCount = subscription.items[0].intervalCount;
-        const monthlyDiscount = normalizeToMonthlyCents(
-          subscription.discount.amountOff,
-          referenceInterval,
-          referenceIntervalCount
-        );
-        monthlyAmount = monthlyAmount - monthlyDiscount;
-      }
-    }
-
-    // Clamp negative amounts to 0
-    monthlyAmount = Math.max(0, monthlyAmount);
-
-    return total + monthlyAmount;
-  }, 0);
+  const totalMrrCents = mrrSubscriptions.reduce(
+    (total, subscription) => total + computeSubscriptionMrr(subscription, asOf),
+    0
+  );
 
   // Format as dollar amount
-  const totalMrrFormatted = formatCentsAsDollars(totalMrrCents, currency);
+  const totalMrrFormatted = formatCents(totalMrrCents, currency);
 
-  return {
+  const result: MrrResult = {
     totalMrrCents: Math.round(totalMrrCents),
     totalMrrFormatted,
     currency,
     subscriptionCount: mrrSubscriptions.length,
     statusBreakdown,
-    asOfDate: new Date().toISOString(),
+    asOfDate: new Date(asOf * 1000).toISOString(),
   };
+
+  // Keep the original-currency subtotals visible when converting
+  if (currencyOptions) {
+    result.currencyBreakdown = computeCurrencySubtotals(
+      subscriptions.filter(sub => sub.status === 'active' || sub.status === 'past_due'),
+      sub => computeSubscriptionMrr(sub, asOf),
+      currencyOptions
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Compute the monthly-normalized MRR of a single subscription, in cents.
+ * Applies the same item normalization and discount rules as computeMrr,
+ * but ignores status — callers decide which subscriptions count.
+ *
+ * Rules:
+ * 1. Item discounts apply to their item's monthly amount, subscription
+ *    discounts to the sum of all items, each in the order Stripe lists them
+ * 2. Only discounts still active at `at` count (see isDiscountActive)
+ * 3. Item and subscription amounts are clamped to >= 0
+ *
+ * @param subscription - Subscription to value
+ * @param at - Unix timestamp to value discounts at (default: now)
+ * @returns Unrounded monthly amount in cents, clamped to >= 0
+ */
+export function computeSubscriptionMrr(
+  subscription: SubscriptionData,
+  at: number = Math.floor(Date.now() / 1000)
+): number {
+  // Skip subscriptions with no items
+  if (subscription.items.length === 0) {
+    return 0;
+  }
+
+  // Normalize each item to monthly, then sum
+  // This is correct because items can have different intervals
+  const itemsAmount = subscription.items.reduce((itemTotal, item) => {
+    const monthlyItemAmount = normalizeToMonthlyCents(
+      computeItemAmountCents(item),
+      item.interval,
+      item.intervalCount
+    );
+    return itemTotal + Math.max(0, applyDiscounts(monthlyItemAmount, item.discounts ?? [], item, at));
+  }, 0);
+
+  // Apply subscription discounts AFTER normalization.
+  // Amount-off coupons are per invoice; the first item's interval is used as
+  // the representative normalization
+  const monthlyAmount = applyDiscounts(itemsAmount, subscription.discounts, subscription.items[0], at);
+
+  // Clamp negative amounts to 0
+  return Math.max(0, monthlyAmount);
 }
 
 /**
- * Format cents as dollar string.
- * @param cents - Amount in cents
- * @param currency - Currency code
- * @returns Formatted string like "$123.45"
+ * Whether a discount still lowers recurring revenue at a point in time.
+ * One-time coupons only discount the first invoice, so they never count;
+ * repeating coupons count until their end.
+ *
+ * @param discount - Discount to check
+ * @param at - Unix timestamp
+ * @returns True if the discount applies to invoices at `at`
  */
-function formatCentsAsDollars(cents: number, currency: string): string {
-  const dollars = cents / 100;
-  const symbol = currency.toLowerCase() === 'usd' ? '$' : getCurrencySymbol(currency);
-  return `${symbol}${dollars.toFixed(2)}`;
+export function isDiscountActive(discount: DiscountData, at: number): boolean {
+  if (discount.duration === 'once') {
+    return false;
+  }
+  return discount.end === null || discount.end > at;
 }
 
 /**
- * Get currency symbol for common currencies.
- * @param currency - Currency code
- * @returns Currency symbol
+ * Apply active discounts, in order, to a monthly amount.
  */
-function getCurrencySymbol(currency: string): string {
-  const symbols: Record<string, string> = {
-    usd: '$',
-    eur: '€',
-    gbp: '£',
-    jpy: '¥',
-    cad: 'CA$',
-    aud: 'A$',
-  };
-  return symbols[currency.toLowerCase()] || currency.toUpperCase() + ' ';
+function applyDiscounts(
+  monthlyAmount: number,
+  discounts: DiscountData[],
+  reference: SubscriptionItemData,
+  at: number
+): number {
+  let amount = monthlyAmount;
+  for (const discount of discounts) {
+    if (!isDiscountActive(discount, at)) {
+      continue;
+    }
+    if (discount.percentOff !== null) {
+      // Percentage discount: multiply by (1 - percentOff/100)
+      amount = amount * (1 - discount.percentOff / 100);
+    } else if (discount.amountOff !== null) {
+      // Amount discount: subtract the monthly-normalized amount
+      amount = amount - normalizeToMonthlyCents(discount.amountOff, reference.interval, reference.intervalCount);
+    }
+  }
+  return amount;
 }
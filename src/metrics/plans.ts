@@ -7,8 +7,12 @@ import type {
   SubscriptionData,
   RevenueByPlanResult,
   PlanBreakdown,
+  CurrencyOptions,
+  SubscriptionItemData,
 } from '../types.js';
-import { normalizeToMonthlyCents } from '../types.js';
+import { computeSubscriptionMrr } from './mrr.js';
+import { toReportingCurrency, computeCurrencySubtotals } from '../utils/fx.js';
+import { formatCents } from '../utils/money.js';
 
 /**
  * Compute revenue breakdown by plan.
@@ -19,12 +23,21 @@ import { normalizeToMonthlyCents } from '../types.js';
  * 3. Sort by MRR descending
  * 4. Compute percentOfTotal for each plan
  * 5. Only include active/past_due subscriptions
+ * 6. With currency options, MRR is converted into the reporting currency;
+ *    the same plan in two currencies is listed twice, each priced in its
+ *    own currency
  * 
  * @param subscriptions - All subscriptions to analyze
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp to compute at (default: now)
  * @returns RevenueByPlanResult with plan breakdowns
- * @throws Error if mixed currencies detected
+ * @throws Error if mixed currencies detected without currency options
  */
-export function computeRevenueByPlan(subscriptions: SubscriptionData[]): RevenueByPlanResult {
+export function computeRevenueByPlan(
+  subscriptions: SubscriptionData[],
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): RevenueByPlanResult {
   // Filter to only active/past_due subscriptions
   const activeSubscriptions = subscriptions.filter(sub =>
     sub.status === 'active' || sub.status === 'past_due'
@@ -32,24 +45,17 @@ export function computeRevenueByPlan(subscriptions: SubscriptionData[]): Revenue
   
   // Edge case: empty list
   if (activeSubscriptions.length === 0) {
+    const currency = currencyOptions?.reportingCurrency.toLowerCase() ?? 'usd';
     return {
       plans: [],
       totalMrrCents: 0,
-      totalMrrFormatted: '$0.00',
-      currency: 'usd',
+      totalMrrFormatted: formatCents(0, currency),
+      currency,
     };
   }
   
-  // Currency validation
-  const currencies = new Set(activeSubscriptions.map(sub => sub.currency.toLowerCase()));
-  if (currencies.size > 1) {
-    const currencyList = Array.from(currencies)
-      .map(c => c.toUpperCase())
-      .sort()
-      .join(', ');
-    throw new Error(`Mixed currencies not supported. Found: ${currencyList}`);
-  }
-  const currency = activeSubscriptions[0].currency.toLowerCase();
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(activeSubscriptions, currencyOptions);
   
   // Group subscriptions by plan
   const planMap = new Map<string, {
@@ -61,7 +67,10 @@ export function computeRevenueByPlan(subscriptions: SubscriptionData[]): Revenue
     mrrCents: number;
   }>();
   
-  for (const sub of activeSubscriptions) {
+  for (let i = 0; i < converted.length; i++) {
+    const sub = converted[i];
+    const original = activeSubscriptions[i];
+    
     // Skip subscriptions with no items
     if (sub.items.length === 0) {
       continue;
@@ -69,36 +78,12 @@ export function computeRevenueByPlan(subscriptions: SubscriptionData[]): Revenue
     
     // Use first item for plan identification
     const firstItem = sub.items[0];
-    const planKey = firstItem.planName;
-    
-    // Compute MRR for this subscription
-    let subscriptionMrr = 0;
-    for (const item of sub.items) {
-      const itemAmount = item.unitAmountCents * item.quantity;
-      const monthlyAmount = normalizeToMonthlyCents(
-        itemAmount,
-        item.interval,
-        item.intervalCount
-      );
-      subscriptionMrr += monthlyAmount;
-    }
+    const planKey = currencyOptions
+      ? `${firstItem.planName}\u0000${original.currency.toLowerCase()}`
+      : firstItem.planName;
     
-    // Apply discount
-    if (sub.discount) {
-      if (sub.discount.percentOff !== null) {
-        subscriptionMrr = subscriptionMrr * (1 - sub.discount.percentOff / 100);
-      } else if (sub.discount.amountOff !== null) {
-        const monthlyDiscount = normalizeToMonthlyCents(
-          sub.discount.amountOff,
-          firstItem.interval,
-          firstItem.intervalCount
-        );
-        subscriptionMrr = subscriptionMrr - monthlyDiscount;
-      }
-    }
-    
-    // Clamp to 0
-    subscriptionMrr = Math.max(0, subscriptionMrr);
+    // Compute MRR for this subscription (items, discounts, clamped to 0)
+    const subscriptionMrr = computeSubscriptionMrr(sub, asOf);
     
     // Add to plan map
     if (planMap.has(planKey)) {
@@ -114,7 +99,7 @@ export function computeRevenueByPlan(subscriptions: SubscriptionData[]): Revenue
       planMap.set(planKey, {
         planName: firstItem.planName,
         productName: firstItem.productName,
-        priceFormatted: formatCentsAsDollars(firstItem.unitAmountCents, currency),
+        priceFormatted: describePrice(original.items[0], original.currency),
         interval: intervalStr,
         activeSubscribers: 1,
         mrrCents: subscriptionMrr,
@@ -132,41 +117,39 @@ export function computeRevenueByPlan(subscriptions: SubscriptionData[]): Revenue
   const plans: PlanBreakdown[] = Array.from(planMap.values()).map(plan => ({
     ...plan,
     mrrCents: Math.round(plan.mrrCents),
-    mrrFormatted: formatCentsAsDollars(plan.mrrCents, currency),
+    mrrFormatted: formatCents(plan.mrrCents, currency),
     percentOfTotal: totalMrrCents === 0 ? 0 : (plan.mrrCents / totalMrrCents) * 100,
   }));
   
   // Sort by MRR descending
   plans.sort((a, b) => b.mrrCents - a.mrrCents);
   
-  return {
+  const result: RevenueByPlanResult = {
     plans,
     totalMrrCents: Math.round(totalMrrCents),
-    totalMrrFormatted: formatCentsAsDollars(totalMrrCents, currency),
+    totalMrrFormatted: formatCents(totalMrrCents, currency),
     currency,
   };
+  
+  // Keep the original-currency subtotals visible when converting
+  if (currencyOptions) {
+    result.currencyBreakdown = computeCurrencySubtotals(
+      activeSubscriptions,
+      sub => computeSubscriptionMrr(sub, asOf),
+      currencyOptions
+    );
+  }
+  
+  return result;
 }
 
 /**
- * Format cents as dollar string.
- */
-function formatCentsAsDollars(cents: number, currency: string): string {
-  const dollars = cents / 100;
-  const symbol = currency.toLowerCase() === 'usd' ? '$' : getCurrencySymbol(currency);
-  return `${symbol}${dollars.toFixed(2)}`;
-}
-
-/**
- * Get currency symbol for common currencies.
+ * Price column for a plan: the unit price, or the pricing model when there isn't one.
  */
-function getCurrencySymbol(currency: string): string {
-  const symbols: Record<string, string> = {
-    usd: '$',
-    eur: '€',
-    gbp: '£',
-    jpy: '¥',
-    cad: 'CA$',
-    aud: 'A$',
-  };
-  return symbols[currency.toLowerCase()] || currency.toUpperCase() + ' ';
+function describePrice(item: SubscriptionItemData, currency: string): string {
+  if (item.billingScheme === 'tiered') {
+    return item.tiersMode === 'volume' ? 'Volume tiers' : 'Graduated tiers';
+  }
+  const price = formatCents(item.unitAmountCents, currency);
+  return item.usageType === 'metered' ? `${price} per unit (metered)` : price;
 }
@@ -0,0 +1,115 @@
+/**
+ * Tests for computeRevenueRetention.
+ * Covers: starting base selection, expansion/contraction/churn per customer,
+ * NRR vs GRR, zero starting MRR, window start at month end.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { computeRevenueRetention } from './retention.js';
+import type { SubscriptionData, NormalizedEvent } from '../types.js';
+import { createSubscription as createTestSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+// Created before the trailing window by default
+const createSubscription = (overrides: Partial<SubscriptionData> & { id: string }, unitAmountCents: number = 1000) =>
+  createTestSubscription({ createdAt: now - 500 * DAY, ...overrides }, unitAmountCents);
+
+function createUpdateEvent(subscriptionId: string, previousAmountCents: number, amountCents: number): NormalizedEvent {
+  return {
+    id: `evt_${subscriptionId}`,
+    type: 'customer.subscription.updated',
+    created: now - 10 * DAY,
+    customerId: null,
+    customerEmail: null,
+    subscriptionId,
+    planName: null,
+    amountCents,
+    previousPlanName: null,
+    previousAmountCents,
+    currency: 'usd',
+  };
+}
+
+describe('computeRevenueRetention', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts the window on the last day of a shorter month', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-31T12:00:00Z'));
+    expect(computeRevenueRetention([], [], 1)).toMatchObject({ startDate: '2026-02-28', endDate: '2026-03-31' });
+
+    vi.setSystemTime(new Date('2024-05-31T12:00:00Z'));
+    expect(computeRevenueRetention([], [], 3).startDate).toBe('2024-02-29');
+
+    vi.setSystemTime(new Date('2026-03-15T12:00:00Z'));
+    expect(computeRevenueRetention([], [], 12).startDate).toBe('2025-03-15');
+  });
+
+  it('returns 0% for an empty list', () => {
+    const result = computeRevenueRetention([], [], 12);
+    expect(result.startingCustomers).toBe(0);
+    expect(result.netRevenueRetention).toBe(0);
+    expect(result.grossRevenueRetention).toBe(0);
+  });
+
+  it('is 100% when nothing changed', () => {
+    const result = computeRevenueRetention([createSubscription({ id: 'sub_a' })], [], 12);
+    expect(result.startingCustomers).toBe(1);
+    expect(result.netRevenueRetention).toBeCloseTo(100);
+    expect(result.grossRevenueRetention).toBeCloseTo(100);
+  });
+
+  it('excludes customers acquired during the window', () => {
+    const subs = [
+      createSubscription({ id: 'sub_a', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_b', customerId: 'cus_b', createdAt: now - 30 * DAY }, 9000),
+    ];
+    const result = computeRevenueRetention(subs, [], 12);
+    expect(result.startingCustomers).toBe(1);
+    expect(result.startingMrrCents).toBe(1000);
+    expect(result.netRevenueRetention).toBeCloseTo(100);
+  });
+
+  it('splits expansion, contraction and churn per customer', () => {
+    const subs = [
+      // Expanded from $10 to $30
+      createSubscription({ id: 'sub_up', customerId: 'cus_up' }, 3000),
+      // Contracted from $20 to $15
+      createSubscription({ id: 'sub_down', customerId: 'cus_down' }, 1500),
+      // Churned $10
+      createSubscription({ id: 'sub_gone', customerId: 'cus_gone', status: 'canceled', canceledAt: now - 5 * DAY }),
+    ];
+    const events = [
+      createUpdateEvent('sub_up', 1000, 3000),
+      createUpdateEvent('sub_down', 2000, 1500),
+    ];
+    const result = computeRevenueRetention(subs, events, 12);
+
+    expect(result.startingMrrCents).toBe(4000);
+    expect(result.expansionMrrCents).toBe(2000);
+    expect(result.contractionMrrCents).toBe(500);
+    expect(result.churnedMrrCents).toBe(1000);
+    expect(result.endingMrrCents).toBe(4500);
+    expect(result.expandedCustomers).toBe(1);
+    expect(result.contractedCustomers).toBe(1);
+    expect(result.churnedCustomers).toBe(1);
+    expect(result.netRevenueRetention).toBeCloseTo(112.5);
+    expect(result.grossRevenueRetention).toBeCloseTo(62.5);
+  });
+
+  it('nets multiple subscriptions of the same customer', () => {
+    const subs = [
+      createSubscription({ id: 'sub_1', customerId: 'cus_a' }),
+      createSubscription({ id: 'sub_2', customerId: 'cus_a', status: 'canceled', canceledAt: now - 5 * DAY }),
+      createSubscription({ id: 'sub_3', customerId: 'cus_a', createdAt: now - 5 * DAY }),
+    ];
+    const result = computeRevenueRetention(subs, [], 12);
+    expect(result.startingCustomers).toBe(1);
+    expect(result.churnedCustomers).toBe(0);
+    expect(result.netRevenueRetention).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Net and gross revenue retention computation module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  NormalizedEvent,
+  RevenueRetentionResult,
+  CurrencyOptions,
+} from '../types.js';
+import { subscriptionMrrAt, indexAmountChanges } from './history.js';
+import { groupByCustomer } from './customers.js';
+import { formatCents } from '../utils/money.js';
+import { toReportingCurrency } from '../utils/fx.js';
+
+/**
+ * Compute NRR and GRR over a trailing window.
+ *
+ * Rules:
+ * 1. The starting base is every customer with MRR > 0 at the start of the
+ *    window; customers acquired during the window are excluded. The window
+ *    starts on the same day `windowMonths` months back, or that month's last
+ *    day if it is shorter (Mar 31 - 1 month = Feb 28/29)
+ * 2. Each customer's MRR is the sum over their subscriptions, replayed with
+ *    the same lifecycle rules as get_mrr_history (trials and canceled
+ *    subscriptions contribute 0, later plan changes are backed out)
+ * 3. Per customer, end MRR of 0 is churn; otherwise a higher end MRR is
+ *    expansion and a lower one is contraction
+ * 4. NRR = (starting + expansion - contraction - churn) / starting * 100
+ * 5. GRR = (starting - contraction - churn) / starting * 100 (never above 100)
+ * 6. Handle edge: 0 starting MRR = 0% NRR and GRR
+ * 7. All subscriptions must have same currency (throw on mismatch), unless
+ *    currency options convert them into a reporting currency
+ *
+ * @param subscriptions - Active AND canceled subscriptions
+ * @param events - Normalized events (subscription updates are used to replay plan changes)
+ * @param windowMonths - Length of the trailing window in months
+ * @param currencyOptions - Optional reporting currency and FX rates
+ * @param asOf - Unix timestamp the window ends at (default: now)
+ * @returns RevenueRetentionResult with NRR, GRR and the movement behind them
+ * @throws Error if mixed currencies detected without currency options
+ */
+export function computeRevenueRetention(
+  subscriptions: SubscriptionData[],
+  events: NormalizedEvent[],
+  windowMonths: number,
+  currencyOptions?: CurrencyOptions,
+  asOf: number = Math.floor(Date.now() / 1000)
+): RevenueRetentionResult {
+  const normalizedWindow = windowMonths <= 0 ? 1 : Math.floor(windowMonths);
+  const now = new Date(asOf * 1000);
+  const startMonth = now.getUTCMonth() - normalizedWindow;
+  const lastDayOfStartMonth = new Date(Date.UTC(now.getUTCFullYear(), startMonth + 1, 0)).getUTCDate();
+  const startSeconds = Math.floor(Date.UTC(
+    now.getUTCFullYear(),
+    startMonth,
+    Math.min(now.getUTCDate(), lastDayOfStartMonth),
+    now.getUTCHours(),
+    now.getUTCMinutes(),
+    now.getUTCSeconds()
+  ) / 1000);
+
+  // Currency validation / conversion into a single currency
+  const { currency, subscriptions: converted } = toReportingCurrency(subscriptions, currencyOptions);
+
+  const updatesBySubscription = indexAmountChanges(events, currencyOptions);
+
+  // Sum start and end MRR per customer
+  const byCustomer = groupByCustomer(converted.filter(sub =>
+    sub.status !== 'incomplete' && sub.status !== 'incomplete_expired'
+  ));
+  const customerMrr: Array<{ start: number; end: number }> = [];
+  for (const subs of byCustomer.values()) {
+    let start = 0;
+    let end = 0;
+    for (const sub of subs) {
+      const updates = updatesBySubscription.get(sub.id) || [];
+      start += subscriptionMrrAt(sub, updates, startSeconds) ?? 0;
+      end += subscriptionMrrAt(sub, updates, asOf) ?? 0;
+    }
+    customerMrr.push({ start, end });
+  }
+
+  let startingCustomers = 0;
+  let startingMrr = 0;
+  let endingMrr = 0;
+  let expansionMrr = 0;
+  let contractionMrr = 0;
+  let churnedMrr = 0;
+  let expandedCustomers = 0;
+  let contractedCustomers = 0;
+  let churnedCustomers = 0;
+
+  for (const { start, end } of customerMrr) {
+    // Only customers paying at the start of the window form the base
+    if (start <= 0) continue;
+
+    startingCustomers++;
+    startingMrr += start;
+    endingMrr += end;
+
+    if (end <= 0) {
+      churnedMrr += start;
+      churnedCustomers++;
+    } else if (end > start) {
+      expansionMrr += end - start;
+      expandedCustomers++;
+    } else if (end < start) {
+      contractionMrr += start - end;
+      contractedCustomers++;
+    }
+  }
+
+  const netRevenueRetention = startingMrr === 0
+    ? 0
+    : ((startingMrr + expansionMrr - contractionMrr - churnedMrr) / startingMrr) * 100;
+  const grossRevenueRetention = startingMrr === 0
+    ? 0
+    : ((startingMrr - contractionMrr - churnedMrr) / startingMrr) * 100;
+
+  return {
+    windowMonths: normalizedWindow,
+    startDate: new Date(startSeconds * 1000).toISOString().split('T')[0],
+    endDate: new Date(asOf * 1000).toISOString().split('T')[0],
+    startingCustomers,
+    startingMrrCents: Math.round(startingMrr),
+    startingMrrFormatted: formatCents(startingMrr, currency),
+    endingMrrCents: Math.round(endingMrr),
+    endingMrrFormatted: formatCents(endingMrr, currency),
+    expansionMrrCents: Math.round(expansionMrr),
+    contractionMrrCents: Math.round(contractionMrr),
+    churnedMrrCents: Math.round(churnedMrr),
+    expandedCustomers,
+    contractedCustomers,
+    churnedCustomers,
+    netRevenueRetention,
+    grossRevenueRetention,
+    currency,
+  };
+}
@@ -5,38 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { computeSubscriberStats } from './subscribers.js';
-import type { SubscriptionData } from '../types.js';
-
-// Helper to create test subscription data
-function createSubscription(
-  overrides: Partial<SubscriptionData> & { id: string }
-): SubscriptionData {
-  const nowSeconds = Math.floor(Date.now() / 1000);
-  return {
-    id: overrides.id,
-    customerId: overrides.customerId || 'cus_test',
-    customerEmail: overrides.customerEmail || 'test@example.com',
-    status: overrides.status || 'active',
-    currentPeriodEnd: overrides.currentPeriodEnd || nowSeconds + 2592000,
-    canceledAt: overrides.canceledAt !== undefined ? overrides.canceledAt : null,
-    cancelAt: overrides.cancelAt !== undefined ? overrides.cancelAt : null,
-    createdAt: overrides.createdAt || nowSeconds - 7776000, // 90 days ago
-    trialEnd: overrides.trialEnd !== undefined ? overrides.trialEnd : null,
-    discount: overrides.discount !== undefined ? overrides.discount : null,
-    currency: overrides.currency || 'usd',
-    items: overrides.items || [
-      {
-        priceId: 'price_test',
-        productName: 'Test Product',
-        planName: 'Test Plan',
-        quantity: 1,
-        unitAmountCents: 1000,
-        interval: 'month',
-        intervalCount: 1,
-      },
-    ],
-  };
-}
+import { createSubscription } from '../test/helpers/subscription.js';
 
 describe('computeSubscriberStats', () => {
   describe('EDGE CASE: Empty list', () => {
@@ -22,18 +22,19 @@ import type { SubscriptionData, SubscriberStats } from '../types.js';
  * 
  * @param allSubscriptions - All subscriptions to analyze
  * @param periodDays - Number of days to look back for new/churned calculations
+ * @param asOf - Unix timestamp the period ends at (default: now)
  * @returns Computed subscriber statistics
  */
 export function computeSubscriberStats(
   allSubscriptions: SubscriptionData[],
-  periodDays: number
+  periodDays: number,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): SubscriberStats {
   // Normalize periodDays: treat 0 as 1
   const normalizedPeriodDays = periodDays <= 0 ? 1 : periodDays;
   
   // Calculate the period cutoff timestamp (in seconds, matching Stripe's unix timestamps)
-  const nowSeconds = Math.floor(Date.now() / 1000);
-  const periodCutoffSeconds = nowSeconds - (normalizedPeriodDays * 24 * 60 * 60);
+  const periodCutoffSeconds = asOf - (normalizedPeriodDays * 24 * 60 * 60);
   
   // Initialize counters
   let totalActive = 0;
@@ -0,0 +1,94 @@
+/**
+ * Tests for trial conversion.
+ * Covers: outcomes (converted, canceled, past due), the period window,
+ * trials canceled early, breakdown by plan and by trial length.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeTrialConversion, trialOutcome } from './trials.js';
+import type { SubscriptionData } from '../types.js';
+import { createSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+// A 14-day trial that ended 10 days ago
+const TRIAL = { createdAt: now - 24 * DAY, trialStart: now - 24 * DAY, trialEnd: now - 10 * DAY };
+
+function onPlan(planName: string): Pick<SubscriptionData, 'items'> {
+  return { items: [{ ...createSubscription({ id: 'sub_plan' }).items[0], planName }] };
+}
+
+describe('trialOutcome', () => {
+  it('tells converted, canceled and past due trials apart', () => {
+    expect(trialOutcome(createSubscription({ id: 'sub_active', ...TRIAL }))).toBe('converted');
+    expect(trialOutcome(createSubscription({ id: 'sub_past_due', ...TRIAL, status: 'past_due' }))).toBe('past_due');
+    expect(trialOutcome(createSubscription({ id: 'sub_paused', ...TRIAL, status: 'paused' }))).toBe('canceled');
+    expect(trialOutcome(createSubscription({ id: 'sub_early', ...TRIAL, status: 'canceled', canceledAt: now - 12 * DAY }))).toBe('canceled');
+  });
+
+  it('judges subscriptions canceled after the trial by why they were canceled', () => {
+    const canceledLater = { status: 'canceled' as const, canceledAt: now - 2 * DAY };
+    expect(trialOutcome(createSubscription({
+      id: 'sub_paid_then_left',
+      ...TRIAL,
+      ...canceledLater,
+      cancellationDetails: { reason: 'cancellation_requested', feedback: null, comment: null },
+    }))).toBe('converted');
+    expect(trialOutcome(createSubscription({
+      id: 'sub_never_paid',
+      ...TRIAL,
+      ...canceledLater,
+      cancellationDetails: { reason: 'payment_failed', feedback: null, comment: null },
+    }))).toBe('past_due');
+  });
+});
+
+describe('computeTrialConversion', () => {
+  it('counts outcomes for trials that ended in the period', () => {
+    const result = computeTrialConversion([
+      createSubscription({ id: 'sub_1', ...TRIAL }),
+      createSubscription({ id: 'sub_2', ...TRIAL }),
+      createSubscription({ id: 'sub_3', ...TRIAL, status: 'canceled', canceledAt: now - 11 * DAY }),
+      createSubscription({ id: 'sub_4', ...TRIAL, status: 'past_due' }),
+      createSubscription({ id: 'sub_old', ...TRIAL, trialEnd: now - 60 * DAY }),
+      createSubscription({ id: 'sub_trialing', ...TRIAL, status: 'trialing', trialEnd: now + 3 * DAY }),
+      createSubscription({ id: 'sub_no_trial', ...TRIAL, trialStart: null, trialEnd: null }),
+    ], 30);
+
+    expect(result).toMatchObject({ trials: 4, converted: 2, canceled: 1, pastDue: 1, conversionRate: 50 });
+  });
+
+  it('dates a trial canceled early by its cancellation', () => {
+    const result = computeTrialConversion([
+      createSubscription({ id: 'sub_1', ...TRIAL, status: 'canceled', trialEnd: now + 5 * DAY, canceledAt: now - 2 * DAY }),
+    ], 30);
+
+    expect(result).toMatchObject({ trials: 1, canceled: 1, conversionRate: 0 });
+  });
+
+  it('breaks conversion down by plan and trial length', () => {
+    const fourteenDays = { trialStart: now - 24 * DAY };
+    const thirtyDays = { trialStart: now - 40 * DAY, createdAt: now - 40 * DAY };
+    const result = computeTrialConversion([
+      createSubscription({ id: 'sub_1', ...TRIAL, ...fourteenDays, ...onPlan('Pro') }),
+      createSubscription({ id: 'sub_2', ...TRIAL, ...fourteenDays, status: 'paused', ...onPlan('Pro') }),
+      createSubscription({ id: 'sub_3', ...TRIAL, ...thirtyDays, ...onPlan('Pro') }),
+      createSubscription({ id: 'sub_4', ...TRIAL, ...thirtyDays, ...onPlan('Basic') }),
+    ], 30);
+
+    expect(result.byPlan.map(p => [p.planName, p.trials, p.converted])).toEqual([
+      ['Pro', 3, 2],
+      ['Basic', 1, 1],
+    ]);
+    expect(result.byTrialLength.map(l => [l.trialDays, l.trials, l.conversionRate])).toEqual([
+      [14, 2, 50],
+      [30, 2, 100],
+    ]);
+  });
+
+  it('reports 0% with no ended trials', () => {
+    const result = computeTrialConversion([], 30);
+    expect(result).toMatchObject({ trials: 0, conversionRate: 0, byPlan: [], byTrialLength: [] });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Trial conversion module.
+ * Pure function - no API calls, only computation.
+ */
+
+import type {
+  SubscriptionData,
+  TrialOutcome,
+  TrialConversionCounts,
+  TrialConversionResult,
+} from '../types.js';
+import { classifyChurn } from './churn.js';
+
+/**
+ * What became of a subscription once its trial ended.
+ * Trials that ended without a payment method (paused, incomplete_expired) count
+ * as canceled; a first payment that failed, or a cancellation over one, counts
+ * as past_due.
+ */
+export function trialOutcome(sub: SubscriptionData): TrialOutcome {
+  if (sub.status === 'past_due' || sub.status === 'unpaid') {
+    return 'past_due';
+  }
+  if (sub.status === 'paused' || sub.status === 'incomplete_expired') {
+    return 'canceled';
+  }
+  if (sub.status === 'canceled') {
+    if (sub.canceledAt === null || sub.trialEnd === null || sub.canceledAt <= sub.trialEnd) {
+      return 'canceled';
+    }
+    return classifyChurn(sub.cancellationDetails) === 'involuntary' ? 'past_due' : 'converted';
+  }
+  return 'converted';
+}
+
+/**
+ * Measure how trials that ended in a period turned out.
+ *
+ * Rules:
+ * 1. A trial ends at its trial end date, or when the subscription was
+ *    canceled if that came first; only trials ending in the last `periodDays`
+ *    days count
+ * 2. Subscriptions still trialing are skipped (their trial was extended)
+ * 3. Outcomes follow trialOutcome; a subscription canceled after it paid
+ *    still counts as converted
+ * 4. conversionRate = converted / trials * 100; 0 trials = 0%
+ * 5. Trial length is whole days from trial start (or creation, if the start
+ *    isn't known) to the scheduled trial end
+ * 6. By plan: grouped by the first item's planName, most trials first;
+ *    by trial length: shortest first
+ *
+ * @param subscriptions - Subscriptions of every status, canceled included
+ * @param periodDays - Number of days to look back
+ * @param asOf - Unix timestamp the period ends at (default: now)
+ * @returns TrialConversionResult with outcome counts, by plan and trial length
+ */
+export function computeTrialConversion(
+  subscriptions: SubscriptionData[],
+  periodDays: number,
+  asOf: number = Math.floor(Date.now() / 1000)
+): TrialConversionResult {
+  const normalizedPeriodDays = periodDays <= 0 ? 1 : periodDays;
+  const periodStart = asOf - normalizedPeriodDays * 86400;
+
+  const ended = subscriptions.filter(sub => {
+    if (sub.trialEnd === null || sub.status === 'trialing') return false;
+    const endedAt = sub.canceledAt !== null ? Math.min(sub.trialEnd, sub.canceledAt) : sub.trialEnd;
+    return endedAt >= periodStart && endedAt <= asOf;
+  });
+
+  const byPlan = new Map<string, SubscriptionData[]>();
+  const byTrialLength = new Map<number, SubscriptionData[]>();
+  for (const sub of ended) {
+    const planName = sub.items[0]?.planName || 'Unknown';
+    byPlan.set(planName, [...(byPlan.get(planName) ?? []), sub]);
+
+    const trialDays = Math.round((sub.trialEnd! - (sub.trialStart ?? sub.createdAt)) / 86400);
+    byTrialLength.set(trialDays, [...(byTrialLength.get(trialDays) ?? []), sub]);
+  }
+
+  return {
+    periodDays: normalizedPeriodDays,
+    startDate: new Date(periodStart * 1000).toISOString().split('T')[0],
+    endDate: new Date(asOf * 1000).toISOString().split('T')[0],
+    ...countOutcomes(ended),
+    byPlan: [...byPlan.entries()]
+      .map(([planName, subs]) => ({ planName, ...countOutcomes(subs) }))
+      .sort((a, b) => b.trials - a.trials || a.planName.localeCompare(b.planName)),
+    byTrialLength: [...byTrialLength.entries()]
+      .map(([trialDays, subs]) => ({ trialDays, ...countOutcomes(subs) }))
+      .sort((a, b) => a.trialDays - b.trialDays),
+  };
+}
+
+/**
+ * Count outcomes for a group of ended trials.
+ */
+function countOutcomes(subs: SubscriptionData[]): TrialConversionCounts {
+  const outcomes = subs.map(trialOutcome);
+  const converted = outcomes.filter(outcome => outcome === 'converted').length;
+  return {
+    trials: subs.length,
+    converted,
+    canceled: outcomes.filter(outcome => outcome === 'canceled').length,
+    pastDue: outcomes.filter(outcome => outcome === 'past_due').length,
+    conversionRate: subs.length === 0 ? 0 : (converted / subs.length) * 100,
+  };
+}
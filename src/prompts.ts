@@ -0,0 +1,126 @@
+/**
+ * MCP prompts for stripe-analytics-mcp.
+ * Templates for the reports teams write every week. Each prompt embeds the
+ * current output of the tools it needs, so everyone starts from the same
+ * numbers and the same structure.
+ */
+
+import { z } from 'zod';
+import type { Prompt, PromptDefinition } from './types.js';
+
+/**
+ * Period argument in days; clients send prompt arguments as strings.
+ */
+function period(description: string, defaultValue: number, max: number) {
+  return z.coerce.number().int().min(1).max(max).optional().default(defaultValue)
+    .describe(`${description} (default: ${defaultValue}, min: 1, max: ${max})`);
+}
+
+/**
+ * Who the report is written for.
+ */
+function audience(defaultValue: string) {
+  return z.string().optional().default(defaultValue)
+    .describe(`Who the report is for, e.g. investors, the board, the leadership team (default: ${defaultValue})`);
+}
+
+/**
+ * Turn a prompt declaration into a prompt the server can list and render.
+ * Arguments are parsed with the input schema; unknown ones (like `account`)
+ * are dropped before the prompt sees them.
+ */
+export function definePrompt<Input extends z.ZodObject>(definition: PromptDefinition<Input>): Prompt {
+  return {
+    name: definition.name,
+    description: definition.description,
+    input: definition.input,
+    render(args) {
+      const parsed = definition.input.parse(args ?? {});
+      return {
+        instructions: definition.instructions(parsed),
+        tools: definition.tools(parsed),
+      };
+    },
+  };
+}
+
+/**
+ * The built-in prompts, in the order they are listed.
+ */
+export const PROMPTS: Prompt[] = [
+  definePrompt({
+    name: 'weekly_investor_update',
+    description: 'Draft the weekly investor update from current MRR, MRR movement, churn and risks.',
+    input: z.object({
+      period_days: period('Number of days the update covers', 7, 365),
+      audience: audience('investors'),
+    }),
+    tools: ({ period_days }) => [
+      { name: 'get_dashboard', arguments: {} },
+      { name: 'get_mrr_movement', arguments: { period_days } },
+      { name: 'get_churn', arguments: { period_days } },
+    ],
+    instructions: ({ period_days, audience }) => [
+      `Write an update for ${audience} covering the last ${period_days} days, using the Stripe metrics below.`,
+      '',
+      'Structure:',
+      '1. Headline: current MRR and how it changed',
+      '2. What moved MRR: new, expansion, contraction and churned MRR, and the quick ratio',
+      '3. Churn: customer and revenue churn rate, voluntary vs involuntary',
+      '4. Risks: failed payments and MRR at risk from scheduled cancellations',
+      '5. Outlook in one or two sentences',
+      '',
+      'Keep it under 300 words. Quote amounts exactly as they appear below and do not invent figures that are not in the data.',
+    ].join('\n'),
+  }),
+
+  definePrompt({
+    name: 'churn_post_mortem',
+    description: 'Write a churn post-mortem: who left, why, what was lost, and what to do about it.',
+    input: z.object({
+      period_days: period('Number of days to look back', 30, 365),
+      audience: audience('the leadership team'),
+    }),
+    tools: ({ period_days }) => [
+      { name: 'get_churn', arguments: { period_days } },
+      { name: 'get_recent_changes', arguments: { days: period_days } },
+      { name: 'get_pending_cancellations', arguments: {} },
+    ],
+    instructions: ({ period_days, audience }) => [
+      `Write a churn post-mortem for ${audience} covering the last ${period_days} days, using the Stripe metrics below.`,
+      '',
+      'Structure:',
+      '1. What was lost: churned customers and MRR, customer and revenue churn rate',
+      '2. Voluntary vs involuntary: customers who chose to leave vs failed payments',
+      '3. Why: group cancellation reasons and customer feedback into themes',
+      '4. Largest losses from the recent cancellations and downgrades',
+      '5. Still at risk: scheduled cancellations and the MRR they take',
+      '6. Three concrete actions, each tied to a finding above',
+      '',
+      'Quote amounts exactly as they appear below and do not invent figures that are not in the data.',
+    ].join('\n'),
+  }),
+
+  definePrompt({
+    name: 'failed_payment_outreach',
+    description: 'Plan outreach to customers with failed payments, prioritized by revenue at risk.',
+    input: z.object({
+      period_days: period('Number of days of failed payments to include', 30, 90),
+      audience: audience('the customer success team'),
+    }),
+    tools: ({ period_days }) => [
+      { name: 'get_failed_payments', arguments: { days: period_days } },
+    ],
+    instructions: ({ period_days, audience }) => [
+      `Write an outreach plan for ${audience} for the payments that failed in the last ${period_days} days, using the Stripe data below.`,
+      '',
+      'Structure:',
+      '1. Summary: how many payments failed and the total amount at risk',
+      '2. Priority list: customers ordered by amount and failed attempts, with who contacts them and how',
+      '3. Email templates: one for a first failure, one final notice before the subscription is canceled',
+      '4. Follow-up: when to check again and when to escalate',
+      '',
+      'Do not promise discounts or refunds. Use only the customers and amounts that appear below.',
+    ].join('\n'),
+  }),
+];
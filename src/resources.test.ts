@@ -0,0 +1,68 @@
+/**
+ * Tests for resource change notifications.
+ * Covers: notifying only on changed content (not a new asOfDate), failed
+ * reads, unsubscribing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createResourceWatcher } from './resources.js';
+
+function createResource(initial: string) {
+  const resource = { content: initial, fail: false, reads: 0 };
+  const read = async (): Promise<string> => {
+    resource.reads += 1;
+    if (resource.fail) {
+      throw new Error('Stripe is down');
+    }
+    return resource.content;
+  };
+  return { resource, read };
+}
+
+describe('createResourceWatcher', () => {
+  it('notifies when a subscribed resource changes, once per change', async () => {
+    const { resource, read } = createResource('{"totalMrrCents":100,"asOfDate":"2026-10-18T09:00:00.000Z"}');
+    const updated: string[] = [];
+    const watcher = createResourceWatcher(read, async uri => {
+      updated.push(uri);
+    });
+
+    await watcher.subscribe('stripe-analytics://mrr');
+    resource.content = '{"totalMrrCents":100,"asOfDate":"2026-10-18T09:01:00.000Z"}';
+    await watcher.check();
+    expect(updated).toEqual([]);
+
+    resource.content = '{"totalMrrCents":200,"asOfDate":"2026-10-18T09:02:00.000Z"}';
+    await watcher.check();
+    await watcher.check();
+    expect(updated).toEqual(['stripe-analytics://mrr']);
+    watcher.close();
+  });
+
+  it('keeps the last content when a read fails', async () => {
+    const { resource, read } = createResource('{"totalMrrCents":100}');
+    const updated: string[] = [];
+    const watcher = createResourceWatcher(read, async uri => {
+      updated.push(uri);
+    });
+
+    await watcher.subscribe('stripe-analytics://mrr');
+    resource.fail = true;
+    await watcher.check();
+    resource.fail = false;
+    await watcher.check();
+    expect(updated).toEqual([]);
+    watcher.close();
+  });
+
+  it('stops reading resources nobody is subscribed to', async () => {
+    const { resource, read } = createResource('{"totalMrrCents":100}');
+    const watcher = createResourceWatcher(read, async () => {});
+
+    await watcher.subscribe('stripe-analytics://mrr');
+    watcher.unsubscribe('stripe-analytics://mrr');
+    await watcher.check();
+    expect(resource.reads).toBe(1);
+    watcher.close();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MCP resources for stripe-analytics-mcp.
+ * Current metrics clients can attach as context without a tool call. Each
+ * resource is a built-in tool's structured result, so it carries exactly the
+ * numbers the tool does; subscribers are told when it changes.
+ */
+
+import type { ResourceDefinition, ResourceWatcher } from './types.js';
+
+export const RESOURCE_URI_PREFIX = 'stripe-analytics://';
+export const DEFAULT_RESOURCE_REFRESH_SECONDS = 60;
+
+/**
+ * The metrics served as resources, in the order they are listed.
+ */
+export const RESOURCES: ResourceDefinition[] = [
+  {
+    uri: `${RESOURCE_URI_PREFIX}mrr`,
+    name: 'mrr',
+    description: 'Current MRR, subscription count and status breakdown (the get_mrr result)',
+    tool: 'get_mrr',
+  },
+  {
+    uri: `${RESOURCE_URI_PREFIX}plans`,
+    name: 'plans',
+    description: 'MRR, subscribers and share of revenue by plan (the get_revenue_by_plan result)',
+    tool: 'get_revenue_by_plan',
+  },
+  {
+    uri: `${RESOURCE_URI_PREFIX}dashboard`,
+    name: 'dashboard',
+    description: 'MRR with week-over-week change, movement, failed payments, expiring trials, MRR at risk and quick ratio (the get_dashboard result)',
+    tool: 'get_dashboard',
+  },
+];
+
+/**
+ * Watch subscribed resources for changes.
+ *
+ * Rules:
+ * 1. Subscribing reads the resource once; later reads are compared with it
+ * 2. Every `intervalSeconds` (and on check()) each subscribed resource is read
+ *    again; if its content differs, onUpdated is called with its URI. asOfDate
+ *    (when the result was computed) is left out of the comparison
+ * 3. A failed read is skipped and the last content kept, so an outage doesn't
+ *    look like a change
+ * 4. Checks never overlap; the timer runs only while something is subscribed
+ *    and doesn't keep the process alive
+ *
+ * @param read - Current content of a resource
+ * @param onUpdated - Called with the URI of each resource that changed
+ * @param intervalSeconds - Time between checks
+ * @returns Watcher
+ */
+export function createResourceWatcher(
+  read: (uri: string) => Promise<string>,
+  onUpdated: (uri: string) => Promise<void>,
+  intervalSeconds: number = DEFAULT_RESOURCE_REFRESH_SECONDS
+): ResourceWatcher {
+  // Fingerprint of each subscribed resource's last content; null until read
+  const lastContent = new Map<string, string | null>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let checking: Promise<void> | null = null;
+
+  async function readOrNull(uri: string): Promise<string | null> {
+    try {
+      return fingerprint(await read(uri));
+    } catch (error) {
+      console.error(`Refreshing ${uri} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  async function checkAll(): Promise<void> {
+    for (const [uri, previous] of lastContent) {
+      const content = await readOrNull(uri);
+      if (content === null || !lastContent.has(uri)) {
+        continue;
+      }
+      lastContent.set(uri, content);
+      if (previous !== null && content !== previous) {
+        await onUpdated(uri);
+      }
+    }
+  }
+
+  function stopTimer(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  const watcher: ResourceWatcher = {
+    async subscribe(uri) {
+      if (!lastContent.has(uri)) {
+        lastContent.set(uri, null);
+        lastContent.set(uri, await readOrNull(uri));
+      }
+      if (!timer) {
+        timer = setInterval(() => {
+          void watcher.check();
+        }, intervalSeconds * 1000);
+        timer.unref();
+      }
+    },
+    unsubscribe(uri) {
+      lastContent.delete(uri);
+      if (lastContent.size === 0) {
+        stopTimer();
+      }
+    },
+    check() {
+      checking ??= checkAll().finally(() => {
+        checking = null;
+      });
+      return checking;
+    },
+    close() {
+      lastContent.clear();
+      stopTimer();
+    },
+  };
+  return watcher;
+}
+
+/**
+ * JSON content without the keys that change on every read.
+ */
+function fingerprint(content: string): string {
+  return JSON.stringify(JSON.parse(content), (key, value) => key === 'asOfDate' ? undefined : value);
+}
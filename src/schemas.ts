@@ -0,0 +1,394 @@
+/**
+ * Output schemas for stripe-analytics-mcp tools.
+ * Each tool returns its typed result as MCP structured content next to the
+ * markdown. The zod schemas below are checked against the result types in
+ * types.ts and declared to clients as JSON Schema.
+ */
+
+import { z } from 'zod';
+import type {
+  MrrResult,
+  ChurnResult,
+  RevenueByPlanResult,
+  SubscriberStats,
+  RecentChangesResult,
+  DashboardResult,
+  FailedPaymentsResult,
+  MrrMovementResult,
+  MrrHistoryResult,
+  CohortRetentionResult,
+  RevenueRetentionResult,
+  TopCustomersResult,
+  DiscountCliffResult,
+  PendingCancellationsResult,
+  TrialConversionResult,
+  SyncStatusResult,
+} from './types.js';
+
+// --- Shared parts ---
+
+const currencySubtotal = z.object({
+  currency: z.string(),
+  subscriptionCount: z.number(),
+  mrrCents: z.number(),
+  mrrFormatted: z.string(),
+  convertedMrrCents: z.number(),
+  convertedMrrFormatted: z.string(),
+});
+
+const churnSegment = z.object({
+  customerChurnRate: z.number(),
+  revenueChurnRate: z.number(),
+  churnedCustomers: z.number(),
+  churnedMrrCents: z.number(),
+  churnedMrrFormatted: z.string(),
+});
+
+const failedPayment = z.object({
+  customerEmail: z.string(),
+  customerId: z.string(),
+  amountCents: z.number(),
+  amountFormatted: z.string(),
+  currency: z.string(),
+  failureReason: z.string(),
+  attemptCount: z.number(),
+  lastAttemptDate: z.string(),
+  subscriptionId: z.string().nullable(),
+  planName: z.string().nullable(),
+});
+
+const mrrAtRisk = z.object({
+  withinDays: z.number(),
+  subscriptionCount: z.number(),
+  mrrCents: z.number(),
+  mrrFormatted: z.string(),
+});
+
+const trialConversionCounts = z.object({
+  trials: z.number(),
+  converted: z.number(),
+  canceled: z.number(),
+  pastDue: z.number(),
+  conversionRate: z.number(),
+});
+
+// --- Tool results ---
+
+export const mrrResultSchema: z.ZodType<MrrResult> = z.object({
+  totalMrrCents: z.number(),
+  totalMrrFormatted: z.string(),
+  currency: z.string(),
+  subscriptionCount: z.number(),
+  statusBreakdown: z.object({
+    active: z.number(),
+    trialing: z.number(),
+    pastDue: z.number(),
+  }),
+  asOfDate: z.string(),
+  currencyBreakdown: z.array(currencySubtotal).optional(),
+  accountBreakdown: z.array(z.object({
+    accountId: z.string(),
+    subscriptionCount: z.number(),
+    mrrCents: z.number(),
+    mrrFormatted: z.string(),
+    percentOfTotal: z.number(),
+  })).optional(),
+});
+
+export const churnResultSchema: z.ZodType<ChurnResult> = z.object({
+  periodDays: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  customerChurnRate: z.number(),
+  revenueChurnRate: z.number(),
+  churnedCustomers: z.number(),
+  churnedMrrCents: z.number(),
+  churnedMrrFormatted: z.string(),
+  startingCustomers: z.number(),
+  startingMrrCents: z.number(),
+  voluntary: churnSegment,
+  involuntary: churnSegment,
+  unclassified: churnSegment,
+  reasons: z.array(z.object({
+    churnType: z.enum(['voluntary', 'involuntary', 'unclassified']),
+    reason: z.enum(['cancellation_requested', 'payment_failed', 'payment_disputed']).nullable(),
+    feedback: z.enum([
+      'customer_service',
+      'low_quality',
+      'missing_features',
+      'other',
+      'switched_service',
+      'too_complex',
+      'too_expensive',
+      'unused',
+    ]).nullable(),
+    churnedCustomers: z.number(),
+    churnedMrrCents: z.number(),
+    churnedMrrFormatted: z.string(),
+    percentOfChurnedMrr: z.number(),
+  })),
+  currency: z.string(),
+  currencyBreakdown: z.array(currencySubtotal).optional(),
+});
+
+export const revenueByPlanResultSchema: z.ZodType<RevenueByPlanResult> = z.object({
+  plans: z.array(z.object({
+    planName: z.string(),
+    productName: z.string(),
+    priceFormatted: z.string(),
+    interval: z.string(),
+    activeSubscribers: z.number(),
+    mrrCents: z.number(),
+    mrrFormatted: z.string(),
+    percentOfTotal: z.number(),
+  })),
+  totalMrrCents: z.number(),
+  totalMrrFormatted: z.string(),
+  currency: z.string(),
+  currencyBreakdown: z.array(currencySubtotal).optional(),
+});
+
+export const subscriberStatsSchema: z.ZodType<SubscriberStats> = z.object({
+  periodDays: z.number(),
+  totalActive: z.number(),
+  newThisPeriod: z.number(),
+  churnedThisPeriod: z.number(),
+  netChange: z.number(),
+  trialing: z.number(),
+  pastDue: z.number(),
+});
+
+export const recentChangesResultSchema: z.ZodType<RecentChangesResult> = z.object({
+  days: z.number(),
+  changes: z.array(z.object({
+    type: z.enum(['new', 'canceled', 'upgraded', 'downgraded', 'payment_failed', 'reactivated']),
+    customerEmail: z.string(),
+    planName: z.string(),
+    amountFormatted: z.string(),
+    date: z.string(),
+  })),
+  summary: z.object({
+    newCount: z.number(),
+    canceledCount: z.number(),
+    upgradedCount: z.number(),
+    downgradedCount: z.number(),
+    failedPaymentCount: z.number(),
+  }),
+  coverageWarning: z.string().optional(),
+});
+
+export const mrrMovementResultSchema: z.ZodType<MrrMovementResult> = z.object({
+  periodDays: z.number(),
+  newMrrCents: z.number(),
+  expansionMrrCents: z.number(),
+  contractionMrrCents: z.number(),
+  churnedMrrCents: z.number(),
+  netNewMrrCents: z.number(),
+  netNewMrrFormatted: z.string(),
+  currency: z.string(),
+  accountBreakdown: z.array(z.object({
+    accountId: z.string(),
+    newMrrCents: z.number(),
+    expansionMrrCents: z.number(),
+    contractionMrrCents: z.number(),
+    churnedMrrCents: z.number(),
+    netNewMrrCents: z.number(),
+    netNewMrrFormatted: z.string(),
+  })).optional(),
+  coverageWarning: z.string().optional(),
+});
+
+/**
+ * DashboardResult as sent: JSON has no Infinity, so a quick ratio with no
+ * churn is null.
+ */
+export type DashboardOutput = Omit<DashboardResult, 'quickRatio'> & { quickRatio: number | null };
+
+export const dashboardOutputSchema: z.ZodType<DashboardOutput> = z.object({
+  mrr: mrrResultSchema,
+  mrrMovement: mrrMovementResultSchema,
+  failedPayments: z.array(failedPayment),
+  expiringTrials: z.array(z.object({
+    customerEmail: z.string(),
+    customerId: z.string(),
+    planName: z.string(),
+    trialEnd: z.number(),
+    daysRemaining: z.number(),
+    mrrIfConverted: z.number(),
+    mrrIfConvertedFormatted: z.string(),
+    currency: z.string(),
+  })),
+  mrrAtRisk: z.array(mrrAtRisk),
+  quickRatio: z.number().nullable().describe('(new + expansion) / (contraction + churn); null when there was no churn'),
+});
+
+export const failedPaymentsResultSchema: z.ZodType<FailedPaymentsResult> = z.object({
+  failedPayments: z.array(failedPayment),
+  totalAtRiskCents: z.number().nullable(),
+  totalAtRiskFormatted: z.string(),
+  currency: z.string().nullable(),
+});
+
+export const mrrHistoryResultSchema: z.ZodType<MrrHistoryResult> = z.object({
+  granularity: z.enum(['month', 'week']),
+  periods: z.number(),
+  points: z.array(z.object({
+    periodLabel: z.string(),
+    periodEnd: z.string(),
+    mrrCents: z.number(),
+    mrrFormatted: z.string(),
+    subscriptionCount: z.number(),
+    growthRate: z.number().nullable(),
+  })),
+  currency: z.string(),
+});
+
+export const cohortRetentionResultSchema: z.ZodType<CohortRetentionResult> = z.object({
+  months: z.number(),
+  cohorts: z.array(z.object({
+    cohort: z.string(),
+    customers: z.number(),
+    startingMrrCents: z.number(),
+    startingMrrFormatted: z.string(),
+    logoRetention: z.array(z.number()),
+    revenueRetention: z.array(z.number().nullable()),
+  })),
+  currency: z.string(),
+});
+
+export const revenueRetentionResultSchema: z.ZodType<RevenueRetentionResult> = z.object({
+  windowMonths: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  startingCustomers: z.number(),
+  startingMrrCents: z.number(),
+  startingMrrFormatted: z.string(),
+  endingMrrCents: z.number(),
+  endingMrrFormatted: z.string(),
+  expansionMrrCents: z.number(),
+  contractionMrrCents: z.number(),
+  churnedMrrCents: z.number(),
+  expandedCustomers: z.number(),
+  contractedCustomers: z.number(),
+  churnedCustomers: z.number(),
+  netRevenueRetention: z.number(),
+  grossRevenueRetention: z.number(),
+  currency: z.string(),
+});
+
+export const topCustomersResultSchema: z.ZodType<TopCustomersResult> = z.object({
+  customers: z.array(z.object({
+    customerId: z.string(),
+    customerEmail: z.string().nullable(),
+    subscriptionCount: z.number(),
+    mrrCents: z.number(),
+    mrrFormatted: z.string(),
+    planNames: z.array(z.string()),
+    rank: z.number(),
+    percentOfTotal: z.number(),
+    cumulativePercent: z.number(),
+  })),
+  totalCustomers: z.number(),
+  totalMrrCents: z.number(),
+  totalMrrFormatted: z.string(),
+  herfindahlIndex: z.number(),
+  customersFor80Percent: z.number(),
+  top10PercentShare: z.number(),
+  currency: z.string(),
+});
+
+export const discountCliffResultSchema: z.ZodType<DiscountCliffResult> = z.object({
+  periodDays: z.number(),
+  currentMrrCents: z.number(),
+  currentMrrFormatted: z.string(),
+  returningMrrCents: z.number(),
+  returningMrrFormatted: z.string(),
+  expiringDiscounts: z.array(z.object({
+    subscriptionId: z.string(),
+    customerId: z.string(),
+    customerEmail: z.string().nullable(),
+    couponId: z.string(),
+    endsAt: z.string(),
+    returningMrrCents: z.number(),
+    returningMrrFormatted: z.string(),
+  })),
+  currency: z.string(),
+});
+
+export const pendingCancellationsResultSchema: z.ZodType<PendingCancellationsResult> = z.object({
+  cancellations: z.array(z.object({
+    subscriptionId: z.string(),
+    customerId: z.string(),
+    customerEmail: z.string().nullable(),
+    planName: z.string(),
+    cancelDate: z.string(),
+    daysUntilCancel: z.number(),
+    atPeriodEnd: z.boolean(),
+    mrrCents: z.number(),
+    mrrFormatted: z.string(),
+  })),
+  mrrAtRisk: z.array(mrrAtRisk),
+  totalMrrCents: z.number(),
+  totalMrrFormatted: z.string(),
+  currency: z.string(),
+});
+
+export const trialConversionResultSchema: z.ZodType<TrialConversionResult> = trialConversionCounts.extend({
+  periodDays: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  byPlan: z.array(trialConversionCounts.extend({ planName: z.string() })),
+  byTrialLength: z.array(trialConversionCounts.extend({ trialDays: z.number() })),
+});
+
+const syncStatusResultSchema: z.ZodType<SyncStatusResult> = z.object({
+  storePath: z.string().nullable(),
+  synced: z.boolean(),
+  subscriptionCount: z.number(),
+  statusCounts: z.partialRecord(
+    z.enum(['active', 'trialing', 'past_due', 'canceled', 'incomplete', 'incomplete_expired', 'unpaid', 'paused']),
+    z.number()
+  ),
+  lastFullSyncAt: z.number().nullable(),
+  lastSyncAt: z.number().nullable(),
+  ageSeconds: z.number().nullable(),
+  cursor: z.number().nullable(),
+  lastSyncMode: z.enum(['full', 'incremental']).nullable(),
+  lastSyncEventCount: z.number(),
+  lastWebhookAt: z.number().nullable(),
+  accountId: z.string().optional(),
+});
+
+/**
+ * sync_status reports one snapshot per selected account.
+ */
+export const syncStatusOutputSchema = z.object({
+  accounts: z.array(syncStatusResultSchema),
+});
+
+/**
+ * A tool's input schema as the JSON Schema (draft-07) listed to clients.
+ * Arguments with defaults are optional.
+ */
+export function toInputSchema(schema: z.ZodObject): { type: 'object'; [key: string]: unknown } {
+  return z.toJSONSchema(schema, { target: 'draft-7', io: 'input' }) as { type: 'object'; [key: string]: unknown };
+}
+
+/**
+ * A prompt's arguments as listed to clients: MCP prompts take named string
+ * arguments, each with a description and whether it is required.
+ */
+export function toPromptArguments(schema: z.ZodObject): { name: string; description?: string; required: boolean }[] {
+  return Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    description: field.description,
+    required: !field.safeParse(undefined).success,
+  }));
+}
+
+/**
+ * A tool's output schema as the JSON Schema (draft-07) listed to clients.
+ */
+export function toOutputSchema(schema: z.ZodType): { type: 'object'; [key: string]: unknown } {
+  return z.toJSONSchema(schema, { target: 'draft-7' }) as { type: 'object'; [key: string]: unknown };
+}
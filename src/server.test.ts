@@ -0,0 +1,240 @@
+/**
+ * Tests for the MCP server.
+ * Covers: every tool declares an output schema and returns structured content
+ * that satisfies it, alongside the markdown; extra tools from the registry;
+ * metrics as resources; report prompts; restricted-key permissions per
+ * connected account; consolidated MRR reading only subscriptions.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { createServer, createServerFactory } from './server.js';
+import { defineTool, SNAPSHOT_PERMISSIONS, TOOLS } from './tools.js';
+import { checkPermissions } from './stripe/client.js';
+import { createSubscription } from './test/helpers/subscription.js';
+import type { ToolContext } from './types.js';
+
+// The permission preflight would call Stripe; each test queues its reports
+vi.mock('./stripe/client.js', async importOriginal => ({
+  ...await importOriginal<typeof import('./stripe/client.js')>(),
+  checkPermissions: vi.fn(),
+}));
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+function exportDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function writeExports(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'server-'));
+  writeFileSync(join(dir, 'subscriptions.csv'), [
+    'id,Customer ID,Customer Email,Status,Product,Quantity,Currency,Interval,Amount,Created (UTC),Canceled At (UTC),Trial Start (UTC),Trial End (UTC),Cancellation Reason',
+    `sub_1,cus_a,a@example.com,active,Pro,1,usd,month,49.00,${exportDate(now - 90 * DAY)},,${exportDate(now - 90 * DAY)},${exportDate(now - 76 * DAY)},`,
+    `sub_2,cus_b,b@example.com,active,Basic,1,usd,year,"1,200.00",${exportDate(now - 20 * DAY)},,,,`,
+    `sub_3,cus_c,c@example.com,canceled,Pro,1,usd,month,49.00,${exportDate(now - 90 * DAY)},${exportDate(now - 5 * DAY)},,,payment_failed`,
+  ].join('\n'));
+  writeFileSync(join(dir, 'invoices.csv'), [
+    'id,Customer,Subscription,Amount Due,Currency,Status,Attempt Count,Date (UTC)',
+    `in_1,cus_a,sub_1,49.00,usd,open,2,${exportDate(now - 2 * DAY)}`,
+  ].join('\n'));
+  return dir;
+}
+
+describe('createServer', () => {
+  const client = new Client({ name: 'test', version: '1.0.0' });
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer('', { csv: writeExports() }).connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('declares an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: 'object' });
+    }
+  });
+
+  it('returns structured content matching the output schema next to the markdown', async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      // The client rejects structured content that doesn't match the tool's output schema
+      const result = await client.callTool({ name: tool.name, arguments: {} });
+      expect(result.isError, `${tool.name}: ${JSON.stringify(result.content)}`).toBeFalsy();
+      expect(result.content).toEqual([expect.objectContaining({ type: 'text' })]);
+      expect(result.structuredContent, tool.name).toBeDefined();
+    }
+  });
+
+  it('carries the exact numbers', async () => {
+    const mrr = await client.callTool({ name: 'get_mrr', arguments: {} });
+    expect(mrr.structuredContent).toMatchObject({ totalMrrCents: 4900 + 10000, currency: 'usd', subscriptionCount: 2 });
+
+    const churn = await client.callTool({ name: 'get_churn', arguments: { period_days: 30 } });
+    expect(churn.structuredContent).toMatchObject({ churnedCustomers: 1, involuntary: { churnedCustomers: 1 } });
+  });
+
+  it('serves metrics as resources with the tools\' results', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'stripe-analytics://mrr',
+      'stripe-analytics://plans',
+      'stripe-analytics://dashboard',
+    ]);
+
+    const { contents } = await client.readResource({ uri: 'stripe-analytics://mrr' });
+    const mrr = await client.callTool({ name: 'get_mrr', arguments: {} });
+    expect(contents).toEqual([{ uri: 'stripe-analytics://mrr', mimeType: 'application/json', text: expect.any(String) }]);
+    expect(JSON.parse((contents[0] as { text: string }).text)).toEqual({
+      ...(mrr.structuredContent as object),
+      asOfDate: expect.any(String),
+    });
+
+    await expect(client.subscribeResource({ uri: 'stripe-analytics://dashboard' })).resolves.toEqual({});
+    await expect(client.readResource({ uri: 'stripe-analytics://nope' })).rejects.toThrow(/Unknown resource/);
+  });
+
+  it('lists report prompts with period, audience and account arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['weekly_investor_update', 'churn_post_mortem', 'failed_payment_outreach']);
+    expect(prompts[0].arguments?.map(argument => [argument.name, argument.required])).toEqual([
+      ['period_days', false],
+      ['audience', false],
+      ['account', false],
+    ]);
+  });
+
+  it('fills a prompt with the output of its tools', async () => {
+    const { messages } = await client.getPrompt({
+      name: 'churn_post_mortem',
+      arguments: { period_days: '30', audience: 'the board', account: '' },
+    });
+    const churn = await client.callTool({ name: 'get_churn', arguments: { period_days: 30 } });
+
+    expect(messages).toHaveLength(1);
+    const { text } = messages[0].content as { text: string };
+    expect(text).toMatch(/^Write a churn post-mortem for the board covering the last 30 days/);
+    expect(text).toContain((churn.content as { text: string }[])[0].text);
+  });
+
+  it('rejects prompt arguments out of range', async () => {
+    await expect(client.getPrompt({ name: 'failed_payment_outreach', arguments: { period_days: '120' } })).rejects.toThrow();
+    await expect(client.getPrompt({ name: 'nope' })).rejects.toThrow(/Unknown prompt/);
+  });
+});
+
+describe('createServer with extra tools', () => {
+  const countTrialing = defineTool({
+    name: 'count_trialing',
+    description: 'Count subscriptions in trial.',
+    input: z.object({ label: z.string().optional().default('in trial') }),
+    output: z.object({ trialing: z.number() }),
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: context => context.getSubscriptions(['trialing']),
+    compute: (subscriptions, { label }) => ({ trialing: subscriptions.length, label }),
+    format: ({ trialing, label }) => `${trialing} ${label}`,
+    structuredContent: ({ trialing }) => ({ trialing }),
+  });
+
+  it('lists and calls them next to the built-in tools', async () => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer('', { csv: writeExports(), tools: [countTrialing] }).connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual([...TOOLS.map(tool => tool.name), 'count_trialing']);
+    expect(tools.at(-1)?.inputSchema.properties).toHaveProperty('account');
+
+    const result = await client.callTool({ name: 'count_trialing', arguments: { label: 'trialing' } });
+    expect(result.content).toEqual([{ type: 'text', text: '0 trialing' }]);
+    expect(result.structuredContent).toEqual({ trialing: 0 });
+    await client.close();
+  });
+
+  it('rejects a tool name that is already taken', () => {
+    expect(() => createServer('', { csv: writeExports(), tools: [TOOLS[0]] })).toThrow(/get_mrr/);
+  });
+});
+
+describe('createServer with a restricted key and connected accounts', () => {
+  let factory: ReturnType<typeof createServerFactory>;
+
+  beforeAll(() => {
+    vi.mocked(checkPermissions)
+      .mockResolvedValueOnce({ checkedAt: now, granted: ['subscriptions', 'events', 'invoices', 'products', 'prices', 'customers'], missing: [] })
+      .mockResolvedValueOnce({ checkedAt: now, granted: ['subscriptions', 'events', 'products', 'prices', 'customers'], missing: ['invoices'] });
+    factory = createServerFactory('rk_test_123', { accounts: ['acct_1', 'acct_2'] });
+  });
+
+  async function connect(accounts?: string[]): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await factory.createServer(accounts ? { name: 'ana', token: 'ana-0123456789abcdef', accounts } : undefined).connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  afterAll(async () => {
+    await factory.close();
+  });
+
+  it('checks every account and names the one missing a permission', async () => {
+    expect(checkPermissions).toHaveBeenCalledTimes(2);
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toContain('get_failed_payments');
+
+    const result = await client.callTool({ name: 'get_failed_payments', arguments: { account: 'acct_2' } });
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: 'text', text: expect.stringContaining('needs read access to invoices on acct_2') }]);
+    await client.close();
+  });
+
+  it('hides tools and prompts none of a token\'s accounts can run', async () => {
+    const client = await connect(['acct_2']);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).not.toContain('get_failed_payments');
+    expect(tools.map(tool => tool.name)).toContain('get_mrr');
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).not.toContain('failed_payment_outreach');
+    await client.close();
+  });
+});
+
+describe('get_mrr across connected accounts', () => {
+  it('reads only each account\'s subscriptions, not its events', async () => {
+    const getAccountData = vi.fn();
+    const context = {
+      consolidated: true,
+      getAccountSubscriptions: async () => [
+        { accountId: 'acct_1', subscriptions: [createSubscription({ id: 'sub_1' })] },
+        { accountId: 'acct_2', subscriptions: [] },
+      ],
+      getAccountData,
+    } as unknown as ToolContext;
+
+    const { structuredContent } = await TOOLS.find(tool => tool.name === 'get_mrr')!.run(context, {});
+    expect(structuredContent).toMatchObject({
+      totalMrrCents: 1000,
+      accountBreakdown: [{ accountId: 'acct_1', mrrCents: 1000 }, { accountId: 'acct_2', mrrCents: 0 }],
+    });
+    expect(getAccountData).not.toHaveBeenCalled();
+  });
+});
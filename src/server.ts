@@ -1,6 +1,8 @@
 /**
  * MCP server implementation for stripe-analytics-mcp.
- * Registers 5 tools for computing Stripe SaaS metrics.
+ * Serves the tools declared in tools.ts, plus any passed in ServerOptions.tools,
+ * the metric resources declared in resources.ts and the report prompts declared
+ * in prompts.ts, over stdio or streamable HTTP.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -8,374 +10,667 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import Stripe from 'stripe';
 
-import { createStripeClient, fetchAllSubscriptions, fetchCanceledSubscriptions, fetchRecentEvents, fetchFailedInvoices } from './stripe/client.js';
-import { computeMrr } from './metrics/mrr.js';
-import { computeChurn } from './metrics/churn.js';
-import { computeRevenueByPlan } from './metrics/plans.js';
-import { computeSubscriberStats } from './metrics/subscribers.js';
-import { computeRecentChanges } from './metrics/changes.js';
-import { computeDashboard, computeMrrMovement } from './metrics/dashboard.js';
+import type { Server as HttpServer } from 'node:http';
+import { join, extname } from 'node:path';
 import {
-  mrrToMarkdown,
-  churnToMarkdown,
-  planBreakdownToMarkdown,
-  subscriberStatsToMarkdown,
-  changesToMarkdown,
-  dashboardToMarkdown,
-  failedPaymentsToMarkdown,
-  mrrMovementToMarkdown,
-} from './utils/format.js';
-import type { FailedPaymentsResult } from './types.js';
+  createStripeClient,
+  createConnectedAccountSource,
+  fetchRecentEvents,
+  fetchFailedInvoices,
+  isRestrictedKey,
+  checkPermissions,
+  normalizeEvents,
+  collectSubscriptionChanges,
+  METRIC_EVENT_TYPES,
+} from './stripe/client.js';
+import { startWebhookServer, DEFAULT_WEBHOOK_PORT, DEFAULT_WEBHOOK_PATH } from './stripe/webhooks.js';
+import { startHttpServer, DEFAULT_HTTP_PORT, DEFAULT_HTTP_HOST, MCP_PATH } from './http.js';
+import { DEFAULT_API_VERSION } from './stripe/versions.js';
+import { createRecordingSource, createReplaySource, readManifest } from './stripe/fixtures.js';
+import { createCountingSource, createRequestUsage, withRequestUsage, formatRequestUsage } from './stripe/usage.js';
+import { createCsvSource } from './stripe/csv.js';
+import { createSnapshotStore } from './store/snapshot.js';
+import { createEventArchive, describeCoverageGap, STRIPE_EVENT_RETENTION_DAYS } from './store/events.js';
+import { TOOLS, ACCOUNT_ARGUMENT } from './tools.js';
+import { toInputSchema, toOutputSchema, toPromptArguments } from './schemas.js';
+import { RESOURCES, createResourceWatcher } from './resources.js';
+import { PROMPTS } from './prompts.js';
+import type {
+  ServerOptions,
+  ServerFactory,
+  AccessToken,
+  DataSource,
+  RecordingSource,
+  AccountScope,
+  AccountData,
+  AccountSubscriptions,
+  NormalizedEvent,
+  PermissionReport,
+  Tool,
+  ToolContext,
+  Prompt,
+  StripeResource,
+  ToolPermissions,
+  StoreOptions,
+} from './types.js';
+
+// In webhook mode, how often tools still ask Stripe for subscription changes
+const WEBHOOK_MIN_SYNC_INTERVAL_SECONDS = 3600;
+
+/**
+ * What a tool's output loses without an optional resource.
+ */
+const OPTIONAL_RESOURCE_EFFECTS: Partial<Record<StripeResource, string>> = {
+  products: 'plan names show price IDs instead of product names',
+  prices: 'tiered and volume prices count as $0 MRR',
+  invoices: 'metered prices count as $0 MRR',
+  customers: 'customer emails may be missing',
+};
 
 /**
  * Create and configure the MCP server.
  * 
- * @param apiKey - Stripe secret API key
+ * @param apiKey - Stripe secret API key (unused when options.replay or options.csv is set)
+ * @param options - Optional server configuration (reporting currency, snapshot, fixtures, ...)
  * @returns Configured MCP Server instance
  */
-export function createServer(apiKey: string): Server {
-  const server = new Server(
-    {
-      name: 'stripe-analytics-mcp',
-      version: '0.1.0',
-    },
-    {
-      capabilities: {
-        tools: {},
+export function createServer(apiKey: string, options: ServerOptions = {}): Server {
+  const factory = createServerFactory(apiKey, options);
+  const server = factory.createServer();
+  const onclose = server.onclose;
+  server.onclose = () => {
+    onclose?.();
+    void factory.close();
+  };
+  return server;
+}
+
+/**
+ * Set up the data sources, snapshots and event archives once, and create MCP
+ * servers that share them: one per stdio process, or one per HTTP session.
+ *
+ * @param apiKey - Stripe secret API key (unused when options.replay or options.csv is set)
+ * @param options - Optional server configuration (reporting currency, snapshot, fixtures, ...)
+ * @returns Factory for MCP servers, optionally limited to an access token's accounts
+ */
+export function createServerFactory(apiKey: string, options: ServerOptions = {}): ServerFactory {
+  const currencyOptions = options.currency;
+
+  const tools = [...TOOLS, ...(options.tools ?? [])];
+  const duplicate = tools.find((tool, index) => tools.findIndex(other => other.name === tool.name) !== index);
+  if (duplicate) {
+    throw new Error(`Tool "${duplicate.name}" is declared more than once`);
+  }
+
+  const accountIds = options.accounts ?? [];
+  if (accountIds.length > 0 && (options.replay || options.csv)) {
+    throw new Error('Connected accounts can only be read from Stripe, not from fixtures or CSV exports');
+  }
+  if (options.webhooks && (options.replay || options.csv)) {
+    throw new Error('Webhooks can only be received for a live Stripe account, not for fixtures or CSV exports');
+  }
+  if (options.http) {
+    if (options.http.tokens.length === 0) {
+      throw new Error('HTTP mode needs at least one access token');
+    }
+    for (const { name, accounts } of options.http.tokens) {
+      const unknown = (accounts ?? []).filter(accountId => !accountIds.includes(accountId));
+      if (unknown.length > 0) {
+        throw new Error(`Access token "${name}" lists accounts that aren't configured: ${unknown.join(', ')}`);
+      }
+    }
+  }
+
+  // Objects from fixtures and exports are read in whichever shape they have
+  const apiVersion = options.apiVersion ?? DEFAULT_API_VERSION;
+
+  // With webhooks keeping the snapshot current, polling is only a safety net
+  const storeOptions: StoreOptions | undefined = options.webhooks
+    ? { minSyncIntervalSeconds: WEBHOOK_MIN_SYNC_INTERVAL_SECONDS, ...options.store }
+    : options.store;
+
+  // Create the data source: recorded fixtures, CSV exports, or the Stripe client (optionally recording)
+  let scopes: AccountScope[];
+  const recorders: RecordingSource[] = [];
+  const record = (source: DataSource, dir: string): RecordingSource => {
+    const recorder = createRecordingSource(source, dir);
+    recorders.push(recorder);
+    return recorder;
+  };
+  // A replay answers as of its recording time, so its windows see what the recording did
+  const replayedAt = options.replay ? readManifest(options.replay).recordedAt : null;
+  if (options.replay) {
+    const source = createReplaySource(options.replay);
+    scopes = [{
+      accountId: null,
+      source,
+      store: createSnapshotStore(source, `replay:${options.replay}`, options.store),
+      archive: createEventArchive(null),
+    }];
+  } else if (options.csv) {
+    const source = createCsvSource(options.csv);
+    scopes = [{
+      accountId: null,
+      source,
+      store: createSnapshotStore(source, `csv:${options.csv}`, options.store),
+      archive: createEventArchive(null),
+    }];
+  } else {
+    let stripe: Stripe;
+    try {
+      stripe = createStripeClient(apiKey, apiVersion);
+    } catch (error) {
+      throw new Error(`Failed to initialize Stripe client: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (accountIds.length === 0) {
+      const source = createCountingSource(options.record ? record(stripe, options.record) : stripe);
+      scopes = [{
+        accountId: null,
+        source,
+        store: createSnapshotStore(source, apiKey, storeOptions),
+        archive: createEventArchive(options.eventArchive ?? null),
+      }];
+    } else {
+      // One source, snapshot and event archive per connected account
+      scopes = accountIds.map(accountId => {
+        const accountSource = createConnectedAccountSource(stripe, accountId);
+        const source = createCountingSource(
+          options.record ? record(accountSource, join(options.record, accountId)) : accountSource
+        );
+        const store = createSnapshotStore(source, `${apiKey}:${accountId}`, {
+          ...storeOptions,
+          path: options.store?.path ? withAccountSuffix(options.store.path, accountId) : undefined,
+        });
+        const archive = createEventArchive(options.eventArchive ? withAccountSuffix(options.eventArchive, accountId) : null);
+        return { accountId, source, store, archive };
+      });
+    }
+  }
+
+  // Recorders buffer their writes; write the rest when the process exits
+  const flushRecorders = (): void => {
+    for (const recorder of recorders) {
+      recorder.flush();
+    }
+  };
+  if (recorders.length > 0) {
+    process.once('exit', flushRecorders);
+  }
+
+  // Webhook mode: events are pushed to us. Each scope's archive is backfilled
+  // once with the events Stripe still lists, then tools read events from the
+  // archive instead of polling
+  const backfills = new Map<AccountScope, Promise<boolean>>();
+  let webhookServer: Promise<HttpServer | null> = Promise.resolve(null);
+  if (options.webhooks) {
+    const webhooks = options.webhooks;
+    const startedAt = Math.floor(Date.now() / 1000);
+    for (const scope of scopes) {
+      backfills.set(scope, readEvents(scope, STRIPE_EVENT_RETENTION_DAYS).then(
+        () => true,
+        error => {
+          console.error(`Event backfill failed, polling instead: ${(error as { message?: string })?.message ?? 'Unknown error'}`);
+          return false;
+        }
+      ));
+    }
+
+    webhookServer = startWebhookServer(webhooks, event => ingestWebhookEvent(event, startedAt)).then(
+      httpServer => {
+        console.error(`Receiving Stripe webhooks on http://127.0.0.1:${webhooks.port ?? DEFAULT_WEBHOOK_PORT}${webhooks.path ?? DEFAULT_WEBHOOK_PATH}`);
+        return httpServer;
       },
+      error => {
+        console.error(`Failed to start webhook endpoint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return null;
+      }
+    );
+  }
+
+  /**
+   * Store a verified webhook event: archive it, and apply subscription changes
+   * to the snapshot. Events for accounts that aren't configured are ignored.
+   */
+  async function ingestWebhookEvent(event: Stripe.Event, startedAt: number): Promise<void> {
+    if (!METRIC_EVENT_TYPES.includes(event.type)) {
+      return;
+    }
+    const scope = scopes.find(candidate => candidate.accountId === (event.account ?? null));
+    if (!scope) {
+      return;
+    }
+    scope.archive.record(await normalizeEvents(scope.source, [event]), startedAt, Math.floor(Date.now() / 1000));
+    if (event.type.startsWith('customer.subscription.')) {
+      scope.store.applyChanges(await collectSubscriptionChanges(scope.source, [event]));
     }
-  );
-
-  // Create Stripe client
-  let stripe: Stripe;
-  try {
-    stripe = createStripeClient(apiKey);
-  } catch (error) {
-    throw new Error(`Failed to initialize Stripe client: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
-  // Register tool list handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: [
-        {
-          name: 'get_mrr',
-          description: 'Compute current Monthly Recurring Revenue (MRR) from active Stripe subscriptions. Normalizes annual/weekly/daily subscriptions to monthly amounts, applies discounts, and excludes trials. Returns total MRR, subscription count, and status breakdown.',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'get_churn',
-          description: 'Compute customer churn rate and revenue churn rate for a given period. Returns percentage of customers lost, percentage of revenue lost, counts of churned customers, and churned MRR amount.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              period_days: {
-                type: 'number',
-                description: 'Number of days to analyze (default: 30, min: 1, max: 365)',
-                minimum: 1,
-                maximum: 365,
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_revenue_by_plan',
-          description: 'Break down MRR by pricing plan/product. Returns a table showing each plan with subscriber count, MRR contribution, and percentage of total revenue.',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'get_subscriber_stats',
-          description: 'Get subscriber statistics for a given period. Returns total active subscribers, new subscribers, churned subscribers, net change, trial count, and past due count.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              period_days: {
-                type: 'number',
-                description: 'Number of days to analyze (default: 30, min: 1, max: 365)',
-                minimum: 1,
-                maximum: 365,
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_recent_changes',
-          description: 'List recent subscription changes including new subscriptions, cancellations, upgrades, downgrades, and failed payments. Returns detailed event list with customer info and summary counts.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              days: {
-                type: 'number',
-                description: 'Number of days to look back (default: 7, min: 1, max: 90)',
-                minimum: 1,
-                maximum: 90,
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_dashboard',
-          description: 'The morning check — get everything important in one call. Returns: current MRR with week-over-week change, MRR movement breakdown (new/expansion/contraction/churn), failed payments needing attention, trials expiring in 3 days, and Quick Ratio. Use this when someone asks "how\'s my business doing?" or "morning check" or "what happened overnight?"',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: 'get_failed_payments',
-          description: 'Get all failed payment attempts with customer email, amount, failure reason, attempt count, and plan. These are recoverable revenue — money you can get back by reaching out to customers. Shows total revenue at risk.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              days: {
-                type: 'number',
-                description: 'Number of days to look back (default: 30, min: 1, max: 90)',
-                minimum: 1,
-                maximum: 90,
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: 'get_mrr_movement',
-          description: 'MRR waterfall showing how MRR changed over a period: new MRR from new customers, expansion from upgrades, contraction from downgrades, and churn from cancellations. Answers "how did my MRR change this week/month?"',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              period_days: {
-                type: 'number',
-                description: 'Number of days to analyze (default: 7, min: 1, max: 90)',
-                minimum: 1,
-                maximum: 90,
-              },
+  /**
+   * Read a scope's events: from the archive once webhooks are feeding it,
+   * otherwise from Stripe (see readEvents).
+   */
+  async function readScopeEvents(scope: AccountScope, days: number, asOf: number): Promise<NormalizedEvent[]> {
+    const backfill = backfills.get(scope);
+    if (backfill && await backfill) {
+      return scope.archive.getEvents(days, asOf);
+    }
+    return readEvents(scope, days, asOf);
+  }
+
+  // Restricted keys may lack some read permissions, and not necessarily the same
+  // ones on every connected account: probe each account once at startup, then
+  // hide tools none of a caller's accounts can run and annotate those that run
+  // with less detail. Secret keys, fixtures and exports can read everything.
+  const permissionsReady: Promise<Map<AccountScope, PermissionReport>> =
+    !options.replay && !options.csv && isRestrictedKey(apiKey)
+      ? Promise.all(scopes.map(scope => {
+          const where = scope.accountId ? ` on ${scope.accountId}` : '';
+          return checkPermissions(scope.source).then(
+            (report): [AccountScope, PermissionReport] => {
+              if (report.missing.length > 0) {
+                const unavailable = tools.filter(tool => missingFor(tool, report, 'required').length > 0).map(tool => tool.name);
+                console.error(`Restricted key cannot read ${report.missing.join(', ')}${where}. Unavailable tools: ${unavailable.join(', ') || 'none'}`);
+              }
+              return [scope, report];
             },
-            required: [],
-          },
-        },
-      ],
+            error => {
+              // Unknown permissions: let calls on this account fail on their own
+              console.error(`Permission preflight failed${where}: ${(error as { message?: string })?.message ?? 'Unknown error'}`);
+              return null;
+            }
+          );
+        })).then(reports => new Map(reports.filter(report => report !== null)))
+      : Promise.resolve(new Map());
+
+  /**
+   * Resources of one kind a tool reads that the key can't, for each selected
+   * account missing any. Accounts the preflight didn't cover are assumed to
+   * have everything.
+   */
+  async function missingPermissions(
+    tool: Tool,
+    selected: AccountScope[],
+    kind: keyof ToolPermissions
+  ): Promise<{ scope: AccountScope; missing: StripeResource[] }[]> {
+    const reports = await permissionsReady;
+    return selected
+      .map(scope => {
+        const report = reports.get(scope);
+        return { scope, missing: report ? missingFor(tool, report, kind) : [] };
+      })
+      .filter(({ missing }) => missing.length > 0);
+  }
+
+  /**
+   * Whether at least one of the accounts `access` allows can run a tool.
+   */
+  async function canRun(toolName: string, access: AccessToken | undefined): Promise<boolean> {
+    const tool = tools.find(candidate => candidate.name === toolName);
+    if (!tool) {
+      return false;
+    }
+    const available = selectScopes(undefined, access);
+    return (await missingPermissions(tool, available, 'required')).length < available.length;
+  }
+
+  /**
+   * Pick the scopes a tool call reads from its `account` argument.
+   * Without connected accounts there is one scope; with them, omitted or "all"
+   * means every configured account the access token can read.
+   */
+  function selectScopes(account: string | undefined, access: AccessToken | undefined): AccountScope[] {
+    const available = access?.accounts
+      ? scopes.filter(scope => access.accounts!.includes(scope.accountId!))
+      : scopes;
+    if (account === undefined || account === 'all') {
+      return available;
+    }
+    if (accountIds.length === 0) {
+      throw new Error('No connected accounts configured. Start the server with --accounts to use the account argument.');
+    }
+    const scope = available.find(candidate => candidate.accountId === account);
+    if (!scope) {
+      throw new Error(`Unknown connected account "${account}". Available: ${available.map(candidate => candidate.accountId).join(', ')}`);
+    }
+    return [scope];
+  }
+
+  /**
+   * What tools can read from the selected scopes.
+   * Subscriptions come from each scope's local snapshot, refreshed incrementally from events.
+   * Time windows end at asOf: the current time, or the recording time when replaying.
+   */
+  function createToolContext(selected: AccountScope[], consolidated: boolean, asOf: number): ToolContext {
+    const readAll = async <T>(read: (scope: AccountScope) => Promise<T[]>): Promise<T[]> =>
+      (await Promise.all(selected.map(read))).flat();
+
+    return {
+      consolidated,
+      currencyOptions,
+      asOf,
+      getSubscriptions: statuses => readAll(scope => scope.store.getSubscriptions(statuses)),
+      getCanceledSubscriptions: days => readAll(scope => scope.store.getCanceledSubscriptions(days, asOf)),
+      getRecentEvents: days => readAll(scope => readScopeEvents(scope, days, asOf)),
+      getFailedInvoices: days => readAll(scope => fetchFailedInvoices(scope.source, days, apiVersion, asOf)),
+      // Each connected account's data, for the consolidated metrics
+      getAccountSubscriptions: () => Promise.all(selected.map(async (scope): Promise<AccountSubscriptions> => ({
+        accountId: scope.accountId!,
+        subscriptions: await scope.store.getSubscriptions(),
+      }))),
+      getAccountData: periodDays => Promise.all(selected.map(async (scope): Promise<AccountData> => {
+        const [subscriptions, canceledSubscriptions, events] = await Promise.all([
+          scope.store.getSubscriptions(),
+          scope.store.getCanceledSubscriptions(periodDays, asOf),
+          readScopeEvents(scope, periodDays, asOf),
+        ]);
+        return { accountId: scope.accountId!, subscriptions, canceledSubscriptions, events };
+      })),
+      coverageWarning: days => coverageWarning(selected, days, asOf),
+      syncStatus: async refresh => {
+        if (refresh !== 'none') {
+          await Promise.all(selected.map(scope => scope.store.sync({ full: refresh === 'full' })));
+        }
+        return selected.map(scope => ({ ...scope.store.status(), accountId: scope.accountId ?? undefined }));
+      },
     };
-  });
+  }
+
+  /**
+   * Run a tool by name for a caller, reading the accounts `access` allows.
+   * Unknown tools and tools the key can't run are refused.
+   */
+  async function runTool(name: string, args: Record<string, unknown> | undefined, access: AccessToken | undefined): ReturnType<Tool['run']> {
+    const tool = tools.find(candidate => candidate.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    // Every tool reads one connected account, or all of them consolidated
+    const { account } = z.object({ account: ACCOUNT_ARGUMENT }).parse(args || {});
+    const selected = selectScopes(account, access);
+    const consolidated = accountIds.length > 0 && (account === undefined || account === 'all');
 
-  // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+    // Refuse tools the key can't run on every selected account, rather than failing partway through
+    const missing = await missingPermissions(tool, selected, 'required');
+    if (missing.length > 0) {
+      const detail = missing
+        .map(({ scope, missing: resources }) => `${resources.join(', ')}${scope.accountId ? ` on ${scope.accountId}` : ''}`)
+        .join('; ');
+      throw new Error(`${name} needs read access to ${detail}, which this restricted key doesn't have. Grant it in the Stripe dashboard under Developers → API keys.`);
+    }
+
+    return tool.run(createToolContext(selected, consolidated, replayedAt ?? Math.floor(Date.now() / 1000)), args);
+  }
 
+  /**
+   * Read a resource: its tool's structured result with default arguments, as JSON.
+   */
+  async function readResource(uri: string, access: AccessToken | undefined): Promise<string> {
+    const resource = RESOURCES.find(candidate => candidate.uri === uri);
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    const usage = createRequestUsage();
     try {
-      switch (name) {
-        case 'get_mrr': {
-          // Fetch all subscriptions
-          const subscriptions = await fetchAllSubscriptions(stripe);
-          
-          // Compute MRR
-          const result = computeMrr(subscriptions);
-          
-          // Format as markdown
-          const markdown = mrrToMarkdown(result);
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: markdown,
-              },
-            ],
-          };
-        }
+      const { structuredContent } = await withRequestUsage(usage, () => runTool(resource.tool, {}, access));
+      return JSON.stringify(structuredContent, null, 2);
+    } finally {
+      console.error(`${access ? `${access.name} ` : ''}${uri}: ${formatRequestUsage(usage)}`);
+    }
+  }
 
-        case 'get_churn': {
-          // Validate and parse arguments
-          const schema = z.object({
-            period_days: z.number().min(1).max(365).optional().default(30),
-          });
-          const { period_days } = schema.parse(args || {});
-          
-          // Fetch all subscriptions and canceled subscriptions
-          const [allSubs, canceledSubs] = await Promise.all([
-            fetchAllSubscriptions(stripe),
-            fetchCanceledSubscriptions(stripe, period_days),
-          ]);
-          
-          // Compute churn
-          const result = computeChurn(allSubs, canceledSubs, period_days);
-          
-          // Format as markdown
-          const markdown = churnToMarkdown(result);
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: markdown,
-              },
-            ],
-          };
-        }
+  /**
+   * Render a prompt: its instructions followed by the markdown of each tool it
+   * embeds. Blank arguments (clients send "" for fields left empty) take their
+   * defaults. A tool that fails is reported in place, so the rest still renders.
+   */
+  async function renderPrompt(prompt: Prompt, args: Record<string, string> | undefined, access: AccessToken | undefined): Promise<string> {
+    const filled = Object.fromEntries(Object.entries(args ?? {}).filter(([, value]) => value.trim() !== ''));
+    const { account } = z.object({ account: ACCOUNT_ARGUMENT }).parse(filled);
+    const { instructions, tools: calls } = prompt.render(filled);
+    const usage = createRequestUsage();
+    const sections = await withRequestUsage(usage, () => Promise.all(calls.map(async call => {
+      try {
+        return (await runTool(call.name, { ...call.arguments, account }, access)).markdown;
+      } catch (error) {
+        return `${call.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    })));
+    console.error(`${access ? `${access.name} ` : ''}${prompt.name}: ${formatRequestUsage(usage)}`);
+    return [instructions, ...sections].join('\n\n---\n\n');
+  }
 
-        case 'get_revenue_by_plan': {
-          // Fetch all subscriptions
-          const subscriptions = await fetchAllSubscriptions(stripe);
-          
-          // Compute revenue by plan
-          const result = computeRevenueByPlan(subscriptions);
-          
-          // Format as markdown
-          const markdown = planBreakdownToMarkdown(result);
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: markdown,
-              },
-            ],
-          };
+  /**
+   * Prompts whose tools the key can all run for the accounts `access` allows.
+   */
+  async function availablePrompts(access: AccessToken | undefined): Promise<Prompt[]> {
+    const available = await Promise.all(PROMPTS.map(async prompt =>
+      (await Promise.all(prompt.render({}).tools.map(call => canRun(call.name, access)))).every(Boolean)
+    ));
+    return PROMPTS.filter((_prompt, index) => available[index]);
+  }
+
+  /**
+   * An MCP server for one connection, reading the accounts `access` allows.
+   */
+  function createMcpServer(access?: AccessToken): Server {
+    const server = new Server(
+      {
+        name: 'stripe-analytics-mcp',
+        version: '0.1.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+        },
+      }
+    );
+
+    // Subscribed resources are re-read in the background; the snapshot's own
+    // sync interval (or webhooks) decides how often that reaches Stripe
+    const watcher = createResourceWatcher(
+      uri => readResource(uri, access),
+      uri => server.sendResourceUpdated({ uri }),
+      options.resourceRefreshSeconds
+    );
+    server.onclose = () => {
+      watcher.close();
+    };
+
+    // Register tool list handler
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const available = selectScopes(undefined, access);
+      const listed = await Promise.all(tools.map(async tool => {
+        if (!await canRun(tool.name, access)) {
+          return null;
         }
+        const missingOptional = new Set((await missingPermissions(tool, available, 'optional')).flatMap(({ missing }) => missing));
+        const effects = [...missingOptional]
+          .map(resource => OPTIONAL_RESOURCE_EFFECTS[resource])
+          .filter(Boolean);
+        return {
+          name: tool.name,
+          description: effects.length > 0
+            ? `${tool.description} (Restricted key: ${effects.join('; ')}.)`
+            : tool.description,
+          inputSchema: toInputSchema(tool.input.extend({ account: ACCOUNT_ARGUMENT })),
+          outputSchema: toOutputSchema(tool.output),
+        };
+      }));
+      return { tools: listed.filter(tool => tool !== null) };
+    });
+
+    // Register tool call handler
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
 
-        case 'get_subscriber_stats': {
-          // Validate and parse arguments
-          const schema = z.object({
-            period_days: z.number().min(1).max(365).optional().default(30),
-          });
-          const { period_days } = schema.parse(args || {});
-          
-          // Fetch all subscriptions (including canceled for churn calculation)
-          const allStatuses = ['active', 'trialing', 'past_due', 'canceled'] as const;
-          const subscriptions = await fetchAllSubscriptions(stripe, allStatuses as any);
-          
-          // Compute subscriber stats
-          const result = computeSubscriberStats(subscriptions, period_days);
-          
-          // Format as markdown
-          const markdown = subscriberStatsToMarkdown(result);
-          
+      // Count the Stripe API requests this call makes, including shared snapshot syncs
+      const usage = createRequestUsage();
+      const result = await withRequestUsage(usage, async (): Promise<CallToolResult> => {
+        try {
+          const { markdown, structuredContent } = await runTool(name, args, access);
           return {
-            content: [
-              {
-                type: 'text',
-                text: markdown,
-              },
-            ],
+            content: [{ type: 'text', text: markdown }],
+            structuredContent: structuredContent as Record<string, unknown>,
           };
-        }
-
-        case 'get_recent_changes': {
-          // Validate and parse arguments
-          const schema = z.object({
-            days: z.number().min(1).max(90).optional().default(7),
-          });
-          const { days } = schema.parse(args || {});
-          
-          // Fetch recent events
-          const events = await fetchRecentEvents(stripe, days);
-          
-          // Compute recent changes
-          const result = computeRecentChanges(events, days);
-          
-          // Format as markdown
-          const markdown = changesToMarkdown(result);
-          
+        } catch (error) {
+          // Return friendly error message
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
           return {
             content: [
               {
                 type: 'text',
-                text: markdown,
+                text: `Error: ${errorMessage}`,
               },
             ],
+            isError: true,
           };
         }
+      });
 
-        case 'get_dashboard': {
-          const [subs, canceled, events, failed] = await Promise.all([
-            fetchAllSubscriptions(stripe),
-            fetchCanceledSubscriptions(stripe, 7),
-            fetchRecentEvents(stripe, 7),
-            fetchFailedInvoices(stripe, 30),
-          ]);
-          const result = computeDashboard(subs, canceled, events, failed, 7);
-          return {
-            content: [{ type: 'text', text: dashboardToMarkdown(result) }],
-          };
-        }
+      console.error(`${access ? `${access.name} ` : ''}${name}: ${formatRequestUsage(usage)}`);
+      return { ...result, _meta: { stripeRequests: usage } };
+    });
 
-        case 'get_failed_payments': {
-          const schema = z.object({
-            days: z.number().min(1).max(90).optional().default(30),
-          });
-          const { days } = schema.parse(args || {});
-          const failedPayments = await fetchFailedInvoices(stripe, days);
-          const totalAtRisk = failedPayments.reduce((sum, fp) => sum + fp.amountCents, 0);
-          const result: FailedPaymentsResult = {
-            failedPayments,
-            totalAtRiskCents: totalAtRisk,
-            totalAtRiskFormatted: `$${(totalAtRisk / 100).toFixed(2)}`,
-            currency: 'usd',
-          };
-          return {
-            content: [{ type: 'text', text: failedPaymentsToMarkdown(result) }],
-          };
-        }
+    // Register resource handlers: the resources whose tool the key can run
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const available = await Promise.all(RESOURCES.map(resource => canRun(resource.tool, access)));
+      return {
+        resources: RESOURCES
+          .filter((_resource, index) => available[index])
+          .map(({ uri, name, description }) => ({ uri, name, description, mimeType: 'application/json' })),
+      };
+    });
 
-        case 'get_mrr_movement': {
-          const schema = z.object({
-            period_days: z.number().min(1).max(90).optional().default(7),
-          });
-          const { period_days } = schema.parse(args || {});
-          const [subs, canceled, events] = await Promise.all([
-            fetchAllSubscriptions(stripe),
-            fetchCanceledSubscriptions(stripe, period_days),
-            fetchRecentEvents(stripe, period_days),
-          ]);
-          const result = computeMrrMovement(subs, canceled, events, period_days);
-          return {
-            content: [{ type: 'text', text: mrrMovementToMarkdown(result) }],
-          };
-        }
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: await readResource(uri, access) }],
+      };
+    });
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!RESOURCES.some(resource => resource.uri === request.params.uri)) {
+        throw new Error(`Unknown resource: ${request.params.uri}`);
+      }
+      await watcher.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      watcher.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    // Register prompt handlers: report templates filled with current tool output
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: (await availablePrompts(access)).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: toPromptArguments(prompt.input.extend({ account: ACCOUNT_ARGUMENT })),
+      })),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = (await availablePrompts(access)).find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
       }
-    } catch (error) {
-      // Return friendly error message
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
+        description: prompt.description,
+        messages: [{
+          role: 'user' as const,
+          content: { type: 'text' as const, text: await renderPrompt(prompt, args, access) },
+        }],
       };
+    });
+
+    return server;
+  }
+
+  return {
+    createServer: createMcpServer,
+    close: async () => {
+      (await webhookServer)?.close();
+      flushRecorders();
+    },
+  };
+}
+
+/**
+ * Read a scope's events for the last N days.
+ * Stripe lists at most its retention window; everything read is added to the
+ * archive, and longer windows are served from the archive.
+ */
+async function readEvents(
+  scope: AccountScope,
+  days: number,
+  asOf: number = Math.floor(Date.now() / 1000)
+): Promise<NormalizedEvent[]> {
+  const liveDays = Math.min(days, STRIPE_EVENT_RETENTION_DAYS);
+  const events = await fetchRecentEvents(scope.source, liveDays, asOf);
+  scope.archive.record(events, asOf - liveDays * 86400, asOf);
+  return days > liveDays ? scope.archive.getEvents(days, asOf) : events;
+}
+
+/**
+ * First coverage warning among the scopes' archives for a window of N days.
+ */
+function coverageWarning(selected: AccountScope[], days: number, asOf: number): string | undefined {
+  for (const scope of selected) {
+    const warning = describeCoverageGap(scope.archive.coverage(), days, asOf);
+    if (warning) {
+      return scope.accountId ? `${scope.accountId}: ${warning}` : warning;
     }
-  });
+  }
+  return undefined;
+}
 
-  return server;
+/**
+ * Resources of one kind (required or optional) a tool reads that the key can't.
+ */
+function missingFor(tool: Tool, permissions: PermissionReport, kind: keyof ToolPermissions): StripeResource[] {
+  return tool.permissions[kind].filter(resource => permissions.missing.includes(resource));
+}
+
+/**
+ * Give each connected account its own snapshot file next to the configured one,
+ * e.g. "snapshot.json" → "snapshot.acct_123.json".
+ */
+function withAccountSuffix(path: string, accountId: string): string {
+  const extension = extname(path);
+  return `${path.slice(0, path.length - extension.length)}.${accountId}${extension}`;
 }
 
 /**
- * Run the server with stdio transport.
+ * Run the server with stdio transport, or streamable HTTP when options.http is set.
  * 
  * @param apiKey - Stripe secret API key
+ * @param options - Optional server configuration
  */
-export async function runServer(apiKey: string): Promise<void> {
-  const server = createServer(apiKey);
+export async function runServer(apiKey: string, options: ServerOptions = {}): Promise<void> {
+  if (options.http) {
+    const http = options.http;
+    await startHttpServer(createServerFactory(apiKey, options), http);
+    console.error(`Stripe Analytics MCP server running on http://${http.host ?? DEFAULT_HTTP_HOST}:${http.port ?? DEFAULT_HTTP_PORT}${MCP_PATH} for ${http.tokens.length} access token(s)`);
+    return;
+  }
+
+  const server = createServer(apiKey, options);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
@@ -0,0 +1,85 @@
+/**
+ * Tests for the append-only event archive.
+ * Covers: dedupe by ID, reload from file, coverage extension and gaps,
+ * coverage warnings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createEventArchive, extendCoverage, describeCoverageGap } from './events.js';
+import type { NormalizedEvent } from '../types.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+function createEvent(id: string, daysAgo: number): NormalizedEvent {
+  return {
+    id,
+    type: 'customer.subscription.updated',
+    created: now - daysAgo * DAY,
+    customerId: 'cus_1',
+    customerEmail: null,
+    subscriptionId: 'sub_1',
+    planName: 'Pro',
+    amountCents: 2000,
+    previousPlanName: 'Basic',
+    previousAmountCents: 1000,
+    currency: 'usd',
+  };
+}
+
+function archivePath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'archive-')), 'nested', 'events.jsonl');
+}
+
+describe('createEventArchive', () => {
+  it('keeps events past Stripe\'s window across restarts', () => {
+    const path = archivePath();
+    const first = createEventArchive(path);
+    // Read 29 days ago, then today: the windows overlap by a day
+    first.record([createEvent('evt_old', 45)], now - 59 * DAY, now - 29 * DAY);
+    first.record([createEvent('evt_new', 1), createEvent('evt_old', 45)], now - 30 * DAY, now);
+
+    // evt_old is written once
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines.filter(line => line.includes('evt_old'))).toHaveLength(1);
+
+    const reloaded = createEventArchive(path);
+    expect(reloaded.getEvents(90).map(e => e.id)).toEqual(['evt_new', 'evt_old']);
+    expect(reloaded.getEvents(7).map(e => e.id)).toEqual(['evt_new']);
+    expect(reloaded.coverage()).toEqual({ from: now - 59 * DAY, to: now });
+  });
+
+  it('keeps events in memory without a path', () => {
+    const archive = createEventArchive(null);
+    archive.record([createEvent('evt_1', 2)], now - 30 * DAY, now);
+    expect(archive.getEvents(30)).toHaveLength(1);
+  });
+});
+
+describe('extendCoverage', () => {
+  it('extends overlapping reads', () => {
+    expect(extendCoverage({ from: 100, to: 200 }, 150, 300)).toEqual({ from: 100, to: 300 });
+    expect(extendCoverage({ from: 100, to: 200 }, 50, 150)).toEqual({ from: 50, to: 200 });
+  });
+
+  it('restarts coverage after a gap', () => {
+    expect(extendCoverage({ from: 100, to: 200 }, 250, 300)).toEqual({ from: 250, to: 300 });
+    expect(extendCoverage(null, 250, 300)).toEqual({ from: 250, to: 300 });
+  });
+});
+
+describe('describeCoverageGap', () => {
+  it('is silent when the window is covered', () => {
+    expect(describeCoverageGap({ from: now - 100 * DAY, to: now }, 90)).toBeNull();
+  });
+
+  it('warns when the window starts before the archive', () => {
+    const warning = describeCoverageGap({ from: now - 30 * DAY, to: now }, 90);
+    expect(warning).toContain('Requested 90 days');
+    expect(warning).toContain('(30 days)');
+    expect(describeCoverageGap(null, 7)).toContain('no events yet');
+  });
+});
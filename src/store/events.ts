@@ -0,0 +1,129 @@
+/**
+ * Append-only event archive for stripe-analytics-mcp.
+ * Stripe only lists the last 30 days of events. The archive keeps every
+ * normalized event the server has read, so movement and change reports can
+ * look back further than that, as long as the server has been capturing.
+ *
+ * File format: JSON Lines. Each line is either an event or a coverage marker
+ * ({"coverage": {"from": ..., "to": ...}}); the last marker wins.
+ */
+
+import { appendFileSync, readFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { ArchiveCoverage, EventArchive, NormalizedEvent } from '../types.js';
+
+/**
+ * How far back Stripe lists events.
+ */
+export const STRIPE_EVENT_RETENTION_DAYS = 30;
+
+/**
+ * Create an event archive, loading any existing file.
+ *
+ * @param path - JSON Lines file to append to; null keeps the archive in memory
+ * @returns EventArchive
+ */
+export function createEventArchive(path: string | null): EventArchive {
+  const events = new Map<string, NormalizedEvent>();
+  let coverage: ArchiveCoverage | null = null;
+
+  if (path) {
+    for (const line of readLines(path)) {
+      const entry = JSON.parse(line) as NormalizedEvent | { coverage: ArchiveCoverage };
+      if ('coverage' in entry) {
+        coverage = entry.coverage;
+      } else {
+        events.set(entry.id, entry);
+      }
+    }
+  }
+
+  function append(lines: unknown[]): void {
+    if (!path || lines.length === 0) return;
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    } catch (error) {
+      // Keep serving from memory; the events stay in Stripe for 30 days
+      console.error(`Failed to append to event archive ${path}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    record(newEvents, from, to) {
+      const added = newEvents.filter(event => !events.has(event.id));
+      for (const event of added) {
+        events.set(event.id, event);
+      }
+      coverage = extendCoverage(coverage, from, to);
+      append([...added, { coverage }]);
+    },
+
+    getEvents(sinceDaysAgo, asOf = Math.floor(Date.now() / 1000)) {
+      const cutoff = asOf - (sinceDaysAgo * 86400);
+      return Array.from(events.values())
+        .filter(event => event.created >= cutoff)
+        .sort((a, b) => b.created - a.created);
+    },
+
+    coverage() {
+      return coverage;
+    },
+  };
+}
+
+/**
+ * Add a read of [from, to] to the archive's coverage.
+ *
+ * Rules:
+ * 1. A read that overlaps or touches the covered range extends it
+ * 2. A read starting after the covered range ends leaves a gap, so coverage
+ *    restarts at the read (events before the gap are kept but incomplete)
+ *
+ * @param coverage - Current coverage, or null for an empty archive
+ * @param from - Start of the read window (unix seconds)
+ * @param to - Time of the read (unix seconds)
+ * @returns New coverage
+ */
+export function extendCoverage(coverage: ArchiveCoverage | null, from: number, to: number): ArchiveCoverage {
+  if (coverage === null || from > coverage.to) {
+    return { from, to };
+  }
+  return { from: Math.min(coverage.from, from), to: Math.max(coverage.to, to) };
+}
+
+/**
+ * Warn when a requested window starts before the archive's coverage.
+ *
+ * @param coverage - Archive coverage, or null if nothing has been read yet
+ * @param days - Requested window in days, ending at `now`
+ * @param now - End of the window (unix seconds; default: the current time)
+ * @returns Warning sentence, or null if the window is covered
+ */
+export function describeCoverageGap(
+  coverage: ArchiveCoverage | null,
+  days: number,
+  now: number = Math.floor(Date.now() / 1000)
+): string | null {
+  const windowStart = now - days * 86400;
+  // Allow a minute of slack for the time between reading and reporting
+  if (coverage !== null && coverage.from <= windowStart + 60) {
+    return null;
+  }
+  const coveredDays = coverage === null ? 0 : Math.floor((now - coverage.from) / 86400);
+  const since = coverage === null ? 'no events yet' : `events since ${new Date(coverage.from * 1000).toISOString().split('T')[0]} (${coveredDays} days)`;
+  return `Requested ${days} days, but the event archive only covers ${since}. Changes before that are missing from these numbers.`;
+}
+
+/**
+ * Read the archive's non-empty lines; a missing file has none.
+ */
+function readLines(path: string): string[] {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch {
+    return [];
+  }
+  return raw.split('\n').filter(line => line.trim() !== '');
+}
@@ -0,0 +1,274 @@
+/**
+ * Tests for the local subscription snapshot store.
+ * Covers: merging event changes, full-sync triggers, status reporting,
+ * file round-trip and key isolation, full then incremental sync against a fake client,
+ * full syncs requested during an incremental one, webhook changes that don't
+ * postpone polling or full rebuilds.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Stripe from 'stripe';
+import {
+  createSnapshotStore,
+  mergeSubscriptionChanges,
+  needsFullSync,
+  buildSyncStatus,
+  loadSnapshot,
+  saveSnapshot,
+  fingerprintKey,
+} from './snapshot.js';
+import type { SubscriptionSnapshot } from '../types.js';
+import { createSubscription } from '../test/helpers/subscription.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+function createSnapshot(overrides: Partial<SubscriptionSnapshot> = {}): SubscriptionSnapshot {
+  return {
+    version: 7,
+    keyFingerprint: fingerprintKey('sk_test_123'),
+    subscriptions: [createSubscription({ id: 'sub_a' })],
+    cursor: now - DAY,
+    lastFullSyncAt: now - DAY,
+    lastSyncAt: now - DAY,
+    lastSyncMode: 'full',
+    lastSyncEventCount: 0,
+    lastWebhookAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Minimal raw Stripe subscription, enough for normalization.
+ */
+function rawSubscription(id: string, status: string, unitAmount: number): Stripe.Subscription {
+  return {
+    id,
+    customer: 'cus_raw',
+    status,
+    current_period_end: now + 30 * DAY,
+    canceled_at: status === 'canceled' ? now : null,
+    cancel_at: null,
+    created: now - 90 * DAY,
+    trial_end: null,
+    discounts: [],
+    currency: 'usd',
+    items: {
+      data: [
+        {
+          quantity: 1,
+          price: {
+            id: 'price_raw',
+            product: 'prod_raw',
+            nickname: null,
+            unit_amount: unitAmount,
+            recurring: { interval: 'month', interval_count: 1 },
+          },
+        },
+      ],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+/**
+ * Fake Stripe client: list() results are plain arrays, which `for await` accepts.
+ */
+function createFakeStripe(subscriptions: Stripe.Subscription[], events: Stripe.Event[]) {
+  const calls = { subscriptions: 0, events: 0 };
+  const stripe = {
+    subscriptions: { list: () => { calls.subscriptions++; return subscriptions; } },
+    events: { list: () => { calls.events++; return events; } },
+    products: { retrieve: async () => ({ name: 'Raw Product' }) },
+  } as unknown as Stripe;
+  return { stripe, calls };
+}
+
+describe('mergeSubscriptionChanges', () => {
+  it('replaces changed subscriptions and adds new ones', () => {
+    const snapshot = createSnapshot();
+    const merged = mergeSubscriptionChanges(
+      snapshot,
+      [createSubscription({ id: 'sub_a', status: 'canceled' }), createSubscription({ id: 'sub_b' })],
+      3,
+      now - 60,
+      now
+    );
+    expect(merged.subscriptions.map(s => [s.id, s.status])).toEqual([['sub_a', 'canceled'], ['sub_b', 'active']]);
+    expect(merged.cursor).toBe(now - 60);
+    expect(merged.lastSyncAt).toBe(now);
+    expect(merged.lastSyncMode).toBe('incremental');
+    expect(merged.lastSyncEventCount).toBe(3);
+    // Input is not mutated
+    expect(snapshot.subscriptions).toHaveLength(1);
+  });
+
+  it('keeps the stored email when the event payload has none', () => {
+    const merged = mergeSubscriptionChanges(
+      createSnapshot(),
+      [createSubscription({ id: 'sub_a', customerEmail: null })],
+      1,
+      now,
+      now
+    );
+    expect(merged.subscriptions[0].customerEmail).toBe('test@example.com');
+  });
+
+  it('never moves the cursor backwards', () => {
+    const merged = mergeSubscriptionChanges(createSnapshot({ cursor: now - 10 }), [], 0, null, now);
+    expect(merged.cursor).toBe(now - 10);
+  });
+});
+
+describe('needsFullSync', () => {
+  it('requires a full sync without a snapshot or with a cursor past event retention', () => {
+    expect(needsFullSync(null, now)).toBe(true);
+    expect(needsFullSync(createSnapshot({ cursor: now - 31 * DAY, lastSyncAt: now }), now)).toBe(true);
+    expect(needsFullSync(createSnapshot(), now)).toBe(false);
+  });
+});
+
+describe('buildSyncStatus', () => {
+  it('reports an unsynced store', () => {
+    const status = buildSyncStatus(null, null, now);
+    expect(status.synced).toBe(false);
+    expect(status.ageSeconds).toBeNull();
+  });
+
+  it('counts subscriptions by status and reports age', () => {
+    const snapshot = createSnapshot({
+      subscriptions: [
+        createSubscription({ id: 'sub_a' }),
+        createSubscription({ id: 'sub_b' }),
+        createSubscription({ id: 'sub_c', status: 'canceled' }),
+      ],
+    });
+    const status = buildSyncStatus(snapshot, '/tmp/snap.json', now);
+    expect(status.subscriptionCount).toBe(3);
+    expect(status.statusCounts).toEqual({ active: 2, canceled: 1 });
+    expect(status.ageSeconds).toBe(DAY);
+  });
+});
+
+describe('loadSnapshot / saveSnapshot', () => {
+  it('round-trips a snapshot and rejects other keys', () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'snapshot-')), 'nested', 'snap.json');
+    const snapshot = createSnapshot();
+    saveSnapshot(path, snapshot);
+    expect(loadSnapshot(path, fingerprintKey('sk_test_123'))).toEqual(snapshot);
+    expect(loadSnapshot(path, fingerprintKey('sk_test_other'))).toBeNull();
+  });
+
+  it('returns null for missing or corrupt files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'snapshot-'));
+    expect(loadSnapshot(join(dir, 'missing.json'), 'x')).toBeNull();
+    writeFileSync(join(dir, 'corrupt.json'), '{not json');
+    expect(loadSnapshot(join(dir, 'corrupt.json'), 'x')).toBeNull();
+  });
+});
+
+describe('createSnapshotStore', () => {
+  it('does a full sync first, then serves from memory within the interval', async () => {
+    const { stripe, calls } = createFakeStripe(
+      [rawSubscription('sub_1', 'active', 1000), rawSubscription('sub_2', 'canceled', 500)],
+      []
+    );
+    const store = createSnapshotStore(stripe, 'sk_test_123');
+
+    const active = await store.getSubscriptions();
+    const canceled = await store.getCanceledSubscriptions(7);
+    expect(active.map(s => s.id)).toEqual(['sub_1']);
+    expect(active[0].items[0].productName).toBe('Raw Product');
+    expect(canceled.map(s => s.id)).toEqual(['sub_2']);
+    expect(calls).toEqual({ subscriptions: 1, events: 0 });
+    expect(store.status().lastSyncMode).toBe('full');
+  });
+
+  it('applies subscription events on incremental syncs', async () => {
+    const event = {
+      id: 'evt_1',
+      type: 'customer.subscription.updated',
+      created: now,
+      data: { object: rawSubscription('sub_1', 'active', 3000) },
+    } as unknown as Stripe.Event;
+    const { stripe, calls } = createFakeStripe([rawSubscription('sub_1', 'active', 1000)], [event]);
+    const store = createSnapshotStore(stripe, 'sk_test_123', { minSyncIntervalSeconds: 0 });
+
+    await store.sync();
+    const [sub] = await store.getSubscriptions();
+    expect(sub.items[0].unitAmountCents).toBe(3000);
+    expect(calls).toEqual({ subscriptions: 1, events: 1 });
+    expect(store.status()).toMatchObject({ lastSyncMode: 'incremental', lastSyncEventCount: 1 });
+  });
+
+  it('runs a full sync after an in-flight incremental one instead of sharing it', async () => {
+    const { stripe, calls } = createFakeStripe([rawSubscription('sub_1', 'active', 1000)], []);
+    const store = createSnapshotStore(stripe, 'sk_test_123', { minSyncIntervalSeconds: 0 });
+    await store.sync();
+
+    const incremental = store.sync();
+    const full = store.sync({ full: true });
+    const again = store.sync({ full: true });
+    expect(full).not.toBe(incremental);
+    expect(again).toBe(full);
+
+    expect((await incremental).lastSyncMode).toBe('incremental');
+    expect((await full).lastSyncMode).toBe('full');
+    expect(calls).toEqual({ subscriptions: 2, events: 1 });
+  });
+
+  it('applies webhook changes without moving the cursor', async () => {
+    const { stripe } = createFakeStripe([rawSubscription('sub_1', 'active', 1000)], []);
+    const store = createSnapshotStore(stripe, 'sk_test_123');
+    const changes = {
+      subscriptions: [createSubscription({ id: 'sub_1' }, 4000)],
+      eventCount: 1,
+      latestEventCreated: now,
+    };
+
+    // Nothing to update before the first sync
+    expect(store.applyChanges(changes)).toBe(false);
+
+    await store.sync();
+    const cursor = store.status().cursor;
+    expect(store.applyChanges(changes)).toBe(true);
+    const [sub] = await store.getSubscriptions();
+    expect(sub.items[0].unitAmountCents).toBe(4000);
+    expect(store.status()).toMatchObject({ lastSyncMode: 'full', cursor, lastWebhookAt: now });
+  });
+
+  it('still polls on schedule and rebuilds an old cursor while webhooks arrive', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const start = Date.now();
+      const { stripe, calls } = createFakeStripe([rawSubscription('sub_1', 'active', 1000)], []);
+      const store = createSnapshotStore(stripe, 'sk_test_123', { minSyncIntervalSeconds: 3600 });
+      const changes = { subscriptions: [createSubscription({ id: 'sub_1' })], eventCount: 1, latestEventCreated: null };
+      const at = async (secondsLater: number): Promise<void> => {
+        vi.setSystemTime(start + secondsLater * 1000);
+        store.applyChanges(changes);
+        await store.getSubscriptions();
+      };
+      await store.getSubscriptions();
+
+      // A webhook every 5 minutes doesn't hold off the hourly sync
+      for (let minutes = 5; minutes < 60; minutes += 5) {
+        await at(minutes * 60);
+      }
+      expect(calls).toEqual({ subscriptions: 1, events: 0 });
+      await at(3600);
+      expect(calls).toEqual({ subscriptions: 1, events: 1 });
+
+      // No events move the cursor, so 30 days on the snapshot is rebuilt
+      await at(28 * DAY);
+      expect(calls).toEqual({ subscriptions: 1, events: 2 });
+      await at(30 * DAY);
+      expect(calls).toEqual({ subscriptions: 2, events: 2 });
+      expect(store.status().lastSyncMode).toBe('full');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
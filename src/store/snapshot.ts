@@ -0,0 +1,337 @@
+/**
+ * Local subscription snapshot store for stripe-analytics-mcp.
+ * Keeps normalized SubscriptionData in memory (and optionally in a JSON file),
+ * so tools don't re-paginate every subscription on every call. The snapshot is
+ * refreshed incrementally from customer.subscription.* events since a cursor.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type {
+  SubscriptionData,
+  SubscriptionStatus,
+  SubscriptionSnapshot,
+  SnapshotStore,
+  StoreOptions,
+  SyncStatusResult,
+  DataSource,
+} from '../types.js';
+import { fetchAllSubscriptions, fetchSubscriptionChangesSince } from '../stripe/client.js';
+
+// 4: subscriptions record cancel_at_period_end
+// 5: subscriptions record cancellation details
+// 6: subscriptions record trial start
+// 7: webhook changes recorded apart from syncs
+const SNAPSHOT_VERSION = 7;
+
+/**
+ * Stripe keeps events for 30 days. A snapshot whose event cursor is older than
+ * that may have missed changes, so it is rebuilt from scratch (with a day of margin).
+ */
+const EVENT_RETENTION_SECONDS = 29 * 86400;
+
+const DEFAULT_MIN_SYNC_INTERVAL_SECONDS = 60;
+
+const ALL_STATUSES: SubscriptionStatus[] = [
+  'active',
+  'trialing',
+  'past_due',
+  'canceled',
+  'incomplete',
+  'incomplete_expired',
+  'unpaid',
+  'paused',
+];
+
+/**
+ * Create a snapshot store backed by the given data source.
+ * The first read performs a full sync (or loads the file and syncs incrementally);
+ * later reads sync incrementally at most once per minSyncIntervalSeconds.
+ *
+ * @param source - Stripe client or other data source
+ * @param sourceKey - Identifies the account, e.g. the API key (only its hash is stored)
+ * @param options - Optional file path and sync interval
+ * @returns SnapshotStore
+ */
+export function createSnapshotStore(
+  source: DataSource,
+  sourceKey: string,
+  options: StoreOptions = {}
+): SnapshotStore {
+  const storePath = options.path ?? null;
+  const minSyncInterval = options.minSyncIntervalSeconds ?? DEFAULT_MIN_SYNC_INTERVAL_SECONDS;
+  const keyFingerprint = fingerprintKey(sourceKey);
+
+  let snapshot: SubscriptionSnapshot | null = storePath ? loadSnapshot(storePath, keyFingerprint) : null;
+  let inFlight: { full: boolean; promise: Promise<SubscriptionSnapshot> } | null = null;
+  // Full sync requested while an incremental one was running; starts once it settles
+  let queuedFull: Promise<SubscriptionSnapshot> | null = null;
+
+  async function runSync(full: boolean): Promise<SubscriptionSnapshot> {
+    const now = Math.floor(Date.now() / 1000);
+    let next: SubscriptionSnapshot;
+
+    if (full || needsFullSync(snapshot, now)) {
+      const subscriptions = await fetchAllSubscriptions(source, ALL_STATUSES);
+      next = {
+        version: SNAPSHOT_VERSION,
+        keyFingerprint,
+        subscriptions,
+        cursor: now,
+        lastFullSyncAt: now,
+        lastSyncAt: now,
+        lastSyncMode: 'full',
+        lastSyncEventCount: 0,
+        lastWebhookAt: snapshot?.lastWebhookAt ?? null,
+      };
+    } else {
+      const changes = await fetchSubscriptionChangesSince(source, snapshot!.cursor);
+      next = mergeSubscriptionChanges(
+        snapshot!,
+        changes.subscriptions,
+        changes.eventCount,
+        changes.latestEventCreated,
+        now
+      );
+    }
+
+    commit(next);
+    return next;
+  }
+
+  function commit(next: SubscriptionSnapshot): void {
+    snapshot = next;
+    if (storePath) {
+      try {
+        saveSnapshot(storePath, next);
+      } catch (error) {
+        // Keep serving from memory; the next sync will try again
+        console.error(`Failed to write snapshot to ${storePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Concurrent calls share one run. A full sync asked for while an incremental
+   * one is running is chained after it rather than answered by it, since the
+   * caller wants everything re-read.
+   */
+  function sync(syncOptions: { full?: boolean } = {}): Promise<SubscriptionSnapshot> {
+    const full = syncOptions.full ?? false;
+    if (!inFlight) {
+      const promise = runSync(full).finally(() => {
+        inFlight = null;
+      });
+      inFlight = { full, promise };
+      return promise;
+    }
+    if (full && !inFlight.full) {
+      queuedFull ??= inFlight.promise.catch(() => undefined).then(() => {
+        queuedFull = null;
+        return sync({ full: true });
+      });
+    }
+    return queuedFull ?? inFlight.promise;
+  }
+
+  async function fresh(): Promise<SubscriptionSnapshot> {
+    if (inFlight) {
+      return queuedFull ?? inFlight.promise;
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (snapshot && now - snapshot.lastSyncAt < minSyncInterval) {
+      return snapshot;
+    }
+    return sync();
+  }
+
+  return {
+    async getSubscriptions(statuses = ['active', 'trialing', 'past_due']) {
+      const current = await fresh();
+      return current.subscriptions.filter(sub => statuses.includes(sub.status));
+    },
+
+    async getCanceledSubscriptions(sinceDaysAgo, asOf = Math.floor(Date.now() / 1000)) {
+      const current = await fresh();
+      const cutoff = asOf - (sinceDaysAgo * 86400);
+      return current.subscriptions.filter(sub =>
+        sub.status === 'canceled' && sub.canceledAt !== null && sub.canceledAt >= cutoff
+      );
+    },
+
+    sync,
+
+    applyChanges(changes) {
+      // Before the first sync there is nothing to update; that sync reads everything
+      if (!snapshot) {
+        return false;
+      }
+      // The cursor and lastSyncAt stay put: events delivered out of order or
+      // not at all are still picked up by the next incremental sync, which
+      // webhooks don't postpone
+      const now = Math.floor(Date.now() / 1000);
+      commit({
+        ...snapshot,
+        subscriptions: mergeSubscriptionChanges(snapshot, changes.subscriptions, changes.eventCount, null, now).subscriptions,
+        lastWebhookAt: now,
+      });
+      return true;
+    },
+
+    status() {
+      return buildSyncStatus(snapshot, storePath, Math.floor(Date.now() / 1000));
+    },
+  };
+}
+
+/**
+ * Apply changed subscriptions to a snapshot.
+ *
+ * Rules:
+ * 1. A changed subscription replaces the stored one with the same ID, or is added
+ * 2. Event payloads don't expand the customer, so a stored email is kept when
+ *    the change has none
+ * 3. The cursor moves to the newest event seen, never backwards; events at the
+ *    cursor second are read again next time (re-applying them is harmless)
+ *
+ * @param snapshot - Current snapshot (not mutated)
+ * @param changes - Latest state of each changed subscription
+ * @param eventCount - Number of events the changes were read from
+ * @param latestEventCreated - Creation time of the newest event, or null if none
+ * @param now - Sync time (unix seconds)
+ * @returns New snapshot
+ */
+export function mergeSubscriptionChanges(
+  snapshot: SubscriptionSnapshot,
+  changes: SubscriptionData[],
+  eventCount: number,
+  latestEventCreated: number | null,
+  now: number
+): SubscriptionSnapshot {
+  const byId = new Map(snapshot.subscriptions.map(sub => [sub.id, sub]));
+  for (const change of changes) {
+    const existing = byId.get(change.id);
+    byId.set(change.id, {
+      ...change,
+      customerEmail: change.customerEmail ?? existing?.customerEmail ?? null,
+    });
+  }
+
+  return {
+    ...snapshot,
+    subscriptions: Array.from(byId.values()),
+    cursor: Math.max(snapshot.cursor, latestEventCreated ?? snapshot.cursor),
+    lastSyncAt: now,
+    lastSyncMode: 'incremental',
+    lastSyncEventCount: eventCount,
+  };
+}
+
+/**
+ * Whether a snapshot must be rebuilt with a full sync rather than updated from events.
+ * True when there is no snapshot or its event cursor is older than Stripe's
+ * event retention, so the events since the cursor can no longer all be read.
+ */
+export function needsFullSync(snapshot: SubscriptionSnapshot | null, now: number): boolean {
+  return snapshot === null || now - snapshot.cursor > EVENT_RETENTION_SECONDS;
+}
+
+/**
+ * Describe a snapshot's freshness for the sync_status tool.
+ *
+ * @param snapshot - Current snapshot, or null before the first sync
+ * @param storePath - File the snapshot is persisted to, or null
+ * @param now - Current time (unix seconds)
+ * @returns SyncStatusResult
+ */
+export function buildSyncStatus(
+  snapshot: SubscriptionSnapshot | null,
+  storePath: string | null,
+  now: number
+): SyncStatusResult {
+  if (!snapshot) {
+    return {
+      storePath,
+      synced: false,
+      subscriptionCount: 0,
+      statusCounts: {},
+      lastFullSyncAt: null,
+      lastSyncAt: null,
+      ageSeconds: null,
+      cursor: null,
+      lastSyncMode: null,
+      lastSyncEventCount: 0,
+      lastWebhookAt: null,
+    };
+  }
+
+  const statusCounts: Partial<Record<SubscriptionStatus, number>> = {};
+  for (const sub of snapshot.subscriptions) {
+    statusCounts[sub.status] = (statusCounts[sub.status] || 0) + 1;
+  }
+
+  return {
+    storePath,
+    synced: true,
+    subscriptionCount: snapshot.subscriptions.length,
+    statusCounts,
+    lastFullSyncAt: snapshot.lastFullSyncAt,
+    lastSyncAt: snapshot.lastSyncAt,
+    ageSeconds: Math.max(0, now - snapshot.lastSyncAt),
+    cursor: snapshot.cursor,
+    lastSyncMode: snapshot.lastSyncMode,
+    lastSyncEventCount: snapshot.lastSyncEventCount,
+    lastWebhookAt: snapshot.lastWebhookAt,
+  };
+}
+
+/**
+ * Load a snapshot from disk.
+ * Returns null (forcing a full sync) if the file is missing, unreadable,
+ * from another snapshot version, or was written for a different API key.
+ *
+ * @param filePath - Snapshot JSON file
+ * @param keyFingerprint - Fingerprint of the current API key
+ * @returns Snapshot, or null
+ */
+export function loadSnapshot(filePath: string, keyFingerprint: string): SubscriptionSnapshot | null {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf8');
+  } catch {
+    // No snapshot yet
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as SubscriptionSnapshot;
+    if (parsed.version !== SNAPSHOT_VERSION || parsed.keyFingerprint !== keyFingerprint || !Array.isArray(parsed.subscriptions)) {
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    console.error(`Ignoring unreadable snapshot ${filePath}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot to disk atomically (temp file + rename).
+ *
+ * @param filePath - Snapshot JSON file; parent directories are created
+ * @param snapshot - Snapshot to write
+ */
+export function saveSnapshot(filePath: string, snapshot: SubscriptionSnapshot): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(snapshot));
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Short, non-reversible fingerprint of an API key.
+ */
+export function fingerprintKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,257 @@
+/**
+ * Tests for the Stripe client.
+ * Covers: restricted key permission preflight (granted lists, "No such ..."
+ * retrieve probes, 403 permission errors, errors unrelated to permissions),
+ * tiered, volume and metered price normalization, metered usage looked up
+ * once per billing period for billed subscriptions only, event amounts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { checkPermissions, isRestrictedKey, fetchAllSubscriptions, normalizeEvents } from './client.js';
+import { createStaticSource } from './fixtures.js';
+import { computeMrr } from '../metrics/mrr.js';
+import type { DataSource } from '../types.js';
+
+/**
+ * Error shaped like the SDK's StripePermissionError.
+ */
+function permissionError(): Error {
+  return Object.assign(new Error('The provided key does not have the required permissions for this endpoint'), {
+    type: 'StripePermissionError',
+    statusCode: 403,
+  });
+}
+
+function emptySource(): DataSource {
+  return createStaticSource({ subscriptions: [], events: [], invoices: [], products: [], prices: [], customers: [] });
+}
+
+describe('isRestrictedKey', () => {
+  it('recognizes restricted keys', () => {
+    expect(isRestrictedKey('rk_live_123')).toBe(true);
+    expect(isRestrictedKey('sk_live_123')).toBe(false);
+  });
+});
+
+describe('checkPermissions', () => {
+  it('grants resources whose probe succeeds or finds no such object', async () => {
+    const report = await checkPermissions(emptySource());
+    expect(report.granted).toEqual(['subscriptions', 'events', 'invoices', 'products', 'prices', 'customers']);
+    expect(report.missing).toEqual([]);
+  });
+
+  it('reports resources that fail with a permission error', async () => {
+    const source = emptySource();
+    source.invoices = {
+      list: () => ({
+        [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(permissionError()) }),
+      }),
+    };
+    source.customers = { retrieve: () => Promise.reject(permissionError()) };
+
+    const report = await checkPermissions(source);
+    expect(report.granted).toEqual(['subscriptions', 'events', 'products', 'prices']);
+    expect(report.missing).toEqual(['invoices', 'customers']);
+  });
+
+  it('throws errors unrelated to permissions', async () => {
+    const source = emptySource();
+    source.events = {
+      list: () => ({
+        [Symbol.asyncIterator]: () => ({
+          next: () => Promise.reject(Object.assign(new Error('Invalid API Key provided'), { type: 'authentication_error' })),
+        }),
+      }),
+    };
+
+    await expect(checkPermissions(source)).rejects.toMatchObject({ type: 'authentication' });
+  });
+});
+
+/**
+ * Raw subscription with one item on the given price, as a subscription list returns it.
+ */
+function rawSubscription(id: string, price: Partial<Stripe.Price>, quantity?: number): Stripe.Subscription {
+  return {
+    id,
+    customer: 'cus_1',
+    status: 'active',
+    current_period_end: 1760000000,
+    canceled_at: null,
+    cancel_at: null,
+    created: 1750000000,
+    trial_end: null,
+    discount: null,
+    currency: 'usd',
+    items: {
+      data: [{
+        quantity,
+        price: {
+          id: 'price_1',
+          product: 'prod_1',
+          nickname: 'Usage',
+          unit_amount: null,
+          unit_amount_decimal: null,
+          billing_scheme: 'per_unit',
+          tiers_mode: null,
+          recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed' },
+          ...price,
+        },
+      }],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+function tieredPrice(tiersMode: 'graduated' | 'volume'): Stripe.Price {
+  return {
+    id: 'price_1',
+    billing_scheme: 'tiered',
+    tiers_mode: tiersMode,
+    tiers: [
+      { up_to: 10, unit_amount: 1000, unit_amount_decimal: '1000', flat_amount: 500, flat_amount_decimal: '500' },
+      { up_to: null, unit_amount: 500, unit_amount_decimal: '500', flat_amount: null, flat_amount_decimal: null },
+    ],
+  } as Stripe.Price;
+}
+
+describe('usage-based prices', () => {
+  const tiered = { billing_scheme: 'tiered' as const };
+
+  it('charges graduated tiers unit by unit', async () => {
+    const source = createStaticSource({
+      subscriptions: [rawSubscription('sub_1', { ...tiered, tiers_mode: 'graduated' }, 15)],
+      events: [], invoices: [], products: [], prices: [tieredPrice('graduated')], customers: [],
+    });
+
+    const subs = await fetchAllSubscriptions(source);
+    expect(subs[0].items[0].tiers).toHaveLength(2);
+    // 10 x $10 + $5 flat, then 5 x $5
+    expect(computeMrr(subs).totalMrrCents).toBe(10500 + 2500);
+  });
+
+  it('charges every unit at the volume tier the quantity reaches', async () => {
+    const source = createStaticSource({
+      subscriptions: [rawSubscription('sub_1', { ...tiered, tiers_mode: 'volume' }, 15)],
+      events: [], invoices: [], products: [], prices: [tieredPrice('volume')], customers: [],
+    });
+
+    expect(computeMrr(await fetchAllSubscriptions(source)).totalMrrCents).toBe(15 * 500);
+  });
+
+  it('counts tiered prices it cannot look up as zero', async () => {
+    const source = createStaticSource({
+      subscriptions: [rawSubscription('sub_1', { ...tiered, tiers_mode: 'volume' }, 15)],
+      events: [], invoices: [], products: [], prices: [], customers: [],
+    });
+
+    expect(computeMrr(await fetchAllSubscriptions(source)).totalMrrCents).toBe(0);
+  });
+
+  const metered = {
+    unit_amount_decimal: '0.5',
+    recurring: { interval: 'month', interval_count: 1, usage_type: 'metered' },
+  } as Partial<Stripe.Price>;
+  const invoice = (id: string, status: string, quantity: number, subscription = 'sub_1') => ({
+    id,
+    status,
+    subscription,
+    created: 1750000000,
+    lines: { data: [
+      { price: { id: 'price_1' }, quantity, proration: false },
+      { price: { id: 'price_1' }, quantity: 99, proration: true },
+    ] },
+  }) as unknown as Stripe.Invoice;
+
+  /**
+   * Wrap a source to count invoice list requests.
+   */
+  function countInvoiceLists(source: DataSource): { source: DataSource; lists: () => number } {
+    let lists = 0;
+    return {
+      source: { ...source, invoices: { list: params => { lists++; return source.invoices.list(params); } } },
+      lists: () => lists,
+    };
+  }
+
+  it('estimates metered usage from the last paid invoice', async () => {
+    const source = createStaticSource({
+      subscriptions: [rawSubscription('sub_1', metered), rawSubscription('sub_2', metered)],
+      events: [],
+      invoices: [invoice('in_open', 'open', 50000), invoice('in_paid', 'paid', 12000)],
+      products: [], prices: [], customers: [],
+    });
+
+    const subs = await fetchAllSubscriptions(source);
+    expect(subs.map(sub => sub.items[0].quantity)).toEqual([12000, 0]);
+    // 12,000 units at half a cent; sub_2 has no paid invoice yet
+    expect(computeMrr(subs).totalMrrCents).toBe(6000);
+  });
+
+  it('looks up usage for active and past-due subscriptions once per billing period', async () => {
+    const { source, lists } = countInvoiceLists(createStaticSource({
+      subscriptions: [
+        rawSubscription('sub_1', metered),
+        { ...rawSubscription('sub_2', metered), status: 'trialing' } as Stripe.Subscription,
+        { ...rawSubscription('sub_3', metered), status: 'canceled' } as Stripe.Subscription,
+      ],
+      events: [],
+      invoices: [invoice('in_1', 'paid', 12000), invoice('in_2', 'paid', 8000, 'sub_2'), invoice('in_3', 'paid', 4000, 'sub_3')],
+      products: [], prices: [], customers: [],
+    }));
+
+    const subs = await fetchAllSubscriptions(source, ['active', 'trialing', 'canceled']);
+    expect(subs.map(sub => sub.items[0].quantity)).toEqual([12000, 0, 0]);
+    expect(lists()).toBe(1);
+
+    await fetchAllSubscriptions(source);
+    expect(lists()).toBe(1);
+  });
+
+  it('prices event amounts like subscription items', async () => {
+    const event = (id: string, subscription: Stripe.Subscription, previous: Stripe.Subscription) => ({
+      id,
+      type: 'customer.subscription.updated',
+      created: 1750000000,
+      data: { object: subscription, previous_attributes: { items: previous.items } },
+    }) as unknown as Stripe.Event;
+    const source = createStaticSource({
+      subscriptions: [],
+      events: [],
+      invoices: [invoice('in_1', 'paid', 12000, 'sub_2')],
+      products: [], prices: [tieredPrice('volume')], customers: [],
+    });
+
+    const [volume, usage] = await normalizeEvents(source, [
+      event('evt_1', rawSubscription('sub_1', { ...tiered, tiers_mode: 'volume' }, 15), rawSubscription('sub_1', { unit_amount: 2000 }, 3)),
+      event('evt_2', rawSubscription('sub_2', metered), rawSubscription('sub_2', { unit_amount: 2000 }, 1)),
+    ]);
+    expect(volume).toMatchObject({ amountCents: 15 * 500, previousAmountCents: 6000 });
+    // 12,000 units at half a cent
+    expect(usage).toMatchObject({ amountCents: 6000, previousAmountCents: 2000 });
+  });
+});
+
+describe('cancellation details', () => {
+  it('keeps the reason, feedback and comment, and drops empty details', async () => {
+    const scheduled = {
+      ...rawSubscription('sub_1', { unit_amount: 1000 }),
+      cancel_at_period_end: true,
+      cancellation_details: { reason: 'cancellation_requested', feedback: 'too_expensive', comment: '' },
+    } as Stripe.Subscription;
+    const staying = {
+      ...rawSubscription('sub_2', { unit_amount: 1000 }),
+      cancellation_details: { reason: null, feedback: null, comment: null },
+    } as Stripe.Subscription;
+    const source = createStaticSource({
+      subscriptions: [scheduled, staying],
+      events: [], invoices: [], products: [], prices: [], customers: [],
+    });
+
+    const subs = await fetchAllSubscriptions(source);
+    expect(subs[0].cancelAtPeriodEnd).toBe(true);
+    expect(subs[0].cancellationDetails).toEqual({ reason: 'cancellation_requested', feedback: 'too_expensive', comment: null });
+    expect(subs[1].cancelAtPeriodEnd).toBe(false);
+    expect(subs[1].cancellationDetails).toBeNull();
+  });
+});
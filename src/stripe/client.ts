@@ -7,43 +7,176 @@ import Stripe from 'stripe';
 import type {
   SubscriptionData,
   NormalizedEvent,
-  StripeClientError,
   SubscriptionStatus,
   BillingInterval,
   SubscriptionItemData,
   DiscountData,
+  CancellationDetails,
   FailedPaymentInfo,
+  DataSource,
+  PermissionReport,
+  StripeResource,
+  RequestPool,
+  SubscriptionChanges,
+  PriceTier,
+  EventItems,
 } from '../types.js';
+import { computeItemAmountCents } from '../types.js';
+import { formatCents } from '../utils/money.js';
+import { mapStripeError } from './errors.js';
+import { createRequestPool } from './pool.js';
+import {
+  DEFAULT_API_VERSION,
+  validateApiVersion,
+  invoiceSubscription,
+  invoiceSubscriptionExpand,
+  invoiceSubscriptionId,
+  invoiceLinePrice,
+  isInvoicePaid,
+  isProrationLine,
+  subscriptionPeriodEnd,
+} from './versions.js';
+
+/**
+ * Every resource the tools read, in probe order.
+ */
+export const STRIPE_RESOURCES: StripeResource[] = ['subscriptions', 'events', 'invoices', 'products', 'prices', 'customers'];
+
+/**
+ * Event types the metrics read; other events are skipped when listing or receiving them.
+ */
+export const METRIC_EVENT_TYPES = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+];
+
+/**
+ * Subscriptions whose metered usage is looked up; other statuses aren't billed
+ * for usage, so their metered items count as 0.
+ */
+const METERED_USAGE_STATUSES: string[] = ['active', 'past_due'];
+
+/**
+ * IDs that never exist, used to probe retrieve permissions.
+ */
+const PERMISSION_PROBE_ID = {
+  products: 'prod_access_probe',
+  prices: 'price_access_probe',
+  customers: 'cus_access_probe',
+};
 
 /**
  * Create and configure a Stripe client instance.
  * 
- * @param apiKey - Stripe secret API key (sk_test_... or sk_live_...)
+ * @param apiKey - Stripe secret API key (sk_test_... or sk_live_...) or restricted key (rk_...)
+ * @param apiVersion - Stripe API version to request (default: DEFAULT_API_VERSION)
  * @returns Configured Stripe instance
- * @throws Error if apiKey is invalid format
+ * @throws Error if apiKey or apiVersion is invalid format
  */
-export function createStripeClient(apiKey: string): Stripe {
-  if (!apiKey || typeof apiKey !== 'string' || !apiKey.startsWith('sk_')) {
-    throw new Error('Invalid Stripe API key format. Expected key starting with sk_');
+export function createStripeClient(apiKey: string, apiVersion: string = DEFAULT_API_VERSION): Stripe {
+  if (!apiKey || typeof apiKey !== 'string' || !(apiKey.startsWith('sk_') || apiKey.startsWith('rk_'))) {
+    throw new Error('Invalid Stripe API key format. Expected key starting with sk_ or rk_');
   }
+  validateApiVersion(apiVersion);
 
   return new Stripe(apiKey, {
-    apiVersion: '2025-02-24.acacia',
+    // The SDK's types only name the version it was built for
+    apiVersion: apiVersion as Stripe.LatestApiVersion,
     typescript: true,
     maxNetworkRetries: 2,
   });
 }
 
+/**
+ * Scope a Stripe client to a Stripe Connect connected account.
+ * Every request made through the returned source carries the
+ * `Stripe-Account` header, so the fetchers below read that account's data.
+ *
+ * @param stripe - Platform Stripe client
+ * @param accountId - Connected account ID (acct_...)
+ * @returns DataSource reading from the connected account
+ * @throws Error if accountId is not a connected account ID
+ */
+export function createConnectedAccountSource(stripe: Stripe, accountId: string): DataSource {
+  if (!accountId.startsWith('acct_')) {
+    throw new Error(`Invalid connected account ID "${accountId}". Expected an ID starting with acct_`);
+  }
+  const requestOptions: Stripe.RequestOptions = { stripeAccount: accountId };
+
+  return {
+    subscriptions: { list: params => stripe.subscriptions.list(params, requestOptions) },
+    events: { list: params => stripe.events.list(params, requestOptions) },
+    invoices: { list: params => stripe.invoices.list(params, requestOptions) },
+    products: { retrieve: id => stripe.products.retrieve(id, {}, requestOptions) },
+    prices: { retrieve: (id, params) => stripe.prices.retrieve(id, params ?? {}, requestOptions) },
+    customers: { retrieve: id => stripe.customers.retrieve(id, {}, requestOptions) },
+  };
+}
+
+/**
+ * Whether an API key is a restricted key, whose permissions may not cover every tool.
+ */
+export function isRestrictedKey(apiKey: string): boolean {
+  return apiKey.startsWith('rk_');
+}
+
+/**
+ * Probe which resources a key can read, with one cheap request per resource.
+ *
+ * Rules:
+ * 1. Lists (subscriptions, events, invoices) are probed with limit 1
+ * 2. Products, prices and customers are probed by retrieving an ID that doesn't exist:
+ *    "No such product" means the key can read products, a permission error means it can't
+ * 3. Any other error (bad key, network) is thrown, since it says nothing about permissions
+ *
+ * @param source - Stripe client or connected account source
+ * @returns Granted and missing resources
+ * @throws StripeClientError on errors other than missing permissions
+ */
+export async function checkPermissions(source: DataSource): Promise<PermissionReport> {
+  const probes: Record<StripeResource, () => Promise<unknown>> = {
+    subscriptions: () => readFirst(source.subscriptions.list({ status: 'all', limit: 1 })),
+    events: () => readFirst(source.events.list({ limit: 1 })),
+    invoices: () => readFirst(source.invoices.list({ limit: 1 })),
+    products: () => source.products.retrieve(PERMISSION_PROBE_ID.products),
+    prices: () => source.prices.retrieve(PERMISSION_PROBE_ID.prices),
+    customers: () => source.customers.retrieve(PERMISSION_PROBE_ID.customers),
+  };
+
+  const granted: StripeResource[] = [];
+  const missing: StripeResource[] = [];
+  for (const resource of STRIPE_RESOURCES) {
+    try {
+      await probes[resource]();
+      granted.push(resource);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'resource_missing') {
+        granted.push(resource);
+        continue;
+      }
+      const mapped = mapStripeError(error);
+      if (mapped.type !== 'permission') {
+        throw mapped;
+      }
+      missing.push(resource);
+    }
+  }
+
+  return { checkedAt: Math.floor(Date.now() / 1000), granted, missing };
+}
+
 /**
  * Fetch all subscriptions with auto-pagination and normalize to SubscriptionData.
  * 
- * @param stripe - Stripe client instance
+ * @param source - Stripe client, or a recording/replay data source
  * @param statuses - Array of subscription statuses to filter by. Default: ['active', 'trialing', 'past_due']
  * @returns Array of normalized subscription data
  * @throws StripeClientError on API errors
  */
 export async function fetchAllSubscriptions(
-  stripe: Stripe,
+  source: DataSource,
   statuses: SubscriptionStatus[] = ['active', 'trialing', 'past_due']
 ): Promise<SubscriptionData[]> {
   try {
@@ -51,9 +184,9 @@ export async function fetchAllSubscriptions(
     const productIds = new Set<string>();
 
     // Fetch subscriptions with auto-pagination
-    for await (const subscription of stripe.subscriptions.list({
+    for await (const subscription of source.subscriptions.list({
       status: 'all', // We filter manually to support multiple statuses
-      expand: ['data.customer', 'data.discount.coupon'],
+      expand: ['data.customer', 'data.discounts', 'data.items.data.discounts'],
       limit: 100,
     })) {
       // Filter by requested statuses
@@ -78,7 +211,7 @@ export async function fetchAllSubscriptions(
 
     // Resolve product names in a batch
     if (productIds.size > 0) {
-      const productNames = await fetchProductNames(stripe, productIds);
+      const productNames = await fetchProductNames(source, productIds);
       for (const sub of subscriptions) {
         for (const item of sub.items) {
           const resolved = productNames.get(item.productName) || productNames.get(item.priceId);
@@ -91,6 +224,8 @@ export async function fetchAllSubscriptions(
       }
     }
 
+    await resolveUsageBasedPricing(source, subscriptions);
+
     return subscriptions;
   } catch (error) {
     throw mapStripeError(error);
@@ -100,13 +235,13 @@ export async function fetchAllSubscriptions(
 /**
  * Fetch subscriptions canceled in the last N days.
  * 
- * @param stripe - Stripe client instance
+ * @param source - Stripe client, or a recording/replay data source
  * @param sinceDaysAgo - Number of days to look back
  * @returns Array of normalized subscription data for canceled subscriptions
  * @throws StripeClientError on API errors
  */
 export async function fetchCanceledSubscriptions(
-  stripe: Stripe,
+  source: DataSource,
   sinceDaysAgo: number
 ): Promise<SubscriptionData[]> {
   try {
@@ -114,9 +249,9 @@ export async function fetchCanceledSubscriptions(
     const subscriptions: SubscriptionData[] = [];
     const productIds = new Set<string>();
 
-    for await (const subscription of stripe.subscriptions.list({
+    for await (const subscription of source.subscriptions.list({
       status: 'canceled',
-      expand: ['data.customer', 'data.discount.coupon'],
+      expand: ['data.customer', 'data.discounts', 'data.items.data.discounts'],
       limit: 100,
     })) {
       if (subscription.canceled_at && subscription.canceled_at >= cutoffTimestamp) {
@@ -137,7 +272,7 @@ export async function fetchCanceledSubscriptions(
 
     // Resolve product names
     if (productIds.size > 0) {
-      const productNames = await fetchProductNames(stripe, productIds);
+      const productNames = await fetchProductNames(source, productIds);
       for (const sub of subscriptions) {
         for (const item of sub.items) {
           const resolved = productNames.get(item.productName);
@@ -149,6 +284,8 @@ export async function fetchCanceledSubscriptions(
       }
     }
 
+    await resolveUsageBasedPricing(source, subscriptions);
+
     return subscriptions;
   } catch (error) {
     throw mapStripeError(error);
@@ -156,63 +293,313 @@ export async function fetchCanceledSubscriptions(
 }
 
 /**
- * Batch-fetch product names by ID.
+ * Fetch the latest state of every subscription changed since a timestamp.
+ * Reads customer.subscription.* events, whose payload is the full subscription
+ * at the time of the event, so no per-subscription lookups are needed.
+ *
+ * @param source - Stripe client, or a recording/replay data source
+ * @param since - Unix timestamp; events created at or after it are read
+ * @returns Changed subscriptions (newest state per ID), the number of events read,
+ *          and the creation time of the newest event (null if none)
+ * @throws StripeClientError on API errors
+ */
+export async function fetchSubscriptionChangesSince(
+  source: DataSource,
+  since: number
+): Promise<SubscriptionChanges> {
+  return collectSubscriptionChanges(source, source.events.list({
+    type: 'customer.subscription.*',
+    created: { gte: since },
+    limit: 100,
+  }));
+}
+
+/**
+ * Reduce customer.subscription.* events (listed, or delivered by webhook) to
+ * the latest state of each subscription, with product names resolved.
+ *
+ * @param source - Data source used to resolve product names
+ * @param events - Subscription events, in any order
+ * @returns Changed subscriptions (newest state per ID), the number of events read,
+ *          and the creation time of the newest event (null if none)
+ * @throws StripeClientError on API errors
+ */
+export async function collectSubscriptionChanges(
+  source: DataSource,
+  events: AsyncIterable<Stripe.Event> | Iterable<Stripe.Event>
+): Promise<SubscriptionChanges> {
+  try {
+    const latest = new Map<string, { created: number; subscription: SubscriptionData }>();
+    const productIds = new Set<string>();
+    let eventCount = 0;
+    let latestEventCreated: number | null = null;
+
+    // The newest event seen per subscription wins
+    for await (const event of events) {
+      eventCount++;
+      if (latestEventCreated === null || event.created > latestEventCreated) {
+        latestEventCreated = event.created;
+      }
+
+      const subscription = event.data.object as Stripe.Subscription;
+      const existing = latest.get(subscription.id);
+      if (existing && existing.created >= event.created) {
+        continue;
+      }
+
+      try {
+        const normalized = normalizeSubscription(subscription);
+        for (const item of subscription.items.data) {
+          const prodId = typeof item.price.product === 'string'
+            ? item.price.product
+            : item.price.product?.id;
+          if (prodId) productIds.add(prodId);
+        }
+        latest.set(subscription.id, { created: event.created, subscription: normalized });
+      } catch (error) {
+        console.error(`Failed to normalize subscription ${subscription.id} from event ${event.id}:`, error);
+      }
+    }
+
+    const subscriptions = Array.from(latest.values()).map(entry => entry.subscription);
+
+    // Resolve product names (event payloads never expand products)
+    if (productIds.size > 0) {
+      const productNames = await fetchProductNames(source, productIds);
+      for (const sub of subscriptions) {
+        for (const item of sub.items) {
+          const resolved = productNames.get(item.productName);
+          if (resolved) {
+            item.productName = resolved;
+            item.planName = `${resolved} (${item.interval}${item.intervalCount > 1 ? ` x${item.intervalCount}` : ''})`;
+          }
+        }
+      }
+    }
+
+    await resolveUsageBasedPricing(source, subscriptions);
+
+    return { subscriptions, eventCount, latestEventCreated };
+  } catch (error) {
+    throw mapStripeError(error);
+  }
+}
+
+/**
+ * Read at most the first object of a list (one request).
+ */
+async function readFirst<T>(objects: AsyncIterable<T>): Promise<T | null> {
+  for await (const obj of objects) {
+    return obj;
+  }
+  return null;
+}
+
+/**
+ * Lookup pool per data source, shared by every fetch (and so every tool call)
+ * reading from that source.
+ */
+const lookupPools = new WeakMap<DataSource, RequestPool>();
+
+function getLookupPool(source: DataSource): RequestPool {
+  let pool = lookupPools.get(source);
+  if (!pool) {
+    pool = createRequestPool();
+    lookupPools.set(source, pool);
+  }
+  return pool;
+}
+
+/**
+ * Batch-fetch product names by ID through the source's lookup pool.
  */
 async function fetchProductNames(
-  stripe: Stripe,
+  source: DataSource,
   productIds: Set<string>
 ): Promise<Map<string, string>> {
+  const pool = getLookupPool(source);
   const names = new Map<string, string>();
-  for (const id of productIds) {
+  await Promise.all(Array.from(productIds, async id => {
     try {
-      const product = await stripe.products.retrieve(id);
+      const product = await pool.run(`product:${id}`, () => source.products.retrieve(id));
       names.set(id, product.name);
     } catch {
       // Product may have been deleted — skip
     }
-  }
+  }));
   return names;
 }
 
 /**
- * Batch-fetch customer emails by ID.
+ * Batch-fetch customer emails by ID through the source's lookup pool.
  */
 async function fetchCustomerEmails(
-  stripe: Stripe,
+  source: DataSource,
   customerIds: Set<string>
 ): Promise<Map<string, string>> {
+  const pool = getLookupPool(source);
   const emails = new Map<string, string>();
-  for (const id of customerIds) {
+  await Promise.all(Array.from(customerIds, async id => {
     try {
-      const customer = await stripe.customers.retrieve(id);
+      const customer = await pool.run(`customer:${id}`, () => source.customers.retrieve(id));
       if ('email' in customer && customer.email) {
         emails.set(id, customer.email);
       }
     } catch {
       // Customer may have been deleted — skip
     }
-  }
+  }));
   return emails;
 }
 
+/**
+ * Fill in what a subscription list leaves out for usage-based prices.
+ *
+ * Rules:
+ * 1. Tiers can't be expanded from a subscription list, so each tiered price is
+ *    retrieved once; without access to prices its items count as 0
+ * 2. Metered items have no quantity. For active and past-due subscriptions,
+ *    usage is estimated from the last paid invoice; with no such invoice (or no
+ *    access to invoices), and for every other status, it is 0
+ * 3. Usage is looked up once per subscription and billing period (see fetchMeteredUsage)
+ */
+async function resolveUsageBasedPricing(
+  source: DataSource,
+  subscriptions: SubscriptionData[]
+): Promise<void> {
+  const meteredSubscriptions = subscriptions.filter(sub =>
+    METERED_USAGE_STATUSES.includes(sub.status) && sub.items.some(item => item.usageType === 'metered')
+  );
+
+  await Promise.all([
+    resolveTiers(source, subscriptions.flatMap(sub => sub.items)),
+    ...meteredSubscriptions.map(async sub => {
+      const usage = await fetchMeteredUsage(source, sub.id, sub.currentPeriodEnd);
+      for (const item of sub.items) {
+        if (item.usageType === 'metered') {
+          item.quantity = usage.get(item.priceId) ?? 0;
+        }
+      }
+    }),
+  ]);
+}
+
+/**
+ * Fill in the tiers of tiered items whose payload didn't carry them.
+ */
+async function resolveTiers(source: DataSource, items: SubscriptionItemData[]): Promise<void> {
+  const tieredPriceIds = new Set(items.filter(item => item.billingScheme === 'tiered' && !item.tiers).map(item => item.priceId));
+  if (tieredPriceIds.size === 0) {
+    return;
+  }
+
+  const prices = await fetchTieredPrices(source, tieredPriceIds);
+  for (const item of items) {
+    const price = prices.get(item.priceId);
+    if (item.billingScheme === 'tiered' && !item.tiers && price) {
+      item.tiersMode = price.tiers_mode;
+      item.tiers = normalizeTiers(price.tiers ?? []);
+    }
+  }
+}
+
+/**
+ * Batch-fetch tiered prices, with their tiers, through the source's lookup pool.
+ */
+async function fetchTieredPrices(
+  source: DataSource,
+  priceIds: Set<string>
+): Promise<Map<string, Stripe.Price>> {
+  const pool = getLookupPool(source);
+  const prices = new Map<string, Stripe.Price>();
+  await Promise.all(Array.from(priceIds, async id => {
+    try {
+      prices.set(id, await pool.run(`price:${id}`, () => source.prices.retrieve(id, { expand: ['tiers'] })));
+    } catch {
+      // Price may have been deleted, or the key can't read prices — skip
+    }
+  }));
+  return prices;
+}
+
+/**
+ * Metered usage per data source (so per snapshot) and subscription, with the
+ * billing period it was read in. The last paid invoice only changes when a
+ * period ends, so each sync doesn't list it again.
+ */
+const meteredUsageCaches = new WeakMap<DataSource, Map<string, { periodEnd: number; usage: Map<string, number> }>>();
+
+/**
+ * Usage per price on a subscription's last paid invoice, proration lines excluded.
+ * Read once per billing period; failed lookups are tried again next time.
+ */
+async function fetchMeteredUsage(
+  source: DataSource,
+  subscriptionId: string,
+  periodEnd: number
+): Promise<Map<string, number>> {
+  let cache = meteredUsageCaches.get(source);
+  if (!cache) {
+    cache = new Map();
+    meteredUsageCaches.set(source, cache);
+  }
+  const cached = cache.get(subscriptionId);
+  if (cached && cached.periodEnd === periodEnd) {
+    return cached.usage;
+  }
+
+  const pool = getLookupPool(source);
+  const usage = new Map<string, number>();
+  try {
+    const invoice = await pool.run(`invoice:${subscriptionId}`, () =>
+      readFirst(source.invoices.list({ subscription: subscriptionId, status: 'paid', limit: 1 }))
+    );
+    for (const line of invoice?.lines?.data ?? []) {
+      const price = invoiceLinePrice(line);
+      if (isProrationLine(line) || !price) continue;
+      const priceId = typeof price === 'string' ? price : price.id;
+      usage.set(priceId, (usage.get(priceId) ?? 0) + (line.quantity ?? 0));
+    }
+  } catch {
+    // No access to invoices, or Stripe failed — usage stays unknown
+    return usage;
+  }
+
+  // Events can carry an older period than the snapshot; keep the newest
+  if (!cached || periodEnd > cached.periodEnd) {
+    cache.set(subscriptionId, { periodEnd, usage });
+  }
+  return usage;
+}
+
 /**
  * Fetch invoices with failed payment attempts.
+ *
+ * @param source - Stripe client, or a recording/replay data source
+ * @param days - Number of days to look back
+ * @param apiVersion - API version the source returns, which decides how the
+ *                     subscription is expanded (default: DEFAULT_API_VERSION)
+ * @param asOf - Unix timestamp to look back from (default: now)
+ * @returns Failed payments, with customer emails resolved where possible
+ * @throws StripeClientError on API errors
  */
 export async function fetchFailedInvoices(
-  stripe: Stripe,
-  days: number = 30
+  source: DataSource,
+  days: number = 30,
+  apiVersion: string = DEFAULT_API_VERSION,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): Promise<FailedPaymentInfo[]> {
   try {
-    const cutoff = Math.floor(Date.now() / 1000) - (days * 86400);
+    const cutoff = asOf - (days * 86400);
     const results: FailedPaymentInfo[] = [];
     const customerIdsToResolve = new Set<string>();
 
-    for await (const invoice of stripe.invoices.list({
+    for await (const invoice of source.invoices.list({
       status: 'open',
-      expand: ['data.subscription'],
+      expand: invoiceSubscriptionExpand(apiVersion),
       limit: 100,
     })) {
-      if (invoice.attempted && !invoice.paid && invoice.created >= cutoff) {
+      if (invoice.attempted && !isInvoicePaid(invoice) && invoice.created >= cutoff) {
         const custId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id || '';
         let email: string | null = null;
         if (typeof invoice.customer === 'object' && invoice.customer && 'email' in invoice.customer) {
@@ -220,13 +607,11 @@ export async function fetchFailedInvoices(
         }
 
         let planName: string | null = null;
-        let subscriptionId: string | null = null;
-        if (invoice.subscription) {
-          subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
-          if (typeof invoice.subscription === 'object' && invoice.subscription.items?.data?.[0]) {
-            const item = invoice.subscription.items.data[0];
-            planName = item.price.nickname || item.price.id;
-          }
+        const subscription = invoiceSubscription(invoice);
+        const subscriptionId = invoiceSubscriptionId(invoice);
+        if (typeof subscription === 'object' && subscription?.items?.data?.[0]) {
+          const item = subscription.items.data[0];
+          planName = item.price.nickname || item.price.id;
         }
 
         if (!email && custId) customerIdsToResolve.add(custId);
@@ -235,7 +620,8 @@ export async function fetchFailedInvoices(
           customerEmail: email || 'No email',
           customerId: custId,
           amountCents: invoice.amount_due,
-          amountFormatted: `$${(invoice.amount_due / 100).toFixed(2)}`,
+          amountFormatted: formatCents(invoice.amount_due, invoice.currency),
+          currency: invoice.currency,
           failureReason: (invoice as any).last_finalization_error?.message || invoice.status || 'payment_failed',
           attemptCount: invoice.attempt_count || 1,
           lastAttemptDate: new Date((invoice.created) * 1000).toISOString().split('T')[0],
@@ -247,7 +633,7 @@ export async function fetchFailedInvoices(
 
     // Resolve emails
     if (customerIdsToResolve.size > 0) {
-      const emails = await fetchCustomerEmails(stripe, customerIdsToResolve);
+      const emails = await fetchCustomerEmails(source, customerIdsToResolve);
       for (const r of results) {
         if (r.customerEmail === 'No email' && emails.has(r.customerId)) {
           r.customerEmail = emails.get(r.customerId)!;
@@ -264,47 +650,41 @@ export async function fetchFailedInvoices(
 /**
  * Fetch subscription-related events from the last N days.
  *
- * @param stripe - Stripe client instance
+ * @param source - Stripe client, or a recording/replay data source
  * @param days - Number of days to look back
+ * @param asOf - Unix timestamp to look back from (default: now)
  * @returns Array of normalized events
  * @throws StripeClientError on API errors
  */
 export async function fetchRecentEvents(
-  stripe: Stripe,
-  days: number
+  source: DataSource,
+  days: number,
+  asOf: number = Math.floor(Date.now() / 1000)
 ): Promise<NormalizedEvent[]> {
   try {
-    const cutoffTimestamp = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
-    const events: NormalizedEvent[] = [];
-    const customerIdsToResolve = new Set<string>();
+    const cutoffTimestamp = asOf - (days * 24 * 60 * 60);
+    const metricEvents: Stripe.Event[] = [];
 
-    const relevantEventTypes = [
-      'customer.subscription.created',
-      'customer.subscription.updated',
-      'customer.subscription.deleted',
-      'invoice.payment_failed',
-    ];
-
-    for await (const event of stripe.events.list({
+    for await (const event of source.events.list({
       created: { gte: cutoffTimestamp },
       limit: 100,
     })) {
-      if (relevantEventTypes.includes(event.type)) {
-        try {
-          const normalized = normalizeEvent(event);
-          events.push(normalized);
-          if (!normalized.customerEmail && normalized.customerId) {
-            customerIdsToResolve.add(normalized.customerId);
-          }
-        } catch (error) {
-          console.error(`Failed to normalize event ${event.id}:`, error);
-        }
+      if (METRIC_EVENT_TYPES.includes(event.type)) {
+        metricEvents.push(event);
+      }
+    }
+
+    const events = await normalizeEvents(source, metricEvents);
+    const customerIdsToResolve = new Set<string>();
+    for (const event of events) {
+      if (!event.customerEmail && event.customerId) {
+        customerIdsToResolve.add(event.customerId);
       }
     }
 
     // Resolve customer emails for events that didn't have them expanded
     if (customerIdsToResolve.size > 0) {
-      const customerEmails = await fetchCustomerEmails(stripe, customerIdsToResolve);
+      const customerEmails = await fetchCustomerEmails(source, customerIdsToResolve);
       for (const evt of events) {
         if (!evt.customerEmail && evt.customerId) {
           evt.customerEmail = customerEmails.get(evt.customerId) || null;
@@ -335,48 +715,14 @@ function normalizeSubscription(subscription: Stripe.Subscription): SubscriptionD
     }
   }
 
-  // Extract and normalize discount
-  let discount: DiscountData | null = null;
-  if (subscription.discount) {
-    const coupon = subscription.discount.coupon;
-    discount = {
-      couponId: coupon.id,
-      percentOff: coupon.percent_off || null,
-      amountOff: coupon.amount_off || null,
-    };
-  }
+  // Extract and normalize discounts. Event payloads carry discount IDs only;
+  // for those, fall back to the single legacy `discount` object
+  const expandedDiscounts = expandedOnly(subscription.discounts);
+  const discounts = expandedDiscounts.length > 0
+    ? expandedDiscounts.map(normalizeDiscount)
+    : subscription.discount ? [normalizeDiscount(subscription.discount)] : [];
 
-  // Normalize subscription items
-  const items: SubscriptionItemData[] = subscription.items.data.map((item) => {
-    const price = item.price;
-    
-    // Extract product information
-    let productName = 'Unknown Product';
-    let planName = 'Unknown Plan';
-
-    if (typeof price.product === 'object' && price.product !== null) {
-      const product = price.product as Stripe.Product | Stripe.DeletedProduct;
-      if ('name' in product) {
-        productName = product.name || productName;
-      }
-    } else if (typeof price.product === 'string') {
-      // Product not expanded — use the ID as a fallback name
-      productName = price.product;
-    }
-
-    // Use price nickname if available, otherwise construct from product + interval
-    planName = price.nickname || `${productName} (${price.recurring?.interval || 'one-time'})`;
-
-    return {
-      priceId: price.id,
-      productName,
-      planName,
-      quantity: item.quantity || 1,
-      unitAmountCents: price.unit_amount || 0,
-      interval: (price.recurring?.interval as BillingInterval) || 'month',
-      intervalCount: price.recurring?.interval_count || 1,
-    };
-  });
+  const items = subscription.items.data.map(normalizeItem);
 
   return {
     id: subscription.id,
@@ -385,24 +731,190 @@ function normalizeSubscription(subscription: Stripe.Subscription): SubscriptionD
       : subscription.customer.id,
     customerEmail,
     status: subscription.status as SubscriptionStatus,
-    currentPeriodEnd: subscription.current_period_end,
+    currentPeriodEnd: subscriptionPeriodEnd(subscription),
     canceledAt: subscription.canceled_at,
     cancelAt: subscription.cancel_at,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end === true,
+    cancellationDetails: normalizeCancellationDetails(subscription.cancellation_details),
     createdAt: subscription.created,
+    trialStart: subscription.trial_start,
     trialEnd: subscription.trial_end,
-    discount,
+    discounts,
     currency: subscription.currency,
     items,
   };
 }
 
+/**
+ * Normalize a subscription item, from a subscription or an event payload.
+ */
+function normalizeItem(item: Stripe.SubscriptionItem): SubscriptionItemData {
+  const price = item.price;
+  
+  // Extract product information
+  let productName = 'Unknown Product';
+  let planName = 'Unknown Plan';
+
+  if (typeof price.product === 'object' && price.product !== null) {
+    const product = price.product as Stripe.Product | Stripe.DeletedProduct;
+    if ('name' in product) {
+      productName = product.name || productName;
+    }
+  } else if (typeof price.product === 'string') {
+    // Product not expanded — use the ID as a fallback name
+    productName = price.product;
+  }
+
+  // Use price nickname if available, otherwise construct from product + interval
+  planName = price.nickname || `${productName} (${price.recurring?.interval || 'one-time'})`;
+
+  // Metered items have no quantity; usage is filled in by resolveUsageBasedPricing
+  const usageType = price.recurring?.usage_type === 'metered' ? 'metered' : 'licensed';
+
+  return {
+    priceId: price.id,
+    productName,
+    planName,
+    quantity: usageType === 'metered' ? 0 : item.quantity || 1,
+    unitAmountCents: price.unit_amount ?? Number(price.unit_amount_decimal ?? 0),
+    interval: (price.recurring?.interval as BillingInterval) || 'month',
+    intervalCount: price.recurring?.interval_count || 1,
+    billingScheme: price.billing_scheme === 'tiered' ? 'tiered' : 'per_unit',
+    tiersMode: price.tiers_mode,
+    tiers: price.tiers ? normalizeTiers(price.tiers) : null,
+    usageType,
+    discounts: expandedOnly(item.discounts).map(normalizeDiscount),
+  };
+}
+
+/**
+ * Normalize why a subscription was canceled. Subscriptions that were never
+ * canceled, or predate Stripe recording reasons, have none.
+ */
+function normalizeCancellationDetails(
+  details: Stripe.Subscription.CancellationDetails | null | undefined
+): CancellationDetails | null {
+  if (!details || (!details.reason && !details.feedback && !details.comment)) {
+    return null;
+  }
+  return {
+    reason: details.reason ?? null,
+    feedback: details.feedback ?? null,
+    comment: details.comment || null,
+  };
+}
+
+/**
+ * Normalize a discount. Coupons without a duration (e.g. from CSV exports) never expire.
+ */
+function normalizeDiscount(discount: Stripe.Discount): DiscountData {
+  const coupon = discount.coupon;
+  return {
+    couponId: coupon.id,
+    percentOff: coupon.percent_off || null,
+    amountOff: coupon.amount_off || null,
+    duration: coupon.duration ?? 'forever',
+    end: discount.end ?? null,
+  };
+}
+
+/**
+ * The discounts of a list that were expanded into objects.
+ */
+function expandedOnly(discounts: (string | Stripe.Discount)[] | null | undefined): Stripe.Discount[] {
+  return (discounts ?? []).filter((discount): discount is Stripe.Discount => typeof discount === 'object' && discount !== null);
+}
+
+/**
+ * Normalize a price's tiers, preferring decimal amounts for sub-cent pricing.
+ */
+function normalizeTiers(tiers: Stripe.Price.Tier[]): PriceTier[] {
+  return tiers.map(tier => ({
+    upTo: tier.up_to,
+    unitAmountCents: tier.unit_amount ?? Number(tier.unit_amount_decimal ?? 0),
+    flatAmountCents: tier.flat_amount ?? Number(tier.flat_amount_decimal ?? 0),
+  }));
+}
+
+/**
+ * Normalize Stripe events, pricing subscription items the way subscriptions are
+ * priced (see resolveUsageBasedPricing): tiers the payload doesn't carry are
+ * looked up, and metered usage is estimated for active and past-due subscriptions.
+ * Events that can't be normalized are logged and skipped.
+ *
+ * @param source - Data source used for price and invoice lookups
+ * @param events - Raw Stripe events
+ * @returns Normalized events, in the same order
+ * @throws StripeClientError on API errors
+ */
+export async function normalizeEvents(source: DataSource, events: Stripe.Event[]): Promise<NormalizedEvent[]> {
+  const entries: { event: Stripe.Event; items: EventItems }[] = [];
+  for (const event of events) {
+    try {
+      entries.push({ event, items: subscriptionEventItems(event) });
+    } catch (error) {
+      console.error(`Failed to normalize event ${event.id}:`, error);
+    }
+  }
+
+  const items = entries.flatMap(({ items }) => [items.current, items.previous])
+    .filter((item): item is SubscriptionItemData => item !== null);
+  await Promise.all([
+    resolveTiers(source, items),
+    ...entries.map(async ({ event, items }) => {
+      const metered = [items.current, items.previous]
+        .filter((item): item is SubscriptionItemData => item?.usageType === 'metered');
+      const subscription = event.data.object as Stripe.Subscription;
+      if (metered.length === 0 || !METERED_USAGE_STATUSES.includes(subscription.status)) {
+        return;
+      }
+      const usage = await fetchMeteredUsage(source, subscription.id, subscriptionPeriodEnd(subscription));
+      for (const item of metered) {
+        item.quantity = usage.get(item.priceId) ?? 0;
+      }
+    }),
+  ]);
+
+  const normalized: NormalizedEvent[] = [];
+  for (const { event, items } of entries) {
+    try {
+      normalized.push(normalizeEvent(event, items));
+    } catch (error) {
+      console.error(`Failed to normalize event ${event.id}:`, error);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Normalize the first item of a subscription event's subscription, now and before.
+ */
+function subscriptionEventItems(event: Stripe.Event): EventItems {
+  if (!event.type.startsWith('customer.subscription')) {
+    return { current: null, previous: null };
+  }
+  const subscription = event.data.object as Stripe.Subscription;
+  const item = subscription.items?.data?.[0];
+  const previousItem = event.type === 'customer.subscription.updated'
+    ? (event.data.previous_attributes as any)?.items?.data?.[0] as Stripe.SubscriptionItem | undefined
+    : undefined;
+  return {
+    current: item ? normalizeItem(item) : null,
+    previous: previousItem?.price ? normalizeItem(previousItem) : null,
+  };
+}
+
 /**
  * Normalize a Stripe event to our NormalizedEvent type.
+ * Subscription amounts are the first item's amount per interval, priced like
+ * subscription items (see computeItemAmountCents). Without `items` from
+ * normalizeEvents, tiers come from the payload only and metered usage is 0.
  * 
  * @param event - Raw Stripe event object
+ * @param items - The event's items with tiers and metered usage resolved
  * @returns Normalized event data
  */
-function normalizeEvent(event: Stripe.Event): NormalizedEvent {
+export function normalizeEvent(event: Stripe.Event, items: EventItems = subscriptionEventItems(event)): NormalizedEvent {
   const data = event.data.object as any;
 
   let customerId: string | null = null;
@@ -412,11 +924,13 @@ function normalizeEvent(event: Stripe.Event): NormalizedEvent {
   let amountCents: number | null = null;
   let previousPlanName: string | null = null;
   let previousAmountCents: number | null = null;
+  let currency: string | null = null;
 
   // Extract event-specific data
   if (event.type.startsWith('customer.subscription')) {
     const subscription = data as Stripe.Subscription;
     subscriptionId = subscription.id;
+    currency = subscription.currency || null;
 
     // Extract customer ID and email
     if (typeof subscription.customer === 'string') {
@@ -431,20 +945,18 @@ function normalizeEvent(event: Stripe.Event): NormalizedEvent {
     
     // Extract plan information from first item
     if (subscription.items?.data?.[0]) {
-      const item = subscription.items.data[0];
-      const price = item.price;
+      const price = subscription.items.data[0].price;
       planName = price.nickname || price.id;
-      amountCents = (price.unit_amount || 0) * (item.quantity || 1);
+      amountCents = items.current ? computeItemAmountCents(items.current) : 0;
     }
 
     // For updated events, check previous attributes
     if (event.type === 'customer.subscription.updated' && event.data.previous_attributes) {
       const prev = event.data.previous_attributes as any;
       if (prev.items?.data?.[0]) {
-        const prevItem = prev.items.data[0];
-        const prevPrice = prevItem.price;
+        const prevPrice = prev.items.data[0].price;
         previousPlanName = prevPrice.nickname || prevPrice.id;
-        previousAmountCents = (prevPrice.unit_amount || 0) * (prevItem.quantity || 1);
+        previousAmountCents = items.previous ? computeItemAmountCents(items.previous) : 0;
       }
     }
   } else if (event.type === 'invoice.payment_failed') {
@@ -461,16 +973,16 @@ function normalizeEvent(event: Stripe.Event): NormalizedEvent {
       }
     }
     
-    subscriptionId = typeof invoice.subscription === 'string' 
-      ? invoice.subscription 
-      : invoice.subscription?.id || null;
+    subscriptionId = invoiceSubscriptionId(invoice);
     
     amountCents = invoice.amount_due;
+    currency = invoice.currency || null;
     
     // Extract plan name from invoice lines
     if (invoice.lines?.data?.[0]) {
       const line = invoice.lines.data[0];
-      planName = line.description || line.price?.nickname || null;
+      const price = invoiceLinePrice(line);
+      planName = line.description || (typeof price === 'object' ? price?.nickname : null) || null;
     }
   }
 
@@ -485,88 +997,6 @@ function normalizeEvent(event: Stripe.Event): NormalizedEvent {
     amountCents,
     previousPlanName,
     previousAmountCents,
-  };
-}
-
-/**
- * Map Stripe SDK errors to our StripeClientError type.
- * 
- * @param error - Error from Stripe SDK
- * @returns Structured StripeClientError
- */
-function mapStripeError(error: unknown): StripeClientError {
-  // Handle Stripe SDK errors - they inherit from Error and have a 'type' property
-  if (error instanceof Error) {
-    const errorType = (error as any).type as string | undefined;
-    const errorCode = (error as any).code as string | undefined;
-    const errorMessage = error.message;
-
-    // Authentication errors
-    if (errorType === 'authentication_error' || errorCode === 'authentication_error') {
-      return {
-        type: 'authentication',
-        message: `Authentication failed: ${errorMessage || 'Invalid API key'}`,
-        retriable: false,
-      };
-    }
-
-    // Rate limit errors
-    if (errorType === 'rate_limit' || errorCode === 'rate_limit') {
-      return {
-        type: 'rate_limit',
-        message: `Rate limit exceeded: ${errorMessage || 'Too many requests'}`,
-        retriable: true,
-      };
-    }
-
-    // Connection errors (network issues)
-    if (errorCode === 'ECONNREFUSED' || errorCode === 'ETIMEDOUT' || errorCode === 'ENOTFOUND') {
-      return {
-        type: 'api_connection',
-        message: `Connection error: ${errorMessage || 'Failed to connect to Stripe'}`,
-        retriable: true,
-      };
-    }
-
-    // Permission errors (detected by message content)
-    if (errorType === 'invalid_request_error' && errorMessage.toLowerCase().includes('permission')) {
-      return {
-        type: 'permission',
-        message: `Permission denied: ${errorMessage}`,
-        retriable: false,
-      };
-    }
-
-    // Invalid request errors
-    if (errorType === 'invalid_request_error') {
-      return {
-        type: 'invalid_request',
-        message: `Invalid request: ${errorMessage}`,
-        retriable: false,
-      };
-    }
-
-    // API errors
-    if (errorType === 'api_error') {
-      return {
-        type: 'api_error',
-        message: `Stripe API error: ${errorMessage}`,
-        retriable: true,
-      };
-    }
-
-    // Generic error fallback
-    return {
-      type: 'unknown',
-      message: errorMessage,
-      retriable: false,
-    };
-  }
-
-  // Fallback for unknown error types
-  return {
-    type: 'unknown',
-    message: 'An unknown error occurred',
-    retriable: false,
+    currency,
   };
 }
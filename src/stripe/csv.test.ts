@@ -0,0 +1,125 @@
+/**
+ * Tests for the CSV export data source.
+ * Covers: subscriptions/customers/invoices parsing, minor units, multi-item
+ * subscriptions, derived events, end-to-end computeMrr / computeChurn.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createCsvSource, loadCsvExports } from './csv.js';
+import { fetchAllSubscriptions, fetchCanceledSubscriptions, fetchFailedInvoices, fetchRecentEvents } from './client.js';
+import { computeMrr } from '../metrics/mrr.js';
+import { computeChurn } from '../metrics/churn.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+/**
+ * Format a unix timestamp the way dashboard exports do: "2026-02-15 14:03".
+ */
+function exportDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function writeExports(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'csv-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+const subscriptionsCsv = [
+  'id,Customer ID,Status,Product,Quantity,Currency,Interval,Amount,Created (UTC),Canceled At (UTC),Coupon Percent Off',
+  `sub_1,cus_a,active,Pro,1,usd,month,49.00,${exportDate(now - 90 * DAY)},,`,
+  `sub_1,cus_a,active,Seats,3,usd,month,10.00,${exportDate(now - 90 * DAY)},,`,
+  `sub_2,cus_b,active,Pro,1,usd,year,"1,200.00",${exportDate(now - 90 * DAY)},,50`,
+  `sub_3,cus_c,canceled,Pro,1,usd,month,49.00,${exportDate(now - 90 * DAY)},${exportDate(now - 5 * DAY)},`,
+].join('\n');
+
+const customersCsv = [
+  'id,Email,Name',
+  'cus_a,a@example.com,Alice',
+  'cus_b,b@example.com,Bob',
+].join('\n');
+
+const invoicesCsv = [
+  'id,Customer,Subscription,Amount Due,Currency,Status,Attempt Count,Date (UTC)',
+  `in_1,cus_a,sub_1,79.00,usd,open,2,${exportDate(now - 2 * DAY)}`,
+  `in_2,cus_b,sub_2,600.00,usd,paid,1,${exportDate(now - 2 * DAY)}`,
+].join('\n');
+
+describe('loadCsvExports', () => {
+  it('merges rows of one subscription and converts amounts to minor units', () => {
+    const data = loadCsvExports(writeExports({ 'subscriptions.csv': subscriptionsCsv }));
+    expect(data.subscriptions.map(s => s.id)).toEqual(['sub_1', 'sub_2', 'sub_3']);
+    expect(data.subscriptions[0].items.data.map(i => i.price.unit_amount)).toEqual([4900, 1000]);
+    expect(data.subscriptions[1].items.data[0].price.unit_amount).toBe(120000);
+  });
+
+  it('uses each currency\'s minor unit', () => {
+    const csv = `id,Customer ID,Status,Currency,Amount,Created (UTC)\nsub_jp,cus_a,active,jpy,4900,${exportDate(now)}`;
+    const data = loadCsvExports(writeExports({ 'subscriptions.csv': csv }));
+    expect(data.subscriptions[0].items.data[0].price.unit_amount).toBe(4900);
+  });
+
+  it('derives created, deleted and payment_failed events', () => {
+    const data = loadCsvExports(writeExports({ 'subscriptions.csv': subscriptionsCsv, 'invoices.csv': invoicesCsv }));
+    expect(data.events.map(e => e.type).sort()).toEqual([
+      'customer.subscription.created',
+      'customer.subscription.created',
+      'customer.subscription.created',
+      'customer.subscription.deleted',
+      'invoice.payment_failed',
+    ]);
+  });
+
+  it('requires subscriptions.csv and its key columns', () => {
+    expect(() => loadCsvExports(writeExports({}))).toThrow('No subscriptions.csv found');
+    const missingStatus = `id,Customer ID,Currency,Amount,Created (UTC)\nsub_1,cus_a,usd,10,${exportDate(now)}`;
+    expect(() => loadCsvExports(writeExports({ 'subscriptions.csv': missingStatus }))).toThrow('missing value for "status"');
+  });
+
+  it('rejects malformed dates', () => {
+    const csv = 'id,Customer ID,Status,Currency,Amount,Created (UTC)\nsub_1,cus_a,active,usd,10,yesterday';
+    expect(() => loadCsvExports(writeExports({ 'subscriptions.csv': csv }))).toThrow('invalid date "yesterday"');
+  });
+});
+
+describe('createCsvSource', () => {
+  const dir = writeExports({
+    'subscriptions.csv': subscriptionsCsv,
+    'customers.csv': customersCsv,
+    'invoices.csv': invoicesCsv,
+  });
+
+  it('computes MRR from exports', async () => {
+    const source = createCsvSource(dir);
+    const subs = await fetchAllSubscriptions(source);
+    expect(subs[0].customerEmail).toBe('a@example.com');
+    expect(subs[0].items[0].productName).toBe('Pro');
+    // $49 + 3 × $10 + $1,200/yr at 50% off ($50/mo)
+    expect(computeMrr(subs).totalMrrCents).toBe(12900);
+  });
+
+  it('computes churn from exports', async () => {
+    const source = createCsvSource(dir);
+    const [all, canceled] = await Promise.all([
+      fetchAllSubscriptions(source),
+      fetchCanceledSubscriptions(source, 30),
+    ]);
+    const result = computeChurn(all, canceled, 30);
+    expect(result.churnedCustomers).toBe(1);
+    expect(result.churnedMrrCents).toBe(4900);
+  });
+
+  it('serves failed invoices and derived events', async () => {
+    const source = createCsvSource(dir);
+    const failed = await fetchFailedInvoices(source, 30);
+    expect(failed.map(f => [f.customerEmail, f.amountCents])).toEqual([['a@example.com', 7900]]);
+    const events = await fetchRecentEvents(source, 7);
+    expect(events.map(e => e.type).sort()).toEqual(['customer.subscription.deleted', 'invoice.payment_failed']);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Stripe dashboard CSV exports as a data source for stripe-analytics-mcp.
+ * Turns subscriptions.csv (required), customers.csv and invoices.csv into raw
+ * Stripe-shaped objects, so the normal client normalization and metrics apply.
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type Stripe from 'stripe';
+import type { DataSource, RawStripeData } from '../types.js';
+import { parseCsv } from '../utils/csv.js';
+import { toMinorUnits } from '../utils/money.js';
+import { createStaticSource } from './fixtures.js';
+
+const SUBSCRIPTIONS_FILE = 'subscriptions.csv';
+const CUSTOMERS_FILE = 'customers.csv';
+const INVOICES_FILE = 'invoices.csv';
+
+type Row = Record<string, string>;
+
+/**
+ * Serve a directory of Stripe dashboard exports as a data source.
+ *
+ * @param dir - Directory containing subscriptions.csv and optionally customers.csv / invoices.csv
+ * @returns Read-only DataSource
+ * @throws Error if subscriptions.csv is missing or a required column or value is invalid
+ */
+export function createCsvSource(dir: string): DataSource {
+  return createStaticSource(loadCsvExports(dir));
+}
+
+/**
+ * Parse a directory of Stripe dashboard exports into raw Stripe objects.
+ *
+ * Rules:
+ * 1. Headers are matched case-insensitively, ignoring "(UTC)" and punctuation,
+ *    and common aliases are accepted (e.g. "Customer ID" or "Customer")
+ * 2. Amounts are in major units ("49.00") and converted to the currency's minor units
+ * 3. Dates are unix timestamps or "YYYY-MM-DD HH:MM[:SS]" read as UTC
+ * 4. Several rows with the same subscription ID are items of one subscription
+ * 5. Exports have no event log, so events are derived: subscription created /
+ *    deleted from its dates, and invoice.payment_failed for attempted, unpaid
+ *    open invoices. Plan changes (expansion / contraction) are not visible.
+ *
+ * @param dir - Export directory
+ * @returns RawStripeData
+ * @throws Error if subscriptions.csv is missing or a required column or value is invalid
+ */
+export function loadCsvExports(dir: string): RawStripeData {
+  const subscriptionRows = readCsv(dir, SUBSCRIPTIONS_FILE);
+  if (subscriptionRows === null) {
+    throw new Error(`No ${SUBSCRIPTIONS_FILE} found in ${dir}`);
+  }
+
+  const customers = (readCsv(dir, CUSTOMERS_FILE) ?? []).map(row => ({
+    id: requireValue(row, CUSTOMERS_FILE, 'id', 'customer_id'),
+    object: 'customer',
+    email: optionalValue(row, 'email', 'customer_email'),
+  }) as Stripe.Customer);
+  const customersById = new Map(customers.map(customer => [customer.id, customer]));
+
+  const products = new Map<string, Stripe.Product>();
+  const subscriptions = new Map<string, Stripe.Subscription>();
+  for (const row of subscriptionRows) {
+    const sub = rowToSubscription(row, customersById, products);
+    const existing = subscriptions.get(sub.id);
+    if (existing) {
+      existing.items.data.push(...sub.items.data);
+    } else {
+      subscriptions.set(sub.id, sub);
+    }
+  }
+
+  const invoices = (readCsv(dir, INVOICES_FILE) ?? []).map(rowToInvoice);
+
+  return {
+    subscriptions: Array.from(subscriptions.values()),
+    events: deriveEvents(Array.from(subscriptions.values()), invoices),
+    invoices,
+    products: Array.from(products.values()),
+    prices: [],
+    customers,
+  };
+}
+
+/**
+ * Build a raw subscription (with one item) from an export row.
+ * Registers the row's product in `products`.
+ */
+function rowToSubscription(
+  row: Row,
+  customersById: Map<string, Stripe.Customer>,
+  products: Map<string, Stripe.Product>
+): Stripe.Subscription {
+  const file = SUBSCRIPTIONS_FILE;
+  const id = requireValue(row, file, 'id', 'subscription_id');
+  const customerId = requireValue(row, file, 'customer_id', 'customer');
+  const currency = requireValue(row, file, 'currency').toLowerCase();
+  const created = parseTimestamp(requireValue(row, file, 'created', 'start', 'start_date'), file, 'created')!;
+
+  // Product: prefer an explicit name column, fall back to the ID
+  const productName = optionalValue(row, 'product_name') ?? optionalValue(row, 'product', 'product_id') ?? 'Unknown Product';
+  const productId = optionalValue(row, 'product_id', 'product') ?? productName;
+  products.set(productId, { id: productId, object: 'product', name: productName } as Stripe.Product);
+
+  const customer = customersById.get(customerId);
+  const email = optionalValue(row, 'customer_email') ?? customer?.email ?? null;
+
+  const percentOff = optionalValue(row, 'coupon_percent_off', 'percent_off');
+  const amountOff = optionalValue(row, 'coupon_amount_off', 'amount_off');
+  const couponId = optionalValue(row, 'coupon', 'coupon_id');
+
+  return {
+    id,
+    object: 'subscription',
+    customer: { id: customerId, object: 'customer', email } as Stripe.Customer,
+    status: requireValue(row, file, 'status').toLowerCase() as Stripe.Subscription.Status,
+    currency,
+    created,
+    current_period_end: parseTimestamp(optionalValue(row, 'current_period_end'), file, 'current_period_end') ?? created,
+    canceled_at: parseTimestamp(optionalValue(row, 'canceled_at', 'ended_at'), file, 'canceled_at'),
+    cancel_at: parseTimestamp(optionalValue(row, 'cancel_at'), file, 'cancel_at'),
+    cancel_at_period_end: optionalValue(row, 'cancel_at_period_end')?.toLowerCase() === 'true',
+    cancellation_details: {
+      reason: (optionalValue(row, 'cancellation_reason')?.toLowerCase() ?? null) as Stripe.Subscription.CancellationDetails.Reason | null,
+      feedback: (optionalValue(row, 'cancellation_feedback')?.toLowerCase() ?? null) as Stripe.Subscription.CancellationDetails.Feedback | null,
+      comment: optionalValue(row, 'cancellation_comment'),
+    },
+    trial_start: parseTimestamp(optionalValue(row, 'trial_start'), file, 'trial_start'),
+    trial_end: parseTimestamp(optionalValue(row, 'trial_end'), file, 'trial_end'),
+    discount: couponId || percentOff || amountOff
+      ? {
+          coupon: {
+            id: couponId ?? 'csv_coupon',
+            percent_off: percentOff ? parseNumber(percentOff, file, 'percent_off') : null,
+            amount_off: amountOff ? Math.round(toMinorUnits(parseNumber(amountOff, file, 'amount_off'), currency)) : null,
+          },
+        }
+      : null,
+    items: {
+      data: [
+        {
+          quantity: parseNumber(optionalValue(row, 'quantity') ?? '1', file, 'quantity'),
+          price: {
+            id: optionalValue(row, 'plan', 'plan_id', 'price', 'price_id') ?? `${id}_price`,
+            product: productId,
+            nickname: optionalValue(row, 'plan_nickname', 'price_nickname'),
+            unit_amount: Math.round(toMinorUnits(
+              parseNumber(requireValue(row, file, 'amount', 'plan_amount', 'price_amount', 'unit_amount'), file, 'amount'),
+              currency
+            )),
+            recurring: {
+              interval: (optionalValue(row, 'interval', 'plan_interval') ?? 'month').toLowerCase(),
+              interval_count: parseNumber(optionalValue(row, 'interval_count', 'plan_interval_count') ?? '1', file, 'interval_count'),
+            },
+          },
+        },
+      ],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+/**
+ * Build a raw invoice from an export row.
+ */
+function rowToInvoice(row: Row): Stripe.Invoice {
+  const file = INVOICES_FILE;
+  const currency = requireValue(row, file, 'currency').toLowerCase();
+  const status = requireValue(row, file, 'status').toLowerCase();
+  const attemptCount = parseNumber(optionalValue(row, 'attempt_count') ?? '0', file, 'attempt_count');
+  const paid = optionalValue(row, 'paid');
+  const attempted = optionalValue(row, 'attempted');
+
+  return {
+    id: requireValue(row, file, 'id', 'invoice_id'),
+    object: 'invoice',
+    customer: requireValue(row, file, 'customer', 'customer_id'),
+    customer_email: optionalValue(row, 'customer_email'),
+    subscription: optionalValue(row, 'subscription', 'subscription_id'),
+    status,
+    currency,
+    amount_due: Math.round(toMinorUnits(parseNumber(requireValue(row, file, 'amount_due', 'amount', 'total'), file, 'amount_due'), currency)),
+    attempt_count: attemptCount,
+    attempted: attempted !== null ? parseBoolean(attempted) : attemptCount > 0,
+    paid: paid !== null ? parseBoolean(paid) : status === 'paid',
+    created: parseTimestamp(requireValue(row, file, 'date', 'created', 'finalized_at'), file, 'date')!,
+  } as unknown as Stripe.Invoice;
+}
+
+/**
+ * Derive the events an export implies (see loadCsvExports rule 5).
+ */
+function deriveEvents(subscriptions: Stripe.Subscription[], invoices: Stripe.Invoice[]): Stripe.Event[] {
+  const events: Stripe.Event[] = [];
+  const event = (id: string, type: string, created: number, object: unknown): Stripe.Event =>
+    ({ id, object: 'event', type, created, data: { object } }) as unknown as Stripe.Event;
+
+  for (const sub of subscriptions) {
+    events.push(event(`evt_csv_${sub.id}_created`, 'customer.subscription.created', sub.created, sub));
+    if (sub.status === 'canceled' && sub.canceled_at) {
+      events.push(event(`evt_csv_${sub.id}_deleted`, 'customer.subscription.deleted', sub.canceled_at, sub));
+    }
+  }
+  for (const invoice of invoices) {
+    if (invoice.status === 'open' && invoice.attempted && !invoice.paid) {
+      events.push(event(`evt_csv_${invoice.id}_failed`, 'invoice.payment_failed', invoice.created, invoice));
+    }
+  }
+  return events;
+}
+
+/**
+ * Read and parse one export, or null if the file doesn't exist.
+ */
+function readCsv(dir: string, file: string): Row[] | null {
+  let text: string;
+  try {
+    text = readFileSync(join(dir, file), 'utf8');
+  } catch {
+    return null;
+  }
+  return parseCsv(text);
+}
+
+/**
+ * First non-empty value among the column aliases, or null.
+ */
+function optionalValue(row: Row, ...columns: string[]): string | null {
+  for (const column of columns) {
+    if (row[column]) return row[column];
+  }
+  return null;
+}
+
+/**
+ * First non-empty value among the column aliases.
+ * @throws Error naming the file and column if none is present
+ */
+function requireValue(row: Row, file: string, ...columns: string[]): string {
+  const value = optionalValue(row, ...columns);
+  if (value === null) {
+    throw new Error(`${file}: missing value for "${columns[0]}" (row ${JSON.stringify(row.id ?? row)})`);
+  }
+  return value;
+}
+
+function parseNumber(value: string, file: string, column: string): number {
+  const number = Number(value.replace(/[,\s]/g, ''));
+  if (!isFinite(number)) {
+    throw new Error(`${file}: invalid number "${value}" in column "${column}"`);
+  }
+  return number;
+}
+
+function parseBoolean(value: string): boolean {
+  return ['true', 'yes', '1'].includes(value.toLowerCase());
+}
+
+/**
+ * Parse an export date as unix seconds; dates without a timezone are UTC.
+ */
+function parseTimestamp(value: string | null, file: string, column: string): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  let iso = value.includes('T') ? value : value.replace(' ', 'T');
+  if (!/(Z|[+-]\d\d:?\d\d)$/i.test(iso) && iso.includes('T')) iso += 'Z';
+  const ms = Date.parse(iso);
+  if (isNaN(ms)) {
+    throw new Error(`${file}: invalid date "${value}" in column "${column}"`);
+  }
+  return Math.floor(ms / 1000);
+}
@@ -0,0 +1,90 @@
+/**
+ * Stripe error mapping for stripe-analytics-mcp.
+ * Turns Stripe SDK errors into structured, user-facing StripeClientErrors.
+ */
+
+import type { StripeClientError } from '../types.js';
+
+/**
+ * Map Stripe SDK errors to our StripeClientError type.
+ * 
+ * @param error - Error from Stripe SDK
+ * @returns Structured StripeClientError
+ */
+export function mapStripeError(error: unknown): StripeClientError {
+  // Handle Stripe SDK errors - they inherit from Error and have a 'type' property
+  if (error instanceof Error) {
+    const errorType = (error as any).type as string | undefined;
+    const errorCode = (error as any).code as string | undefined;
+    const errorMessage = error.message;
+
+    // Authentication errors
+    if (errorType === 'authentication_error' || errorType === 'StripeAuthenticationError' || errorCode === 'authentication_error') {
+      return {
+        type: 'authentication',
+        message: `Authentication failed: ${errorMessage || 'Invalid API key'}`,
+        retriable: false,
+      };
+    }
+
+    // Rate limit errors
+    if (errorType === 'rate_limit' || errorType === 'StripeRateLimitError' || errorCode === 'rate_limit') {
+      return {
+        type: 'rate_limit',
+        message: `Rate limit exceeded: ${errorMessage || 'Too many requests'}`,
+        retriable: true,
+      };
+    }
+
+    // Connection errors (network issues)
+    if (errorType === 'StripeConnectionError' || errorCode === 'ECONNREFUSED' || errorCode === 'ETIMEDOUT' || errorCode === 'ENOTFOUND') {
+      return {
+        type: 'api_connection',
+        message: `Connection error: ${errorMessage || 'Failed to connect to Stripe'}`,
+        retriable: true,
+      };
+    }
+
+    // Permission errors (403 from restricted keys, or detected by message content)
+    if (errorType === 'StripePermissionError' || (error as any).statusCode === 403 ||
+        (errorType === 'invalid_request_error' && errorMessage.toLowerCase().includes('permission'))) {
+      return {
+        type: 'permission',
+        message: `Permission denied: ${errorMessage}`,
+        retriable: false,
+      };
+    }
+
+    // Invalid request errors
+    if (errorType === 'invalid_request_error' || errorType === 'StripeInvalidRequestError') {
+      return {
+        type: 'invalid_request',
+        message: `Invalid request: ${errorMessage}`,
+        retriable: false,
+      };
+    }
+
+    // API errors
+    if (errorType === 'api_error' || errorType === 'StripeAPIError') {
+      return {
+        type: 'api_error',
+        message: `Stripe API error: ${errorMessage}`,
+        retriable: true,
+      };
+    }
+
+    // Generic error fallback
+    return {
+      type: 'unknown',
+      message: errorMessage,
+      retriable: false,
+    };
+  }
+
+  // Fallback for unknown error types
+  return {
+    type: 'unknown',
+    message: 'An unknown error occurred',
+    retriable: false,
+  };
+}
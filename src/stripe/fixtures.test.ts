@@ -0,0 +1,167 @@
+/**
+ * Tests for fixture recording and replay.
+ * Covers: record → replay round trip through the client functions,
+ * buffered writes, Stripe list filters, unknown IDs, missing fixture directory.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type Stripe from 'stripe';
+import { createRecordingSource, createReplaySource, readManifest } from './fixtures.js';
+import { fetchAllSubscriptions, fetchRecentEvents, fetchFailedInvoices } from './client.js';
+import type { DataSource } from '../types.js';
+
+const DAY = 86400;
+const now = Math.floor(Date.now() / 1000);
+
+function rawSubscription(id: string, status: string, unitAmount: number = 1000): Stripe.Subscription {
+  return {
+    id,
+    customer: 'cus_1',
+    status,
+    current_period_end: now + 30 * DAY,
+    canceled_at: status === 'canceled' ? now - DAY : null,
+    cancel_at: null,
+    created: now - 90 * DAY,
+    trial_end: null,
+    discount: null,
+    currency: 'usd',
+    items: {
+      data: [
+        {
+          quantity: 1,
+          price: {
+            id: 'price_1',
+            product: 'prod_1',
+            nickname: null,
+            unit_amount: unitAmount,
+            recurring: { interval: 'month', interval_count: 1 },
+          },
+        },
+      ],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+function rawEvent(id: string, type: string, daysAgo: number): Stripe.Event {
+  return {
+    id,
+    type,
+    created: now - daysAgo * DAY,
+    data: { object: rawSubscription('sub_1', 'active') },
+  } as unknown as Stripe.Event;
+}
+
+function rawInvoice(id: string, status: string): Stripe.Invoice {
+  return {
+    id,
+    status,
+    attempted: true,
+    paid: false,
+    created: now - DAY,
+    customer: 'cus_1',
+    subscription: null,
+    amount_due: 4900,
+    currency: 'usd',
+    attempt_count: 2,
+  } as unknown as Stripe.Invoice;
+}
+
+/**
+ * Fake live source backed by arrays (`for await` accepts plain arrays).
+ * Like Stripe, it applies no filters of its own here — the client filters.
+ */
+function createFakeLiveSource(): DataSource {
+  return {
+    subscriptions: { list: () => [rawSubscription('sub_1', 'active'), rawSubscription('sub_2', 'canceled')] as unknown as AsyncIterable<Stripe.Subscription> },
+    events: { list: () => [rawEvent('evt_new', 'customer.subscription.updated', 1), rawEvent('evt_old', 'customer.subscription.created', 20)] as unknown as AsyncIterable<Stripe.Event> },
+    invoices: { list: () => [rawInvoice('in_1', 'open')] as unknown as AsyncIterable<Stripe.Invoice> },
+    products: { retrieve: async id => ({ id, name: 'Pro' }) as Stripe.Product },
+    prices: { retrieve: async id => ({ id }) as Stripe.Price },
+    customers: { retrieve: async id => ({ id, email: 'a@example.com' }) as Stripe.Customer },
+  };
+}
+
+/**
+ * Record one pass of every client function into a fresh directory.
+ */
+async function recordFixtures(): Promise<string> {
+  const dir = join(mkdtempSync(join(tmpdir(), 'fixtures-')), 'acme');
+  const recorder = createRecordingSource(createFakeLiveSource(), dir);
+  await fetchAllSubscriptions(recorder, ['active', 'canceled']);
+  await fetchRecentEvents(recorder, 30);
+  await fetchFailedInvoices(recorder, 30);
+  recorder.flush();
+  return dir;
+}
+
+describe('createRecordingSource / createReplaySource', () => {
+  it('replays what was recorded through the client functions', async () => {
+    const dir = await recordFixtures();
+    expect(readManifest(dir).version).toBe(1);
+
+    const replay = createReplaySource(dir);
+    const subs = await fetchAllSubscriptions(replay, ['active', 'canceled']);
+    expect(subs.map(s => s.id)).toEqual(['sub_1', 'sub_2']);
+    expect(subs[0].items[0].productName).toBe('Pro');
+
+    const failed = await fetchFailedInvoices(replay, 30);
+    expect(failed).toHaveLength(1);
+    expect(failed[0].customerEmail).toBe('a@example.com');
+    expect(failed[0].amountFormatted).toBe('$49.00');
+  });
+
+  it('writes retrieved objects with the next list or flush, not on every read', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+    const recorder = createRecordingSource(createFakeLiveSource(), dir);
+    const readIds = (file: string) => (JSON.parse(readFileSync(join(dir, file), 'utf8')) as { id: string }[]).map(obj => obj.id);
+
+    await recorder.products.retrieve('prod_1');
+    await recorder.customers.retrieve('cus_1');
+    expect(existsSync(join(dir, 'products.json'))).toBe(false);
+
+    await fetchFailedInvoices(recorder, 30);
+    expect(readIds('products.json')).toEqual(['prod_1']);
+    expect(readIds('invoices.json')).toEqual(['in_1']);
+
+    await recorder.customers.retrieve('cus_2');
+    expect(readIds('customers.json')).toEqual(['cus_1']);
+    recorder.flush();
+    expect(readIds('customers.json')).toEqual(['cus_1', 'cus_2']);
+  });
+
+  it('applies the created range and type filters', async () => {
+    const replay = createReplaySource(await recordFixtures());
+    const events = await fetchRecentEvents(replay, 7);
+    expect(events.map(e => e.id)).toEqual(['evt_new']);
+
+    const created: string[] = [];
+    for await (const event of replay.events.list({ type: 'customer.subscription.*' })) {
+      created.push(event.id);
+    }
+    expect(created).toEqual(['evt_new', 'evt_old']);
+  });
+
+  it('follows Stripe\'s default subscription status filter', async () => {
+    const replay = createReplaySource(await recordFixtures());
+    const ids: string[] = [];
+    for await (const sub of replay.subscriptions.list()) {
+      ids.push(sub.id);
+    }
+    expect(ids).toEqual(['sub_1']);
+  });
+
+  it('fails like Stripe for unknown IDs', async () => {
+    const replay = createReplaySource(await recordFixtures());
+    await expect(replay.products.retrieve('prod_missing')).rejects.toMatchObject({
+      type: 'invalid_request_error',
+      code: 'resource_missing',
+    });
+  });
+
+  it('throws for a directory without fixtures', () => {
+    expect(() => createReplaySource(mkdtempSync(join(tmpdir(), 'fixtures-')))).toThrow('No Stripe fixtures found');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Fixture recording and replay for stripe-analytics-mcp.
+ * The recorder wraps a live data source and writes every raw subscription,
+ * event, invoice, product, price and customer it reads to a directory. The replay
+ * source serves those files back, so metrics can be reproduced offline.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type Stripe from 'stripe';
+import type { DataSource, FixtureManifest, RawStripeData, RecordingSource } from '../types.js';
+import { invoiceSubscriptionId } from './versions.js';
+
+const FIXTURE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Retrieves come in bursts (a lookup per product or customer); write once the burst is over
+const RETRIEVE_FLUSH_DELAY_MS = 1000;
+
+const FIXTURE_FILES = {
+  subscriptions: 'subscriptions.json',
+  events: 'events.json',
+  invoices: 'invoices.json',
+  products: 'products.json',
+  prices: 'prices.json',
+  customers: 'customers.json',
+} as const;
+
+type Collection = keyof typeof FIXTURE_FILES;
+
+type RawObject = { id: string };
+
+/**
+ * Wrap a data source so everything read through it is also written to `dir`.
+ * Objects are keyed by ID, so repeated reads (and earlier recordings in the
+ * same directory) are merged rather than duplicated.
+ *
+ * Writes are buffered: the collections read since the last write (and the
+ * manifest) are written once a list has been fully read, a second after the
+ * last retrieve, and on flush(). Call flush() before exiting so the last
+ * retrieves aren't lost.
+ *
+ * @param source - Live data source, usually a Stripe client
+ * @param dir - Fixture directory (created if missing)
+ * @returns RecordingSource that behaves like `source`
+ */
+export function createRecordingSource(source: DataSource, dir: string): RecordingSource {
+  mkdirSync(dir, { recursive: true });
+
+  const recorded = {} as Record<Collection, Map<string, RawObject>>;
+  for (const collection of Object.keys(FIXTURE_FILES) as Collection[]) {
+    recorded[collection] = new Map(readCollection(dir, collection).map(obj => [obj.id, obj]));
+  }
+  const unsaved = new Set<Collection>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function flush(): void {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (unsaved.size === 0) {
+      return;
+    }
+    for (const collection of unsaved) {
+      let objects = Array.from(recorded[collection].values());
+      if (collection === 'events') {
+        // Stripe lists events newest first
+        objects = (objects as Stripe.Event[]).sort((a, b) => b.created - a.created);
+      }
+      writeFileSync(join(dir, FIXTURE_FILES[collection]), JSON.stringify(objects, omitResponseMetadata, 2));
+    }
+    unsaved.clear();
+    const manifest: FixtureManifest = { version: FIXTURE_VERSION, recordedAt: Math.floor(Date.now() / 1000) };
+    writeFileSync(join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  }
+
+  async function* record<T extends RawObject>(collection: Collection, objects: AsyncIterable<T>): AsyncGenerator<T> {
+    try {
+      for await (const obj of objects) {
+        recorded[collection].set(obj.id, obj);
+        yield obj;
+      }
+    } finally {
+      // Written even when empty, so the fixtures show the list was read
+      unsaved.add(collection);
+      flush();
+    }
+  }
+
+  function keep<T extends RawObject>(collection: Collection, obj: T): T {
+    recorded[collection].set(obj.id, obj);
+    unsaved.add(collection);
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, RETRIEVE_FLUSH_DELAY_MS);
+      flushTimer.unref();
+    }
+    return obj;
+  }
+
+  return {
+    subscriptions: { list: params => record('subscriptions', source.subscriptions.list(params)) },
+    events: { list: params => record('events', source.events.list(params)) },
+    invoices: { list: params => record('invoices', source.invoices.list(params)) },
+    products: { retrieve: async id => keep('products', await source.products.retrieve(id)) },
+    prices: { retrieve: async (id, params) => keep('prices', await source.prices.retrieve(id, params)) },
+    customers: { retrieve: async id => keep('customers', await source.customers.retrieve(id)) },
+    flush,
+  };
+}
+
+/**
+ * Serve a recorded fixture directory as a data source (see createStaticSource).
+ * Lists are served as recorded; the server answers replayed calls as of manifest.recordedAt.
+ *
+ * @param dir - Directory written by createRecordingSource
+ * @returns Read-only DataSource
+ * @throws Error if the directory has no manifest or is from another fixture version
+ */
+export function createReplaySource(dir: string): DataSource {
+  const manifest = readManifest(dir);
+  if (manifest.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${manifest.version} in ${dir} (expected ${FIXTURE_VERSION})`);
+  }
+
+  return createStaticSource({
+    subscriptions: readCollection(dir, 'subscriptions') as Stripe.Subscription[],
+    events: readCollection(dir, 'events') as Stripe.Event[],
+    invoices: readCollection(dir, 'invoices') as Stripe.Invoice[],
+    products: readCollection(dir, 'products') as Stripe.Product[],
+    prices: readCollection(dir, 'prices') as Stripe.Price[],
+    customers: readCollection(dir, 'customers') as (Stripe.Customer | Stripe.DeletedCustomer)[],
+  });
+}
+
+/**
+ * Serve raw Stripe objects held in memory as a data source.
+ * List filters the client functions use (subscription status, event type and
+ * created range, invoice status and subscription) are applied; everything else is ignored.
+ *
+ * @param data - Raw objects; events may be in any order
+ * @returns Read-only DataSource
+ */
+export function createStaticSource(data: RawStripeData): DataSource {
+  const events = [...data.events].sort((a, b) => b.created - a.created);
+
+  return {
+    subscriptions: {
+      list: (params = {}) => replay(data.subscriptions.filter(sub =>
+        matchesSubscriptionStatus(sub.status, params.status) && matchesRange(sub.created, params.created)
+      )),
+    },
+    events: {
+      list: (params = {}) => replay(events.filter(event =>
+        matchesEventType(event.type, params.type, params.types) && matchesRange(event.created, params.created)
+      )),
+    },
+    invoices: {
+      list: (params = {}) => replay(data.invoices.filter(invoice =>
+        (params.status === undefined || invoice.status === params.status) &&
+        (params.subscription === undefined || invoiceSubscriptionId(invoice) === params.subscription) &&
+        matchesRange(invoice.created, params.created)
+      )),
+    },
+    products: { retrieve: async id => findById(data.products, id, 'product') },
+    prices: { retrieve: async id => findById(data.prices, id, 'price') },
+    customers: { retrieve: async id => findById(data.customers, id, 'customer') },
+  };
+}
+
+/**
+ * Read a fixture directory's manifest.
+ *
+ * @param dir - Fixture directory
+ * @returns FixtureManifest
+ * @throws Error if the manifest is missing or malformed
+ */
+export function readManifest(dir: string): FixtureManifest {
+  try {
+    return JSON.parse(readFileSync(join(dir, MANIFEST_FILE), 'utf8')) as FixtureManifest;
+  } catch (error) {
+    throw new Error(`No Stripe fixtures found in ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read one recorded collection; a missing file is an empty collection.
+ */
+function readCollection(dir: string, collection: Collection): RawObject[] {
+  let raw: string;
+  try {
+    raw = readFileSync(join(dir, FIXTURE_FILES[collection]), 'utf8');
+  } catch {
+    return [];
+  }
+  return JSON.parse(raw) as RawObject[];
+}
+
+async function* replay<T>(objects: T[]): AsyncGenerator<T> {
+  yield* objects;
+}
+
+/**
+ * Stripe's status filter: omitted means every status except canceled.
+ */
+function matchesSubscriptionStatus(status: string, filter: string | undefined): boolean {
+  if (filter === undefined) return status !== 'canceled';
+  if (filter === 'all') return true;
+  return status === filter;
+}
+
+/**
+ * Stripe's event type filter: exact name, or a group with a trailing `*`.
+ */
+function matchesEventType(type: string, filter: string | undefined, filters: string[] | undefined): boolean {
+  const patterns = filters ?? (filter !== undefined ? [filter] : []);
+  if (patterns.length === 0) return true;
+  return patterns.some(pattern =>
+    pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+  );
+}
+
+function matchesRange(value: number, range: Stripe.RangeQueryParam | number | undefined): boolean {
+  if (range === undefined) return true;
+  if (typeof range === 'number') return value === range;
+  return (range.gt === undefined || value > range.gt) &&
+    (range.gte === undefined || value >= range.gte) &&
+    (range.lt === undefined || value < range.lt) &&
+    (range.lte === undefined || value <= range.lte);
+}
+
+/**
+ * Look up a recorded object, failing the way Stripe does for unknown IDs.
+ */
+function findById<T extends RawObject>(objects: T[], id: string, kind: string): T {
+  const found = objects.find(obj => obj.id === id);
+  if (!found) {
+    throw Object.assign(new Error(`No such ${kind}: '${id}'`), {
+      type: 'invalid_request_error',
+      code: 'resource_missing',
+    });
+  }
+  return found;
+}
+
+/**
+ * JSON replacer that drops the SDK's HTTP response metadata.
+ */
+function omitResponseMetadata(key: string, value: unknown): unknown {
+  return key === 'lastResponse' ? undefined : value;
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for the lookup request pool and per-call request accounting.
+ * Covers: concurrency bound, in-flight deduplication, retries of retriable
+ * errors only, list page counting, attribution to the calling tool call.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { createRequestPool } from './pool.js';
+import { createCountingSource, createRequestUsage, withRequestUsage, formatRequestUsage } from './usage.js';
+import { createStaticSource } from './fixtures.js';
+import { fetchAllSubscriptions } from './client.js';
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+function rateLimitError(): Error {
+  return Object.assign(new Error('Too many requests'), { type: 'StripeRateLimitError', statusCode: 429 });
+}
+
+function rawSubscription(id: string, product: string): Stripe.Subscription {
+  return {
+    id,
+    customer: 'cus_1',
+    status: 'active',
+    current_period_end: 0,
+    canceled_at: null,
+    cancel_at: null,
+    created: 0,
+    trial_end: null,
+    discount: null,
+    currency: 'usd',
+    items: { data: [{ quantity: 1, price: { id: 'price_1', product, nickname: null, unit_amount: 1000, recurring: { interval: 'month', interval_count: 1 } } }] },
+  } as unknown as Stripe.Subscription;
+}
+
+describe('createRequestPool', () => {
+  it('runs at most `concurrency` requests at once', async () => {
+    const pool = createRequestPool({ concurrency: 2 });
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = Promise.all(gates.map((gate, i) => pool.run(`key_${i}`, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await gate.promise;
+      running--;
+      return i;
+    })));
+    gates.forEach(gate => gate.resolve());
+
+    expect(await results).toEqual([0, 1, 2]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('shares an in-flight request with the same key', async () => {
+    const pool = createRequestPool();
+    let calls = 0;
+    const request = async (): Promise<string> => {
+      calls++;
+      return 'Pro';
+    };
+
+    const [a, b] = await Promise.all([pool.run('product:prod_1', request), pool.run('product:prod_1', request)]);
+    expect([a, b]).toEqual(['Pro', 'Pro']);
+    expect(calls).toBe(1);
+
+    // Once settled, the key is requested again
+    await pool.run('product:prod_1', request);
+    expect(calls).toBe(2);
+  });
+
+  it('retries retriable errors and gives up on the rest', async () => {
+    const pool = createRequestPool({ retryDelayMs: 1, maxRetries: 2 });
+
+    let rateLimited = 0;
+    const value = await pool.run('a', async () => {
+      if (rateLimited++ < 2) throw rateLimitError();
+      return 'ok';
+    });
+    expect(value).toBe('ok');
+    expect(rateLimited).toBe(3);
+
+    let missing = 0;
+    await expect(pool.run('b', async () => {
+      missing++;
+      throw Object.assign(new Error('No such product'), { type: 'StripeInvalidRequestError', code: 'resource_missing' });
+    })).rejects.toMatchObject({ code: 'resource_missing' });
+    expect(missing).toBe(1);
+
+    await expect(pool.run('c', async () => { throw rateLimitError(); })).rejects.toThrow('Too many requests');
+  });
+});
+
+describe('createCountingSource / withRequestUsage', () => {
+  it('counts list pages and lookups made for a tool call', async () => {
+    const source = createCountingSource(createStaticSource({
+      subscriptions: Array.from({ length: 150 }, (_, i) => rawSubscription(`sub_${i}`, `prod_${i % 3}`)),
+      events: [],
+      invoices: [],
+      products: [0, 1, 2].map(i => ({ id: `prod_${i}`, name: `Plan ${i}` }) as Stripe.Product),
+      prices: [],
+      customers: [],
+    }));
+
+    const usage = createRequestUsage();
+    const subs = await withRequestUsage(usage, () => fetchAllSubscriptions(source));
+
+    expect(subs).toHaveLength(150);
+    expect(usage.byResource).toEqual({ subscriptions: 2, products: 3 });
+    expect(usage.requests).toBe(5);
+    expect(formatRequestUsage(usage)).toBe('5 Stripe API requests (subscriptions 2, products 3)');
+  });
+
+  it('attributes a shared lookup to the call that made it', async () => {
+    const gate = deferred<Stripe.Product>();
+    const source = createCountingSource(createStaticSource({
+      subscriptions: [rawSubscription('sub_1', 'prod_slow')],
+      events: [],
+      invoices: [],
+      products: [],
+      prices: [],
+      customers: [],
+    }));
+    source.products = { retrieve: () => gate.promise };
+
+    const first = createRequestUsage();
+    const second = createRequestUsage();
+    const calls = Promise.all([
+      withRequestUsage(first, () => fetchAllSubscriptions(source)),
+      withRequestUsage(second, () => fetchAllSubscriptions(source)),
+    ]);
+    setTimeout(() => gate.resolve({ id: 'prod_slow', name: 'Slow' } as Stripe.Product), 10);
+    const [a, b] = await calls;
+
+    expect(a[0].items[0].productName).toBe('Slow');
+    expect(b[0].items[0].productName).toBe('Slow');
+    expect(first.deduplicated + second.deduplicated).toBe(1);
+  });
+});
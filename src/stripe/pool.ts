@@ -0,0 +1,110 @@
+/**
+ * Bounded-concurrency request pool for stripe-analytics-mcp.
+ * Runs product and customer lookups a few at a time instead of one by one,
+ * retries what Stripe reports as retriable, and backs off the whole pool when
+ * Stripe rate-limits a request.
+ */
+
+import type { RequestPool, RequestPoolOptions } from '../types.js';
+import { mapStripeError } from './errors.js';
+import { recordDeduplicated, recordRetry } from './usage.js';
+
+// Well under Stripe's read limits (100/s live, 25/s test) for typical latencies
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/**
+ * Create a request pool.
+ *
+ * Rules:
+ * 1. At most `concurrency` requests run at once; the rest wait in order
+ * 2. A request with the same key as one in flight shares its result
+ * 3. Errors whose StripeClientError is retriable are retried up to `maxRetries`
+ *    times, waiting retryDelayMs, 2×, 4×, ... between attempts
+ * 4. A rate-limit error pauses every request in the pool for that delay
+ * 5. The original error is rethrown once retries run out, or if it isn't retriable
+ *
+ * @param options - Optional concurrency and retry settings
+ * @returns RequestPool
+ */
+export function createRequestPool(options: RequestPoolOptions = {}): RequestPool {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  const inFlight = new Map<string, Promise<unknown>>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  let pausedUntil = 0;
+
+  async function acquire(): Promise<void> {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+
+  function release(): void {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  }
+
+  async function attempt<T>(request: () => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+      }
+      try {
+        return await request();
+      } catch (error) {
+        const mapped = mapStripeError(error);
+        if (!mapped.retriable || retry >= maxRetries) {
+          throw error;
+        }
+        const delay = retryDelayMs * 2 ** retry;
+        if (mapped.type === 'rate_limit') {
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        }
+        recordRetry();
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    run<T>(key: string, request: () => Promise<T>): Promise<T> {
+      const existing = inFlight.get(key);
+      if (existing) {
+        recordDeduplicated();
+        return existing as Promise<T>;
+      }
+
+      const promise = (async () => {
+        await acquire();
+        try {
+          return await attempt(request);
+        } finally {
+          release();
+        }
+      })();
+      inFlight.set(key, promise);
+      const forget = (): void => {
+        inFlight.delete(key);
+      };
+      promise.then(forget, forget);
+      return promise;
+    },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,124 @@
+/**
+ * Per-tool-call Stripe API request accounting for stripe-analytics-mcp.
+ * A tool call runs inside withRequestUsage; every request made through a
+ * counting source while it runs (including from the shared snapshot store and
+ * lookup pools) is added to that call's RequestUsage.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { DataSource, RequestUsage, StripeResource } from '../types.js';
+
+// Stripe's page size when a list doesn't pass `limit`
+const DEFAULT_PAGE_SIZE = 10;
+
+const usageStorage = new AsyncLocalStorage<RequestUsage>();
+
+/**
+ * Create an empty usage record.
+ */
+export function createRequestUsage(): RequestUsage {
+  return { requests: 0, byResource: {}, retries: 0, deduplicated: 0 };
+}
+
+/**
+ * Run `fn`, adding the requests it makes to `usage`.
+ *
+ * @param usage - Usage record to add to (mutated)
+ * @param fn - Work to track
+ * @returns Whatever `fn` returns
+ */
+export function withRequestUsage<T>(usage: RequestUsage, fn: () => Promise<T>): Promise<T> {
+  return usageStorage.run(usage, fn);
+}
+
+/**
+ * Count one request against the current tool call, if any.
+ */
+export function recordRequest(resource: StripeResource): void {
+  const usage = usageStorage.getStore();
+  if (usage) {
+    usage.requests++;
+    usage.byResource[resource] = (usage.byResource[resource] ?? 0) + 1;
+  }
+}
+
+/**
+ * Count a retry against the current tool call, if any.
+ */
+export function recordRetry(): void {
+  const usage = usageStorage.getStore();
+  if (usage) {
+    usage.retries++;
+  }
+}
+
+/**
+ * Count a lookup that shared another call's in-flight request.
+ */
+export function recordDeduplicated(): void {
+  const usage = usageStorage.getStore();
+  if (usage) {
+    usage.deduplicated++;
+  }
+}
+
+/**
+ * Wrap a data source so each request it makes is counted.
+ * Auto-paginated lists make one request per page: one for the first `limit`
+ * objects, one for each further `limit`, and one for an empty list.
+ *
+ * @param source - Live data source
+ * @returns DataSource that behaves like `source`
+ */
+export function createCountingSource(source: DataSource): DataSource {
+  async function* countPages<T>(resource: StripeResource, limit: number | undefined, objects: AsyncIterable<T>): AsyncGenerator<T> {
+    const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+    let index = 0;
+    for await (const obj of objects) {
+      if (index % pageSize === 0) {
+        recordRequest(resource);
+      }
+      index++;
+      yield obj;
+    }
+    if (index === 0) {
+      recordRequest(resource);
+    }
+  }
+
+  return {
+    subscriptions: { list: params => countPages('subscriptions', params?.limit, source.subscriptions.list(params)) },
+    events: { list: params => countPages('events', params?.limit, source.events.list(params)) },
+    invoices: { list: params => countPages('invoices', params?.limit, source.invoices.list(params)) },
+    products: {
+      retrieve: id => {
+        recordRequest('products');
+        return source.products.retrieve(id);
+      },
+    },
+    prices: {
+      retrieve: (id, params) => {
+        recordRequest('prices');
+        return source.prices.retrieve(id, params);
+      },
+    },
+    customers: {
+      retrieve: id => {
+        recordRequest('customers');
+        return source.customers.retrieve(id);
+      },
+    },
+  };
+}
+
+/**
+ * Summarize usage for logs, e.g. "14 Stripe API requests (subscriptions 3, products 11; 1 retry)".
+ */
+export function formatRequestUsage(usage: RequestUsage): string {
+  const parts = Object.entries(usage.byResource).map(([resource, count]) => `${resource} ${count}`);
+  const extras: string[] = [];
+  if (usage.retries > 0) extras.push(`${usage.retries} ${usage.retries === 1 ? 'retry' : 'retries'}`);
+  if (usage.deduplicated > 0) extras.push(`${usage.deduplicated} shared`);
+  const detail = [parts.join(', '), extras.join(', ')].filter(Boolean).join('; ');
+  return `${usage.requests} Stripe API request${usage.requests !== 1 ? 's' : ''}${detail ? ` (${detail})` : ''}`;
+}
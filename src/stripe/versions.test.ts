@@ -0,0 +1,105 @@
+/**
+ * Tests for API version compatibility.
+ * Covers: version validation, expansions per version, subscriptions and
+ * failed payments normalized from pre- and post-2025-03-31 shapes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type Stripe from 'stripe';
+import { validateApiVersion, usesInvoiceParents, invoiceSubscriptionExpand } from './versions.js';
+import { fetchAllSubscriptions, fetchFailedInvoices } from './client.js';
+import { createStaticSource } from './fixtures.js';
+import type { DataSource } from '../types.js';
+
+const now = Math.floor(Date.now() / 1000);
+
+function rawSubscription(periodEnds: { subscription?: number; items?: number[] }): Stripe.Subscription {
+  return {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'active',
+    current_period_end: periodEnds.subscription,
+    canceled_at: null,
+    cancel_at: null,
+    created: now - 86400,
+    trial_end: null,
+    currency: 'usd',
+    items: {
+      data: (periodEnds.items ?? [undefined]).map(end => ({
+        current_period_end: end,
+        quantity: 1,
+        price: { id: 'price_1', product: 'prod_1', nickname: 'Pro', unit_amount: 2000, recurring: { interval: 'month', interval_count: 1 } },
+      })),
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+function rawInvoice(shape: 'acacia' | 'basil'): Stripe.Invoice {
+  const subscription = { id: 'sub_1', items: { data: [{ price: { id: 'price_1', nickname: 'Pro' } }] } };
+  return {
+    id: 'in_1',
+    customer: 'cus_1',
+    customer_email: null,
+    status: 'open',
+    attempted: true,
+    attempt_count: 2,
+    amount_due: 2000,
+    currency: 'usd',
+    created: now - 3600,
+    ...(shape === 'acacia'
+      ? { paid: false, subscription }
+      : { parent: { type: 'subscription_details', subscription_details: { subscription } } }),
+  } as unknown as Stripe.Invoice;
+}
+
+describe('validateApiVersion', () => {
+  it('accepts dated versions and rejects anything else', () => {
+    expect(validateApiVersion('2025-03-31.basil')).toBe('2025-03-31.basil');
+    expect(() => validateApiVersion('latest')).toThrow('Invalid Stripe API version');
+  });
+
+  it('switches invoice expansion at 2025-03-31', () => {
+    expect(usesInvoiceParents('2025-02-24.acacia')).toBe(false);
+    expect(usesInvoiceParents('2025-03-31.basil')).toBe(true);
+    expect(invoiceSubscriptionExpand('2025-02-24.acacia')).toEqual(['data.subscription']);
+    expect(invoiceSubscriptionExpand('2025-06-30.basil')).toEqual(['data.parent.subscription_details.subscription']);
+  });
+});
+
+describe('subscriptions across API versions', () => {
+  const source = (subscription: Stripe.Subscription) => createStaticSource({
+    subscriptions: [subscription], events: [], invoices: [], products: [], prices: [], customers: [],
+  });
+
+  it('reads the billing period from the subscription or, when newer versions move it, its items', async () => {
+    const [old] = await fetchAllSubscriptions(source(rawSubscription({ subscription: now + 100 })));
+    const [moved] = await fetchAllSubscriptions(source(rawSubscription({ items: [now + 300, now + 200] })));
+    expect(old.currentPeriodEnd).toBe(now + 100);
+    expect(moved.currentPeriodEnd).toBe(now + 200);
+  });
+});
+
+describe('failed payments across API versions', () => {
+  it.each(['2025-02-24.acacia', '2025-03-31.basil'] as const)('normalizes %s invoices', async apiVersion => {
+    const requested: Stripe.InvoiceListParams[] = [];
+    const invoice = rawInvoice(apiVersion.endsWith('acacia') ? 'acacia' : 'basil');
+    const source = {
+      invoices: {
+        list: (params: Stripe.InvoiceListParams) => {
+          requested.push(params);
+          return [invoice];
+        },
+      },
+      customers: { retrieve: async (id: string) => ({ id, email: 'a@example.com' }) },
+    } as unknown as DataSource;
+
+    const [failed] = await fetchFailedInvoices(source, 30, apiVersion);
+    expect(requested[0].expand).toEqual(invoiceSubscriptionExpand(apiVersion));
+    expect(failed).toMatchObject({
+      subscriptionId: 'sub_1',
+      planName: 'Pro',
+      customerEmail: 'a@example.com',
+      attemptCount: 2,
+    });
+  });
+});
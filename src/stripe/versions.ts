@@ -0,0 +1,124 @@
+/**
+ * Stripe API version compatibility for stripe-analytics-mcp.
+ * The client pins an API version, but the account's default version (which
+ * shapes webhook payloads) and recorded fixtures may be newer. From
+ * 2025-03-31.basil on, Stripe moved billing periods from subscriptions to
+ * subscription items, and moved an invoice's subscription and a line's price
+ * under `parent` and `pricing`. The readers below accept both shapes, so
+ * normalization doesn't depend on which version produced an object.
+ */
+
+import type Stripe from 'stripe';
+
+/**
+ * API version the client uses unless configured otherwise.
+ */
+export const DEFAULT_API_VERSION = '2025-02-24.acacia';
+
+/**
+ * First API version with item-level billing periods and invoice parents.
+ */
+export const INVOICE_PARENTS_API_VERSION = '2025-03-31.basil';
+
+const API_VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}(\.[a-z]+)?$/;
+
+// Fields newer API versions use in place of the ones they removed. The SDK's
+// types describe DEFAULT_API_VERSION, so these are read structurally.
+
+interface ItemBillingPeriod {
+  current_period_end?: number;
+}
+
+interface InvoiceParent {
+  parent?: {
+    subscription_details?: { subscription?: string | Stripe.Subscription } | null;
+  } | null;
+}
+
+interface InvoiceLinePricing {
+  pricing?: { price_details?: { price?: string | Stripe.Price } | null } | null;
+  parent?: {
+    subscription_item_details?: { proration?: boolean } | null;
+  } | null;
+}
+
+/**
+ * Check an API version string, e.g. "2025-03-31.basil".
+ *
+ * @param apiVersion - Version to check
+ * @returns The version, unchanged
+ * @throws Error if it isn't a Stripe API version
+ */
+export function validateApiVersion(apiVersion: string): string {
+  if (!API_VERSION_PATTERN.test(apiVersion)) {
+    throw new Error(`Invalid Stripe API version "${apiVersion}". Expected a version like ${DEFAULT_API_VERSION}`);
+  }
+  return apiVersion;
+}
+
+/**
+ * Whether an API version returns invoices with `parent` instead of `subscription`.
+ */
+export function usesInvoiceParents(apiVersion: string): boolean {
+  return apiVersion.slice(0, 10) >= INVOICE_PARENTS_API_VERSION.slice(0, 10);
+}
+
+/**
+ * Expansions for listing invoices with their subscriptions.
+ */
+export function invoiceSubscriptionExpand(apiVersion: string): string[] {
+  return usesInvoiceParents(apiVersion)
+    ? ['data.parent.subscription_details.subscription']
+    : ['data.subscription'];
+}
+
+/**
+ * End of a subscription's current billing period.
+ * Newer versions only set it per item; the earliest item's end is used, which
+ * is when the subscription next bills.
+ */
+export function subscriptionPeriodEnd(subscription: Stripe.Subscription): number {
+  if (typeof subscription.current_period_end === 'number') {
+    return subscription.current_period_end;
+  }
+  const itemEnds = (subscription.items?.data ?? [])
+    .map(item => (item as ItemBillingPeriod).current_period_end)
+    .filter((end): end is number => typeof end === 'number');
+  return itemEnds.length > 0 ? Math.min(...itemEnds) : subscription.created;
+}
+
+/**
+ * The subscription an invoice bills, as an ID or expanded object.
+ */
+export function invoiceSubscription(invoice: Stripe.Invoice): string | Stripe.Subscription | null {
+  return invoice.subscription ?? (invoice as InvoiceParent).parent?.subscription_details?.subscription ?? null;
+}
+
+/**
+ * The ID of the subscription an invoice bills.
+ */
+export function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoiceSubscription(invoice);
+  return typeof subscription === 'string' ? subscription : subscription?.id ?? null;
+}
+
+/**
+ * Whether an invoice has been paid. Newer versions drop `paid` in favor of status.
+ */
+export function isInvoicePaid(invoice: Stripe.Invoice): boolean {
+  return typeof invoice.paid === 'boolean' ? invoice.paid : invoice.status === 'paid';
+}
+
+/**
+ * The price an invoice line bills, or null for lines without one.
+ */
+export function invoiceLinePrice(line: Stripe.InvoiceLineItem): Stripe.Price | string | null {
+  return line.price ?? (line as InvoiceLinePricing).pricing?.price_details?.price ?? null;
+}
+
+/**
+ * Whether an invoice line is a proration adjustment.
+ */
+export function isProrationLine(line: Stripe.InvoiceLineItem): boolean {
+  return line.proration ?? (line as InvoiceLinePricing).parent?.subscription_item_details?.proration ?? false;
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for webhook ingestion.
+ * Covers: signature verification, accepted / rejected deliveries over HTTP,
+ * failed storage, wrong path and method, oversized and unreadable bodies.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import type { AddressInfo } from 'node:net';
+import type { IncomingMessage, ServerResponse, Server as HttpServer } from 'node:http';
+import Stripe from 'stripe';
+import { verifyWebhookEvent, startWebhookServer, createWebhookListener } from './webhooks.js';
+
+const SECRET = 'whsec_test_secret';
+
+const payload = JSON.stringify({
+  id: 'evt_1',
+  object: 'event',
+  type: 'customer.subscription.created',
+  created: 1760000000,
+  data: { object: { id: 'sub_1', object: 'subscription' } },
+});
+
+function sign(body: string, secret: string = SECRET): string {
+  return Stripe.webhooks.generateTestHeaderString({ payload: body, secret });
+}
+
+describe('verifyWebhookEvent', () => {
+  it('returns the event for a valid signature', () => {
+    expect(verifyWebhookEvent(payload, sign(payload), SECRET).id).toBe('evt_1');
+  });
+
+  it('rejects a missing or wrong signature', () => {
+    expect(() => verifyWebhookEvent(payload, undefined, SECRET)).toThrow('Missing Stripe-Signature header');
+    expect(() => verifyWebhookEvent(payload, sign(payload, 'whsec_other'), SECRET)).toThrow();
+  });
+});
+
+describe('startWebhookServer', () => {
+  let httpServer: HttpServer | null = null;
+
+  afterEach(() => {
+    httpServer?.close();
+    httpServer = null;
+  });
+
+  async function start(onEvent: (event: Stripe.Event) => Promise<void>): Promise<string> {
+    httpServer = await startWebhookServer({ secret: SECRET, port: 0 }, onEvent);
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  it('passes verified events on and acknowledges them', async () => {
+    const received: string[] = [];
+    const url = await start(async event => {
+      received.push(event.id);
+    });
+
+    const response = await fetch(`${url}/webhooks`, {
+      method: 'POST',
+      headers: { 'Stripe-Signature': sign(payload) },
+      body: payload,
+    });
+
+    expect(response.status).toBe(200);
+    expect(received).toEqual(['evt_1']);
+  });
+
+  it('rejects deliveries that fail verification', async () => {
+    const received: string[] = [];
+    const url = await start(async event => {
+      received.push(event.id);
+    });
+
+    const response = await fetch(`${url}/webhooks`, {
+      method: 'POST',
+      headers: { 'Stripe-Signature': sign(payload, 'whsec_other') },
+      body: payload,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: expect.stringContaining('verification failed') });
+    expect(received).toEqual([]);
+  });
+
+  it('answers 500 when the event cannot be stored, so Stripe retries', async () => {
+    const url = await start(async () => {
+      throw new Error('disk full');
+    });
+
+    const response = await fetch(`${url}/webhooks`, {
+      method: 'POST',
+      headers: { 'Stripe-Signature': sign(payload) },
+      body: payload,
+    });
+    expect(response.status).toBe(500);
+  });
+
+  it('only accepts POST on the webhook path', async () => {
+    const url = await start(async () => {});
+    expect((await fetch(`${url}/other`, { method: 'POST', body: payload })).status).toBe(404);
+    expect((await fetch(`${url}/webhooks`)).status).toBe(405);
+  });
+
+  it('answers 413 only to bodies over the size limit', async () => {
+    const url = await start(async () => {});
+    const response = await fetch(`${url}/webhooks`, { method: 'POST', body: 'x'.repeat(1024 * 1024 + 1) });
+    expect(response.status).toBe(413);
+  });
+});
+
+describe('createWebhookListener', () => {
+  it('answers 400 when the body cannot be read', async () => {
+    const request = Object.assign(new PassThrough(), { url: '/webhooks', method: 'POST', headers: {} });
+    const response = { writeHead: vi.fn(), end: vi.fn() };
+    createWebhookListener({ secret: SECRET }, async () => {})(
+      request as unknown as IncomingMessage,
+      response as unknown as ServerResponse
+    );
+
+    request.destroy(new Error('aborted'));
+    await vi.waitFor(() => expect(response.writeHead).toHaveBeenCalledWith(400, expect.anything()));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Webhook ingestion for stripe-analytics-mcp.
+ * A small HTTP endpoint that verifies the Stripe-Signature header of each
+ * delivery and hands verified events to a callback, so metrics can stay
+ * current without polling the events API.
+ */
+
+import { createServer as createHttpServer, type RequestListener, type Server as HttpServer } from 'node:http';
+import Stripe from 'stripe';
+import { readBody, BodyTooLargeError } from '../utils/http.js';
+import type { WebhookOptions } from '../types.js';
+
+export const DEFAULT_WEBHOOK_PORT = 4242;
+export const DEFAULT_WEBHOOK_PATH = '/webhooks';
+
+// Stripe's own payloads are well under this; anything larger isn't a webhook
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Verify a webhook delivery and parse its event.
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param signature - Stripe-Signature header
+ * @param secret - Endpoint signing secret (whsec_...)
+ * @returns Verified event
+ * @throws Error if the signature is missing, invalid, or too old
+ */
+export function verifyWebhookEvent(payload: string | Buffer, signature: string | undefined, secret: string): Stripe.Event {
+  if (!signature) {
+    throw new Error('Missing Stripe-Signature header');
+  }
+  return Stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+/**
+ * Create the request listener for the webhook endpoint.
+ *
+ * Rules:
+ * 1. Only POST to the configured path is accepted (404 / 405 otherwise)
+ * 2. An unverifiable delivery gets 400, so a misconfigured secret is visible
+ *    in the Stripe dashboard rather than silently dropped
+ * 3. A verified event is passed to onEvent; if onEvent fails the response is
+ *    500 and Stripe retries the delivery later
+ * 4. A body over the size limit gets 413; one that can't be read (e.g. the
+ *    connection was aborted) gets 400
+ *
+ * @param options - Signing secret and path
+ * @param onEvent - Called once per verified event
+ * @returns Node HTTP request listener
+ */
+export function createWebhookListener(
+  options: WebhookOptions,
+  onEvent: (event: Stripe.Event) => Promise<void>
+): RequestListener {
+  const path = options.path ?? DEFAULT_WEBHOOK_PATH;
+
+  return (request, response) => {
+    const reply = (status: number, body: Record<string, unknown>): void => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (new URL(request.url ?? '/', 'http://localhost').pathname !== path) {
+      reply(404, { error: 'Not found' });
+      return;
+    }
+    if (request.method !== 'POST') {
+      reply(405, { error: 'Method not allowed' });
+      return;
+    }
+
+    readBody(request, MAX_BODY_BYTES)
+      .then(async body => {
+        let event: Stripe.Event;
+        try {
+          event = verifyWebhookEvent(body, request.headers['stripe-signature'] as string | undefined, options.secret);
+        } catch (error) {
+          reply(400, { error: `Webhook signature verification failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+          return;
+        }
+        try {
+          await onEvent(event);
+          reply(200, { received: true });
+        } catch (error) {
+          console.error(`Failed to store webhook event ${event.id}:`, error instanceof Error ? error.message : error);
+          reply(500, { error: 'Failed to store event' });
+        }
+      })
+      .catch(error => {
+        const status = error instanceof BodyTooLargeError ? 413 : 400;
+        reply(status, { error: error instanceof Error ? error.message : 'Invalid request body' });
+      });
+  };
+}
+
+/**
+ * Start the webhook endpoint on localhost.
+ *
+ * @param options - Port, path and signing secret
+ * @param onEvent - Called once per verified event
+ * @returns Listening HTTP server
+ */
+export function startWebhookServer(
+  options: WebhookOptions,
+  onEvent: (event: Stripe.Event) => Promise<void>
+): Promise<HttpServer> {
+  const httpServer = createHttpServer(createWebhookListener(options, onEvent));
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? DEFAULT_WEBHOOK_PORT, '127.0.0.1', () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
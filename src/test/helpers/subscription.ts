@@ -0,0 +1,43 @@
+/**
+ * Shared SubscriptionData factory for tests.
+ * An active single-item $10/month USD subscription created 90 days ago;
+ * tests override only what they exercise.
+ */
+
+import type { SubscriptionData } from '../../types.js';
+
+const DAY = 86400;
+
+export function createSubscription(
+  overrides: Partial<SubscriptionData> & { id: string },
+  unitAmountCents: number = 1000
+): SubscriptionData {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    customerId: 'cus_test',
+    customerEmail: 'test@example.com',
+    status: 'active',
+    currentPeriodEnd: now + 30 * DAY,
+    canceledAt: null,
+    cancelAt: null,
+    cancelAtPeriodEnd: false,
+    cancellationDetails: null,
+    createdAt: now - 90 * DAY,
+    trialStart: null,
+    trialEnd: null,
+    discounts: [],
+    currency: 'usd',
+    items: [
+      {
+        priceId: 'price_test',
+        productName: 'Test Product',
+        planName: 'Test Plan',
+        quantity: 1,
+        unitAmountCents,
+        interval: 'month',
+        intervalCount: 1,
+      },
+    ],
+    ...overrides,
+  };
+}
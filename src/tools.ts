@@ -0,0 +1,411 @@
+/**
+ * Tool registry for stripe-analytics-mcp.
+ * Each tool is declared once: its zod input schema, the Stripe resources it
+ * reads, a fetch step (snapshot, events, invoices), a pure compute step from
+ * metrics/ and a markdown formatter. The server derives the tool list, JSON
+ * Schemas, permission checks and calls from these declarations.
+ */
+
+import { z } from 'zod';
+import { computeMrr } from './metrics/mrr.js';
+import { computeChurn } from './metrics/churn.js';
+import { computeRevenueByPlan } from './metrics/plans.js';
+import { computeSubscriberStats } from './metrics/subscribers.js';
+import { computeRecentChanges } from './metrics/changes.js';
+import { computeDashboard, computeMrrMovement, summarizeFailedPayments } from './metrics/dashboard.js';
+import { computeMrrHistory } from './metrics/history.js';
+import { computeConsolidatedMrr, computeConsolidatedMovement } from './metrics/accounts.js';
+import { computeCohortRetention } from './metrics/cohorts.js';
+import { computeRevenueRetention } from './metrics/retention.js';
+import { computeTopCustomers } from './metrics/customers.js';
+import { computeDiscountCliff } from './metrics/discounts.js';
+import { computePendingCancellations } from './metrics/cancellations.js';
+import { computeTrialConversion } from './metrics/trials.js';
+import {
+  mrrResultSchema,
+  churnResultSchema,
+  revenueByPlanResultSchema,
+  subscriberStatsSchema,
+  recentChangesResultSchema,
+  dashboardOutputSchema,
+  failedPaymentsResultSchema,
+  mrrMovementResultSchema,
+  mrrHistoryResultSchema,
+  cohortRetentionResultSchema,
+  revenueRetentionResultSchema,
+  topCustomersResultSchema,
+  discountCliffResultSchema,
+  pendingCancellationsResultSchema,
+  trialConversionResultSchema,
+  syncStatusOutputSchema,
+} from './schemas.js';
+import {
+  mrrToMarkdown,
+  churnToMarkdown,
+  planBreakdownToMarkdown,
+  subscriberStatsToMarkdown,
+  changesToMarkdown,
+  dashboardToMarkdown,
+  failedPaymentsToMarkdown,
+  mrrMovementToMarkdown,
+  mrrHistoryToMarkdown,
+  cohortRetentionToMarkdown,
+  revenueRetentionToMarkdown,
+  topCustomersToMarkdown,
+  discountCliffToMarkdown,
+  pendingCancellationsToMarkdown,
+  trialConversionToMarkdown,
+  syncStatusToMarkdown,
+} from './utils/format.js';
+import type {
+  Tool,
+  ToolDefinition,
+  ToolPermissions,
+  SubscriptionStatus,
+  SubscriptionData,
+  NormalizedEvent,
+  AccountData,
+  AccountSubscriptions,
+} from './types.js';
+
+// Tools reading the subscription snapshot need subscriptions (with customers
+// expanded) and events for incremental syncs; product names, tiered prices and
+// metered usage (from invoices) are nice to have
+export const SNAPSHOT_PERMISSIONS: ToolPermissions = {
+  required: ['subscriptions', 'customers', 'events'],
+  optional: ['products', 'prices', 'invoices'],
+};
+
+/**
+ * `account` argument every tool takes.
+ */
+export const ACCOUNT_ARGUMENT = z.string().optional().describe(
+  'Connected account ID (acct_...) to read, or "all" to consolidate every configured account (default: all). Requires the server to be started with connected accounts.'
+);
+
+// What get_mrr_movement reads: each connected account's data when consolidating
+type MovementData = { coverageWarning: string | undefined } & (
+  | { accounts: AccountData[] }
+  | { subscriptions: SubscriptionData[]; canceled: SubscriptionData[]; events: NormalizedEvent[] }
+);
+
+// Statuses for tools that look at subscriptions over time, canceled ones included
+const HISTORY_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due', 'canceled'];
+
+/**
+ * Whole-number argument between 1 and `max` with a default, e.g. a period in days.
+ * The range and default are appended to the description.
+ */
+function count(description: string, defaultValue: number, max: number, note?: string) {
+  return z.number().min(1).max(max).optional().default(defaultValue)
+    .describe(`${description} (default: ${defaultValue}, min: 1, max: ${max})${note ? `. ${note}` : ''}`);
+}
+
+/**
+ * Turn a tool declaration into a tool the server can list and call.
+ * Arguments are parsed with the input schema; unknown ones (like `account`)
+ * are dropped before the fetch step sees them.
+ */
+export function defineTool<Input extends z.ZodObject, Data, Result>(
+  definition: ToolDefinition<Input, Data, Result>
+): Tool {
+  return {
+    name: definition.name,
+    description: definition.description,
+    input: definition.input,
+    output: definition.output,
+    permissions: definition.permissions,
+    async run(context, args) {
+      const parsed = definition.input.parse(args ?? {});
+      const data = await definition.fetch(context, parsed);
+      const result = definition.compute(data, parsed, context);
+      return {
+        markdown: definition.format(result),
+        structuredContent: definition.structuredContent?.(result) ?? (result as object),
+      };
+    },
+  };
+}
+
+/**
+ * The built-in tools, in the order they are listed.
+ */
+export const TOOLS: Tool[] = [
+  defineTool({
+    name: 'get_mrr',
+    description: 'Compute current Monthly Recurring Revenue (MRR) from active Stripe subscriptions. Normalizes annual/weekly/daily subscriptions to monthly amounts, applies discounts, and excludes trials. Returns total MRR, subscription count, and status breakdown.',
+    input: z.object({}),
+    output: mrrResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    // With a per-account breakdown when consolidating connected accounts
+    fetch: async (context): Promise<{ accounts: AccountSubscriptions[] } | { subscriptions: SubscriptionData[] }> => context.consolidated
+      ? { accounts: await context.getAccountSubscriptions() }
+      : { subscriptions: await context.getSubscriptions() },
+    compute: (data, _args, { currencyOptions, asOf }) => 'accounts' in data
+      ? computeConsolidatedMrr(data.accounts, currencyOptions, asOf)
+      : computeMrr(data.subscriptions, currencyOptions, asOf),
+    format: mrrToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_churn',
+    description: 'Compute customer churn rate and revenue churn rate for a given period. Returns percentage of customers lost, percentage of revenue lost, counts of churned customers, and churned MRR amount, split into voluntary (customer canceled) and involuntary (payment failed or disputed) churn with a breakdown by cancellation reason and customer feedback.',
+    input: z.object({
+      period_days: count('Number of days to analyze', 30, 365),
+    }),
+    output: churnResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: async (context, { period_days }) => {
+      const [subscriptions, canceled] = await Promise.all([
+        context.getSubscriptions(),
+        context.getCanceledSubscriptions(period_days),
+      ]);
+      return { subscriptions, canceled };
+    },
+    compute: (data, { period_days }, { currencyOptions, asOf }) =>
+      computeChurn(data.subscriptions, data.canceled, period_days, currencyOptions, asOf),
+    format: churnToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_revenue_by_plan',
+    description: 'Break down MRR by pricing plan/product. Returns a table showing each plan with subscriber count, MRR contribution, and percentage of total revenue.',
+    input: z.object({}),
+    output: revenueByPlanResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: context => context.getSubscriptions(),
+    compute: (subscriptions, _args, { currencyOptions, asOf }) => computeRevenueByPlan(subscriptions, currencyOptions, asOf),
+    format: planBreakdownToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_subscriber_stats',
+    description: 'Get subscriber statistics for a given period. Returns total active subscribers, new subscribers, churned subscribers, net change, trial count, and past due count.',
+    input: z.object({
+      period_days: count('Number of days to analyze', 30, 365),
+    }),
+    output: subscriberStatsSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    // Canceled subscriptions included for churn
+    fetch: context => context.getSubscriptions(HISTORY_STATUSES),
+    compute: (subscriptions, { period_days }, { asOf }) => computeSubscriberStats(subscriptions, period_days, asOf),
+    format: subscriberStatsToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_recent_changes',
+    description: 'List recent subscription changes including new subscriptions, cancellations, upgrades, downgrades, and failed payments. Returns detailed event list with customer info and summary counts.',
+    input: z.object({
+      days: count('Number of days to look back', 7, 365, 'Beyond 30 days, events come from the local event archive'),
+    }),
+    output: recentChangesResultSchema,
+    permissions: { required: ['events'], optional: ['customers'] },
+    // Events beyond Stripe's 30 days come from the archive
+    fetch: async (context, { days }) => ({
+      events: await context.getRecentEvents(days),
+      coverageWarning: context.coverageWarning(days),
+    }),
+    compute: (data, { days }) => ({
+      ...computeRecentChanges(data.events, days),
+      coverageWarning: data.coverageWarning,
+    }),
+    format: changesToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_dashboard',
+    description: 'The morning check — get everything important in one call. Returns: current MRR with week-over-week change, MRR movement breakdown (new/expansion/contraction/churn), failed payments needing attention, trials expiring in 3 days, MRR at risk from scheduled cancellations, and Quick Ratio. Use this when someone asks "how\'s my business doing?" or "morning check" or "what happened overnight?"',
+    input: z.object({}),
+    output: dashboardOutputSchema,
+    permissions: { required: [...SNAPSHOT_PERMISSIONS.required, 'invoices'], optional: ['products', 'prices'] },
+    fetch: async context => {
+      const [subscriptions, canceled, events, failed] = await Promise.all([
+        context.getSubscriptions(),
+        context.getCanceledSubscriptions(7),
+        context.getRecentEvents(7),
+        context.getFailedInvoices(30),
+      ]);
+      return { subscriptions, canceled, events, failed };
+    },
+    compute: (data, _args, { currencyOptions, asOf }) =>
+      computeDashboard(data.subscriptions, data.canceled, data.events, data.failed, 7, currencyOptions, asOf),
+    format: dashboardToMarkdown,
+    // JSON has no Infinity: a quick ratio with no churn is sent as null
+    structuredContent: result => ({
+      ...result,
+      quickRatio: Number.isFinite(result.quickRatio) ? result.quickRatio : null,
+    }),
+  }),
+
+  defineTool({
+    name: 'get_failed_payments',
+    description: 'Get all failed payment attempts with customer email, amount, failure reason, attempt count, and plan. These are recoverable revenue — money you can get back by reaching out to customers. Shows total revenue at risk.',
+    input: z.object({
+      days: count('Number of days to look back', 30, 90),
+    }),
+    output: failedPaymentsResultSchema,
+    permissions: { required: ['invoices', 'subscriptions'], optional: ['customers'] },
+    fetch: (context, { days }) => context.getFailedInvoices(days),
+    compute: (failedPayments, _args, { currencyOptions }) => summarizeFailedPayments(failedPayments, currencyOptions),
+    format: failedPaymentsToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_mrr_movement',
+    description: 'MRR waterfall showing how MRR changed over a period: new MRR from new customers, expansion from upgrades, contraction from downgrades, and churn from cancellations. Answers "how did my MRR change this week/month?"',
+    input: z.object({
+      period_days: count('Number of days to analyze', 7, 365, 'Beyond 30 days, upgrades and downgrades come from the local event archive'),
+    }),
+    output: mrrMovementResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: async (context, { period_days }): Promise<MovementData> => {
+      const coverageWarning = context.coverageWarning(period_days);
+      if (context.consolidated) {
+        return { accounts: await context.getAccountData(period_days), coverageWarning };
+      }
+      const [subscriptions, canceled, events] = await Promise.all([
+        context.getSubscriptions(),
+        context.getCanceledSubscriptions(period_days),
+        context.getRecentEvents(period_days),
+      ]);
+      return { subscriptions, canceled, events, coverageWarning };
+    },
+    compute: (data, { period_days }, { currencyOptions, asOf }) => ({
+      ...('accounts' in data
+        ? computeConsolidatedMovement(data.accounts, period_days, currencyOptions, asOf)
+        : computeMrrMovement(data.subscriptions, data.canceled, data.events, period_days, currencyOptions, asOf)),
+      coverageWarning: data.coverageWarning,
+    }),
+    format: mrrMovementToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_mrr_history',
+    description: 'Reconstruct month-end (or week-end) MRR for the last N periods from subscription lifecycles (created, trial end, canceled) and plan changes. Answers "what was MRR in March?" and returns a table with period-over-period growth rate.',
+    input: z.object({
+      periods: count('Number of periods to return', 12, 36),
+      granularity: z.enum(['month', 'week']).optional().default('month')
+        .describe('Snapshot at month-end or week-end (default: month)'),
+    }),
+    output: mrrHistoryResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: async (context, { periods, granularity }) => {
+      const lookbackDays = periods * (granularity === 'month' ? 31 : 7);
+      const [subscriptions, events] = await Promise.all([
+        context.getSubscriptions(HISTORY_STATUSES),
+        context.getRecentEvents(lookbackDays),
+      ]);
+      return { subscriptions, events };
+    },
+    compute: (data, { periods, granularity }, { currencyOptions, asOf }) =>
+      computeMrrHistory(data.subscriptions, data.events, periods, granularity, currencyOptions, asOf),
+    format: mrrHistoryToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_cohort_retention',
+    description: 'Signup-cohort retention matrix. Groups customers by the month of their first subscription and shows, for each later month, the share of customers (logo retention) and of starting MRR (revenue retention) still active. Reveals whether recent cohorts churn faster than older ones.',
+    input: z.object({
+      months: count('Number of signup-month cohorts to include', 12, 36),
+    }),
+    output: cohortRetentionResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    // Plan changes since the oldest cohort's signup month
+    fetch: async (context, { months }) => {
+      const [subscriptions, events] = await Promise.all([
+        context.getSubscriptions(HISTORY_STATUSES),
+        context.getRecentEvents(months * 31),
+      ]);
+      return { subscriptions, events };
+    },
+    compute: (data, { months }, { currencyOptions, asOf }) =>
+      computeCohortRetention(data.subscriptions, data.events, months, currencyOptions, asOf),
+    format: cohortRetentionToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_revenue_retention',
+    description: 'Net Revenue Retention (NRR) and Gross Revenue Retention (GRR) over a trailing window. Takes every customer paying at the start of the window and compares their MRR then with their MRR now, counting expansion, contraction and churn. NRR above 100% means existing customers grow revenue on their own.',
+    input: z.object({
+      window_months: count('Length of the trailing window in months', 12, 36),
+    }),
+    output: revenueRetentionResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: async (context, { window_months }) => {
+      const [subscriptions, events] = await Promise.all([
+        context.getSubscriptions(HISTORY_STATUSES),
+        context.getRecentEvents(window_months * 31),
+      ]);
+      return { subscriptions, events };
+    },
+    compute: (data, { window_months }, { currencyOptions, asOf }) =>
+      computeRevenueRetention(data.subscriptions, data.events, window_months, currencyOptions, asOf),
+    format: revenueRetentionToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_top_customers',
+    description: 'Largest customers by MRR, aggregated across all of each customer\'s subscriptions. Shows each account\'s share of total MRR, cumulative Pareto percentage, and revenue concentration (Herfindahl index, top-10% share, customers making up 80% of MRR). Use it to judge key-account risk before renewals.',
+    input: z.object({
+      limit: count('Number of customers to list', 10, 100),
+    }),
+    output: topCustomersResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: context => context.getSubscriptions(),
+    compute: (subscriptions, { limit }, { currencyOptions, asOf }) => computeTopCustomers(subscriptions, limit, currencyOptions, asOf),
+    format: topCustomersToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_discount_cliff',
+    description: 'MRR that returns as coupons expire over the next N days. Lists each repeating coupon ending in the window with its subscription, end date, and how much MRR the subscription gains when it ends. One-time and already-expired coupons are not part of MRR, so they are not listed.',
+    input: z.object({
+      days: count('Look-ahead window in days', 90, 365),
+    }),
+    output: discountCliffResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: context => context.getSubscriptions(),
+    compute: (subscriptions, { days }, { currencyOptions, asOf }) => computeDiscountCliff(subscriptions, days, currencyOptions, asOf),
+    format: discountCliffToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_pending_cancellations',
+    description: 'Subscriptions scheduled to cancel, either on a set date (cancel_at) or at the end of the current period (cancel_at_period_end). Lists each with its cancel date, plan, and MRR, plus the total MRR that disappears in the next 30, 60 and 90 days.',
+    input: z.object({}),
+    output: pendingCancellationsResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: context => context.getSubscriptions(),
+    compute: (subscriptions, _args, { currencyOptions, asOf }) => computePendingCancellations(subscriptions, currencyOptions, asOf),
+    format: pendingCancellationsToMarkdown,
+  }),
+
+  defineTool({
+    name: 'get_trial_conversion',
+    description: 'How trials that ended in a period turned out: how many converted to paid, were canceled, or went past due on the first payment, with the conversion rate overall, by plan, and by trial length.',
+    input: z.object({
+      period_days: count('Number of days to look back for ended trials', 30, 365),
+    }),
+    output: trialConversionResultSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    // Every status a trial can end in
+    fetch: context => context.getSubscriptions(['active', 'past_due', 'unpaid', 'paused', 'canceled', 'incomplete_expired']),
+    compute: (subscriptions, { period_days }, { asOf }) => computeTrialConversion(subscriptions, period_days, asOf),
+    format: trialConversionToMarkdown,
+  }),
+
+  defineTool({
+    name: 'sync_status',
+    description: 'Freshness of the local subscription snapshot that every other tool reads from: when it last synced with Stripe, whether that was a full or incremental (event-based) sync, and how many subscriptions it holds by status. Can force a refresh first.',
+    input: z.object({
+      refresh: z.enum(['none', 'incremental', 'full']).optional().default('none')
+        .describe('Sync before reporting: "incremental" applies new events, "full" re-reads every subscription (default: none)'),
+    }),
+    output: syncStatusOutputSchema,
+    permissions: SNAPSHOT_PERMISSIONS,
+    fetch: (context, { refresh }) => context.syncStatus(refresh),
+    // One snapshot per selected account
+    compute: accounts => ({ accounts }),
+    format: result => result.accounts.map(syncStatusToMarkdown).join('\n\n'),
+  }),
+];
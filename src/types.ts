@@ -3,6 +3,10 @@
  * ALL modules import from here. This is the single source of truth.
  */
 
+import type Stripe from 'stripe';
+import type { z } from 'zod';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
 // --- Input types (from Stripe, normalized) ---
 
 export interface SubscriptionData {
@@ -13,9 +17,12 @@ export interface SubscriptionData {
   currentPeriodEnd: number;    // unix timestamp
   canceledAt: number | null;
   cancelAt: number | null;
+  cancelAtPeriodEnd: boolean;  // cancels when the current period ends
+  cancellationDetails: CancellationDetails | null;  // why it was canceled, if Stripe recorded it
   createdAt: number;
+  trialStart: number | null;
   trialEnd: number | null;
-  discount: DiscountData | null;
+  discounts: DiscountData[];    // subscription-level, in the order Stripe applies them
   currency: string;
   items: SubscriptionItemData[];
 }
@@ -34,20 +41,59 @@ export interface SubscriptionItemData {
   priceId: string;
   productName: string;
   planName: string;
-  quantity: number;
-  unitAmountCents: number;     // per unit, per interval
+  quantity: number;            // for metered items, usage on the last paid invoice
+  unitAmountCents: number;     // per unit, per interval; may be fractional
   interval: BillingInterval;
   intervalCount: number;
+  billingScheme?: BillingScheme;  // omitted means per_unit
+  tiersMode?: TiersMode | null;
+  tiers?: PriceTier[] | null;     // tiered prices only; null until looked up
+  usageType?: UsageType;          // omitted means licensed
+  discounts?: DiscountData[];     // item-level, applied before subscription discounts
 }
 
 export type BillingInterval = 'month' | 'year' | 'week' | 'day';
 
+export type BillingScheme = 'per_unit' | 'tiered';
+
+export type TiersMode = 'graduated' | 'volume';
+
+export type UsageType = 'licensed' | 'metered';
+
+export interface PriceTier {
+  upTo: number | null;         // last unit in this tier; null for the open-ended last tier
+  unitAmountCents: number;     // may be fractional
+  flatAmountCents: number;
+}
+
 export interface DiscountData {
   couponId: string;
   percentOff: number | null;
   amountOff: number | null;    // in cents
+  duration: CouponDuration;
+  end: number | null;          // unix timestamp a repeating discount stops applying; null for forever
+}
+
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+export interface CancellationDetails {
+  reason: CancellationReason | null;
+  feedback: CancellationFeedback | null;  // chosen by the customer in the billing portal
+  comment: string | null;
 }
 
+export type CancellationReason = 'cancellation_requested' | 'payment_failed' | 'payment_disputed';
+
+export type CancellationFeedback =
+  | 'customer_service'
+  | 'low_quality'
+  | 'missing_features'
+  | 'other'
+  | 'switched_service'
+  | 'too_complex'
+  | 'too_expensive'
+  | 'unused';
+
 // --- Event types (normalized from Stripe events) ---
 
 export interface NormalizedEvent {
@@ -61,6 +107,16 @@ export interface NormalizedEvent {
   amountCents: number | null;
   previousPlanName: string | null;
   previousAmountCents: number | null;
+  currency: string | null;     // currency of amountCents / previousAmountCents
+}
+
+/**
+ * First item of a subscription event's subscription, now and (for updates
+ * that changed the items) before. Null for other events.
+ */
+export interface EventItems {
+  current: SubscriptionItemData | null;
+  previous: SubscriptionItemData | null;
 }
 
 // --- Output types ---
@@ -76,6 +132,8 @@ export interface MrrResult {
     pastDue: number;
   };
   asOfDate: string;
+  currencyBreakdown?: CurrencySubtotal[];  // set when converting to a reporting currency
+  accountBreakdown?: AccountMrr[];         // set when consolidating connected accounts
 }
 
 export interface ChurnResult {
@@ -89,7 +147,32 @@ export interface ChurnResult {
   churnedMrrFormatted: string;
   startingCustomers: number;
   startingMrrCents: number;
+  voluntary: ChurnSegment;      // customer requested the cancellation
+  involuntary: ChurnSegment;    // payment failed or was disputed
+  unclassified: ChurnSegment;   // no reason recorded
+  reasons: ChurnReasonBreakdown[];  // by MRR, largest first
   currency: string;
+  currencyBreakdown?: CurrencySubtotal[];  // churned MRR per original currency
+}
+
+export type ChurnType = 'voluntary' | 'involuntary' | 'unclassified';
+
+export interface ChurnSegment {
+  customerChurnRate: number;    // 0-100 percentage of starting customers
+  revenueChurnRate: number;     // 0-100 percentage of starting MRR
+  churnedCustomers: number;
+  churnedMrrCents: number;
+  churnedMrrFormatted: string;
+}
+
+export interface ChurnReasonBreakdown {
+  churnType: ChurnType;
+  reason: CancellationReason | null;
+  feedback: CancellationFeedback | null;
+  churnedCustomers: number;
+  churnedMrrCents: number;
+  churnedMrrFormatted: string;
+  percentOfChurnedMrr: number;  // 0-100 percentage
 }
 
 export interface PlanBreakdown {
@@ -108,6 +191,7 @@ export interface RevenueByPlanResult {
   totalMrrCents: number;
   totalMrrFormatted: string;
   currency: string;
+  currencyBreakdown?: CurrencySubtotal[];  // set when converting to a reporting currency
 }
 
 export interface SubscriberStats {
@@ -138,6 +222,7 @@ export interface RecentChangesResult {
     downgradedCount: number;
     failedPaymentCount: number;
   };
+  coverageWarning?: string;      // set when the window starts before the event archive
 }
 
 // --- Dashboard types ---
@@ -147,6 +232,7 @@ export interface DashboardResult {
   mrrMovement: MrrMovementResult;
   failedPayments: FailedPaymentInfo[];
   expiringTrials: TrialInfo[];
+  mrrAtRisk: MrrAtRisk[];  // MRR of scheduled cancellations in the next 30, 60 and 90 days
   quickRatio: number;  // (new + expansion) / (contraction + churn). >1 = growing
 }
 
@@ -159,6 +245,8 @@ export interface MrrMovementResult {
   netNewMrrCents: number;
   netNewMrrFormatted: string;
   currency: string;
+  accountBreakdown?: AccountMovement[];    // set when consolidating connected accounts
+  coverageWarning?: string;                // set when the window starts before the event archive
 }
 
 export interface FailedPaymentInfo {
@@ -166,6 +254,7 @@ export interface FailedPaymentInfo {
   customerId: string;
   amountCents: number;
   amountFormatted: string;
+  currency: string;
   failureReason: string;
   attemptCount: number;
   lastAttemptDate: string;
@@ -173,11 +262,38 @@ export interface FailedPaymentInfo {
   planName: string | null;
 }
 
+export interface PendingCancellation {
+  subscriptionId: string;
+  customerId: string;
+  customerEmail: string | null;
+  planName: string;
+  cancelDate: string;           // ISO date (YYYY-MM-DD)
+  daysUntilCancel: number;
+  atPeriodEnd: boolean;         // set to cancel when the period ends, rather than on a chosen date
+  mrrCents: number;
+  mrrFormatted: string;
+}
+
+export interface MrrAtRisk {
+  withinDays: number;
+  subscriptionCount: number;
+  mrrCents: number;
+  mrrFormatted: string;
+}
+
+export interface PendingCancellationsResult {
+  cancellations: PendingCancellation[];  // soonest first
+  mrrAtRisk: MrrAtRisk[];                // cumulative, for each horizon
+  totalMrrCents: number;                 // every pending cancellation, however far out
+  totalMrrFormatted: string;
+  currency: string;
+}
+
 export interface FailedPaymentsResult {
   failedPayments: FailedPaymentInfo[];
-  totalAtRiskCents: number;
-  totalAtRiskFormatted: string;
-  currency: string;
+  totalAtRiskCents: number | null;  // null when payments span currencies and none is set for reporting
+  totalAtRiskFormatted: string;     // one total per currency ("$20.00 + €10.00") when there is no single total
+  currency: string | null;
 }
 
 export interface TrialInfo {
@@ -188,6 +304,534 @@ export interface TrialInfo {
   daysRemaining: number;
   mrrIfConverted: number;
   mrrIfConvertedFormatted: string;
+  currency: string;
+}
+
+// --- Trial conversion types ---
+
+export type TrialOutcome = 'converted' | 'canceled' | 'past_due';
+
+export interface TrialConversionCounts {
+  trials: number;
+  converted: number;
+  canceled: number;
+  pastDue: number;
+  conversionRate: number;       // 0-100 percentage of trials that converted
+}
+
+export interface TrialConversionByPlan extends TrialConversionCounts {
+  planName: string;
+}
+
+export interface TrialConversionByLength extends TrialConversionCounts {
+  trialDays: number;
+}
+
+export interface TrialConversionResult extends TrialConversionCounts {
+  periodDays: number;
+  startDate: string;
+  endDate: string;
+  byPlan: TrialConversionByPlan[];          // most trials first
+  byTrialLength: TrialConversionByLength[]; // shortest first
+}
+
+// --- History types ---
+
+export type HistoryGranularity = 'month' | 'week';
+
+export interface MrrHistoryPoint {
+  periodLabel: string;      // "2026-03" for months, period-end date for weeks
+  periodEnd: string;        // ISO date of the snapshot
+  mrrCents: number;
+  mrrFormatted: string;
+  subscriptionCount: number;
+  growthRate: number | null;  // % change vs previous point, null for the first
+}
+
+export interface MrrHistoryResult {
+  granularity: HistoryGranularity;
+  periods: number;
+  points: MrrHistoryPoint[];
+  currency: string;
+}
+
+// --- Cohort types ---
+
+export interface CohortRow {
+  cohort: string;                      // signup month, "2026-01"
+  customers: number;
+  startingMrrCents: number;            // cohort MRR at the end of its signup month
+  startingMrrFormatted: string;
+  logoRetention: number[];             // % of customers still active, index = months since signup
+  revenueRetention: (number | null)[]; // % of starting MRR still active, null if no starting MRR
+}
+
+export interface CohortRetentionResult {
+  months: number;
+  cohorts: CohortRow[];
+  currency: string;
+}
+
+// --- Revenue retention types ---
+
+export interface RevenueRetentionResult {
+  windowMonths: number;
+  startDate: string;
+  endDate: string;
+  startingCustomers: number;         // customers paying at the start of the window
+  startingMrrCents: number;
+  startingMrrFormatted: string;
+  endingMrrCents: number;            // the same customers' MRR at the end of the window
+  endingMrrFormatted: string;
+  expansionMrrCents: number;
+  contractionMrrCents: number;
+  churnedMrrCents: number;
+  expandedCustomers: number;
+  contractedCustomers: number;
+  churnedCustomers: number;
+  netRevenueRetention: number;       // 0-100+ percentage
+  grossRevenueRetention: number;     // 0-100 percentage
+  currency: string;
+}
+
+// --- Customer types ---
+
+export interface CustomerMrr {
+  customerId: string;
+  customerEmail: string | null;
+  subscriptionCount: number;    // active/past_due subscriptions
+  mrrCents: number;
+  mrrFormatted: string;
+  planNames: string[];
+}
+
+export interface TopCustomer extends CustomerMrr {
+  rank: number;
+  percentOfTotal: number;       // 0-100 percentage
+  cumulativePercent: number;    // running Pareto share, 0-100
+}
+
+export interface TopCustomersResult {
+  customers: TopCustomer[];     // largest first, limited
+  totalCustomers: number;       // paying customers, not subscriptions
+  totalMrrCents: number;
+  totalMrrFormatted: string;
+  herfindahlIndex: number;      // sum of squared % shares, 0-10000
+  customersFor80Percent: number;
+  top10PercentShare: number;    // % of MRR from the largest 10% of customers
+  currency: string;
+}
+
+export interface ExpiringDiscount {
+  subscriptionId: string;
+  customerId: string;
+  customerEmail: string | null;
+  couponId: string;
+  endsAt: string;               // ISO date (YYYY-MM-DD)
+  returningMrrCents: number;    // MRR the subscription gains when this discount ends
+  returningMrrFormatted: string;
+}
+
+export interface DiscountCliffResult {
+  periodDays: number;
+  currentMrrCents: number;
+  currentMrrFormatted: string;
+  returningMrrCents: number;    // sum over expiringDiscounts
+  returningMrrFormatted: string;
+  expiringDiscounts: ExpiringDiscount[];  // soonest first
+  currency: string;
+}
+
+// --- Currency conversion types ---
+
+/**
+ * Exchange-rate table. rates[code] is how many units of `code` one unit of
+ * `base` buys, e.g. { base: 'usd', rates: { eur: 0.92, gbp: 0.79 } }.
+ */
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export interface CurrencyOptions {
+  reportingCurrency: string;
+  fxRates: FxRates;
+}
+
+export interface CurrencySubtotal {
+  currency: string;              // original currency
+  subscriptionCount: number;
+  mrrCents: number;              // in the original currency
+  mrrFormatted: string;
+  convertedMrrCents: number;     // in the reporting currency
+  convertedMrrFormatted: string;
+}
+
+// --- Data source types ---
+
+/**
+ * The slice of the Stripe API the client functions read from.
+ * A Stripe instance satisfies it; so do the fixture recorder and replay source.
+ */
+export interface DataSource {
+  subscriptions: { list(params?: Stripe.SubscriptionListParams): AsyncIterable<Stripe.Subscription> };
+  events: { list(params?: Stripe.EventListParams): AsyncIterable<Stripe.Event> };
+  invoices: { list(params?: Stripe.InvoiceListParams): AsyncIterable<Stripe.Invoice> };
+  products: { retrieve(id: string): Promise<Stripe.Product> };
+  prices: { retrieve(id: string, params?: Stripe.PriceRetrieveParams): Promise<Stripe.Price> };
+  customers: { retrieve(id: string): Promise<Stripe.Customer | Stripe.DeletedCustomer> };
+}
+
+/**
+ * A data source that also writes what it reads to a fixture directory.
+ * Writes are buffered; flush() writes whatever hasn't been written yet.
+ */
+export interface RecordingSource extends DataSource {
+  flush(): void;
+}
+
+/**
+ * Raw Stripe objects held in memory, e.g. loaded from fixtures or CSV exports.
+ */
+export interface RawStripeData {
+  subscriptions: Stripe.Subscription[];
+  events: Stripe.Event[];
+  invoices: Stripe.Invoice[];
+  products: Stripe.Product[];
+  prices: Stripe.Price[];
+  customers: (Stripe.Customer | Stripe.DeletedCustomer)[];
+}
+
+export interface FixtureManifest {
+  version: number;
+  recordedAt: number;            // unix timestamp of the last write
+}
+
+// --- Event archive types ---
+
+/**
+ * The continuous window [from, to] the archive holds every event for (unix seconds).
+ */
+export interface ArchiveCoverage {
+  from: number;
+  to: number;
+}
+
+export interface EventArchive {
+  /**
+   * Add events read from Stripe for the window [from, to]; events already archived are skipped.
+   */
+  record(events: NormalizedEvent[], from: number, to: number): void;
+  getEvents(sinceDaysAgo: number, asOf?: number): NormalizedEvent[];  // newest first; days before asOf (default: now)
+  coverage(): ArchiveCoverage | null;
+}
+
+// --- Connected account types ---
+
+/**
+ * One connected account's current subscriptions, as input to consolidated MRR.
+ */
+export interface AccountSubscriptions {
+  accountId: string;
+  subscriptions: SubscriptionData[];
+}
+
+/**
+ * One connected account's data, as input to the consolidated metrics.
+ */
+export interface AccountData extends AccountSubscriptions {
+  canceledSubscriptions: SubscriptionData[];
+  events: NormalizedEvent[];
+}
+
+/**
+ * Where tools read one account's data from: its data source and snapshot.
+ * accountId is null for the account the API key belongs to.
+ */
+export interface AccountScope {
+  accountId: string | null;
+  source: DataSource;
+  store: SnapshotStore;
+  archive: EventArchive;
+}
+
+export interface AccountMrr {
+  accountId: string;
+  subscriptionCount: number;
+  mrrCents: number;
+  mrrFormatted: string;
+  percentOfTotal: number;        // 0-100
+}
+
+export interface AccountMovement {
+  accountId: string;
+  newMrrCents: number;
+  expansionMrrCents: number;
+  contractionMrrCents: number;
+  churnedMrrCents: number;
+  netNewMrrCents: number;
+  netNewMrrFormatted: string;
+}
+
+// --- Snapshot store types ---
+
+export type SyncMode = 'full' | 'incremental';
+
+export interface SubscriptionSnapshot {
+  version: 7;
+  keyFingerprint: string;        // hash of the API key, so one file never mixes accounts
+  subscriptions: SubscriptionData[];
+  cursor: number;                // unix timestamp; events created at or after it are applied next sync
+  lastFullSyncAt: number;
+  lastSyncAt: number;            // last time Stripe was asked; webhooks don't count
+  lastSyncMode: SyncMode;
+  lastSyncEventCount: number;    // subscription events applied by the last incremental sync
+  lastWebhookAt: number | null;  // last time webhook changes were applied
+}
+
+/**
+ * Latest state of each subscription changed by a batch of events.
+ */
+export interface SubscriptionChanges {
+  subscriptions: SubscriptionData[];
+  eventCount: number;
+  latestEventCreated: number | null;  // creation time of the newest event, null if none
+}
+
+export interface SyncStatusResult {
+  storePath: string | null;      // null = kept in memory only
+  synced: boolean;               // false until the first sync completes
+  subscriptionCount: number;
+  statusCounts: Partial<Record<SubscriptionStatus, number>>;
+  lastFullSyncAt: number | null;
+  lastSyncAt: number | null;
+  ageSeconds: number | null;     // seconds since lastSyncAt
+  cursor: number | null;
+  lastSyncMode: SyncMode | null;
+  lastSyncEventCount: number;
+  lastWebhookAt: number | null;
+  accountId?: string;            // connected account the snapshot belongs to
+}
+
+export interface SnapshotStore {
+  getSubscriptions(statuses?: SubscriptionStatus[]): Promise<SubscriptionData[]>;
+  getCanceledSubscriptions(sinceDaysAgo: number, asOf?: number): Promise<SubscriptionData[]>;  // days before asOf (default: now)
+  sync(options?: { full?: boolean }): Promise<SubscriptionSnapshot>;
+  /**
+   * Apply changes received by webhook without asking Stripe.
+   * Returns false (and does nothing) before the first sync.
+   */
+  applyChanges(changes: SubscriptionChanges): boolean;
+  status(): SyncStatusResult;
+}
+
+export interface StoreOptions {
+  path?: string;                 // JSON file to persist the snapshot in; omitted = memory only
+  minSyncIntervalSeconds?: number;  // serve from the snapshot without asking Stripe within this window (default 60)
+}
+
+// --- Tool registry types ---
+
+/**
+ * What a tool's compute step may depend on besides its data and arguments.
+ */
+export interface ComputeContext {
+  consolidated: boolean;         // reading every configured connected account at once
+  currencyOptions?: CurrencyOptions;
+  asOf: number;                  // unix seconds the call is answered as of: now, or the recording time when replaying
+}
+
+/**
+ * Data a tool's fetch step can read, from the accounts the call selected.
+ */
+export interface ToolContext extends ComputeContext {
+  getSubscriptions(statuses?: SubscriptionStatus[]): Promise<SubscriptionData[]>;
+  getCanceledSubscriptions(sinceDaysAgo: number): Promise<SubscriptionData[]>;
+  getRecentEvents(days: number): Promise<NormalizedEvent[]>;
+  getFailedInvoices(days: number): Promise<FailedPaymentInfo[]>;
+  getAccountSubscriptions(): Promise<AccountSubscriptions[]>;  // per connected account, for consolidated MRR
+  getAccountData(periodDays: number): Promise<AccountData[]>;  // per connected account, for consolidated metrics
+  coverageWarning(days: number): string | undefined;            // set when the window starts before the event archive
+  syncStatus(refresh: 'none' | 'incremental' | 'full'): Promise<SyncStatusResult[]>;
+}
+
+/**
+ * A tool, declared once: the tool list, JSON Schemas, permission checks and
+ * calls are all derived from it.
+ */
+export interface ToolDefinition<Input extends z.ZodObject, Data, Result> {
+  name: string;
+  description: string;
+  input: Input;                  // arguments besides `account`, which every tool takes
+  output: z.ZodType;             // shape of the structured content
+  permissions: ToolPermissions;
+  fetch(context: ToolContext, args: z.output<Input>): Promise<Data>;
+  compute(data: Data, args: z.output<Input>, context: ComputeContext): Result;
+  format(result: Result): string;
+  structuredContent?(result: Result): object;  // when the result isn't plain JSON as is
+}
+
+/**
+ * A tool ready to serve, as returned by defineTool.
+ */
+export interface Tool {
+  name: string;
+  description: string;
+  input: z.ZodObject;
+  output: z.ZodType;
+  permissions: ToolPermissions;
+  run(context: ToolContext, args: unknown): Promise<{ markdown: string; structuredContent: object }>;
+}
+
+// --- Resource types ---
+
+/**
+ * A metric served as an MCP resource: a built-in tool's structured result
+ * with its default arguments, as JSON.
+ */
+export interface ResourceDefinition {
+  uri: string;                   // e.g. stripe-analytics://mrr
+  name: string;
+  description: string;
+  tool: string;                  // name of the tool computing it
+}
+
+/**
+ * Re-reads subscribed resources in the background and reports the ones whose
+ * content changed.
+ */
+export interface ResourceWatcher {
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  check(): Promise<void>;        // re-read every subscribed resource once
+  close(): void;
+}
+
+// --- Prompt types ---
+
+/**
+ * A report prompt, declared once: its arguments, the tools whose output it
+ * embeds, and the instructions around that output.
+ */
+export interface PromptDefinition<Input extends z.ZodObject> {
+  name: string;
+  description: string;
+  input: Input;                  // arguments besides `account`; clients send them as strings
+  tools(args: z.output<Input>): PromptToolCall[];
+  instructions(args: z.output<Input>): string;
+}
+
+export interface PromptToolCall {
+  name: string;                  // tool to run
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A prompt ready to serve, as returned by definePrompt.
+ */
+export interface Prompt {
+  name: string;
+  description: string;
+  input: z.ZodObject;
+  render(args: unknown): { instructions: string; tools: PromptToolCall[] };
+}
+
+// --- Server configuration ---
+
+export interface ServerOptions {
+  currency?: CurrencyOptions;    // convert mixed-currency accounts into one reporting currency
+  store?: StoreOptions;          // where and how often to sync the local subscription snapshot
+  record?: string;               // also write everything read from Stripe to this fixture directory
+  replay?: string;               // read from this fixture directory instead of Stripe (no API key needed)
+  csv?: string;                  // read Stripe dashboard CSV exports from this directory instead of Stripe
+  accounts?: string[];           // Stripe Connect account IDs (acct_...) the tools can read and consolidate
+  eventArchive?: string;         // JSON Lines file keeping events beyond Stripe's 30 days; omitted = memory only
+  webhooks?: WebhookOptions;     // also receive events on a local webhook endpoint instead of polling for them
+  apiVersion?: string;           // Stripe API version to request; default 2025-02-24.acacia
+  tools?: Tool[];                // more tools to serve next to the built-in ones (see defineTool)
+  http?: HttpOptions;            // serve over streamable HTTP to token holders instead of stdio
+  resourceRefreshSeconds?: number; // how often subscribed resources are re-read for changes; default 60
+}
+
+export interface HttpOptions {
+  tokens: AccessToken[];         // bearer tokens allowed to connect; at least one
+  port?: number;                 // default 3000
+  host?: string;                 // default 127.0.0.1; 0.0.0.0 to serve the whole network
+  idleTimeoutSeconds?: number;   // sessions with no request open this long are closed; default 1800
+}
+
+/**
+ * A static bearer token (or API key) a teammate connects with.
+ * The Stripe key stays on the server; the token only decides which
+ * connected accounts its holder can read.
+ */
+export interface AccessToken {
+  token: string;
+  name: string;                  // who holds it, shown in the server log
+  accounts?: string[];           // connected account IDs it can read; omitted = every configured account
+}
+
+/**
+ * Shared data sources, snapshots and event archives, with one MCP server per
+ * connection on top. HTTP mode connects many clients to one factory.
+ */
+export interface ServerFactory {
+  createServer(access?: AccessToken): Server;
+  close(): Promise<void>;
+}
+
+export interface WebhookOptions {
+  secret: string;                // endpoint signing secret (whsec_...)
+  port?: number;                 // default 4242
+  path?: string;                 // default /webhooks
+}
+
+// --- Permission types ---
+
+/**
+ * Stripe resources the tools read; restricted keys can be granted each separately.
+ */
+export type StripeResource = 'subscriptions' | 'events' | 'invoices' | 'products' | 'prices' | 'customers';
+
+export interface PermissionReport {
+  checkedAt: number;             // unix timestamp of the preflight
+  granted: StripeResource[];
+  missing: StripeResource[];
+}
+
+/**
+ * What a tool reads. Without a required resource the tool can't run; without an
+ * optional one it runs with less detail (e.g. no customer emails).
+ */
+export interface ToolPermissions {
+  required: StripeResource[];
+  optional: StripeResource[];
+}
+
+// --- Request pool types ---
+
+export interface RequestPoolOptions {
+  concurrency?: number;          // requests in flight at once (default 8)
+  maxRetries?: number;           // retries of a retriable error (default 3)
+  retryDelayMs?: number;         // first retry delay, doubled each retry (default 500)
+}
+
+export interface RequestPool {
+  /**
+   * Run a request in the pool. Calls with the same key while one is in flight
+   * share its result instead of making another request.
+   */
+  run<T>(key: string, request: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Stripe API requests made on behalf of one tool call.
+ */
+export interface RequestUsage {
+  requests: number;              // HTTP requests, counting each list page and each retry
+  byResource: Partial<Record<StripeResource, number>>;
+  retries: number;
+  deduplicated: number;          // lookups served by another call's in-flight request
 }
 
 // --- Error types ---
@@ -217,3 +861,33 @@ export function normalizeToMonthlyCents(
     case 'day':   return perInterval * (365 / 12);
   }
 }
+
+/**
+ * Amount one subscription item bills per interval, in cents.
+ * Per-unit prices charge unitAmountCents for each unit. Volume tiers charge
+ * every unit at the rate of the tier the quantity falls in; graduated tiers
+ * charge each unit at the rate of its own tier. A tier's flat amount is added
+ * once when the quantity reaches it. Tiered prices whose tiers are unknown count as 0.
+ */
+export function computeItemAmountCents(item: SubscriptionItemData): number {
+  if (item.billingScheme !== 'tiered') {
+    return item.unitAmountCents * item.quantity;
+  }
+
+  const tiers = item.tiers ?? [];
+  if (item.tiersMode === 'volume') {
+    const tier = tiers.find(t => t.upTo === null || item.quantity <= t.upTo);
+    return tier ? item.quantity * tier.unitAmountCents + tier.flatAmountCents : 0;
+  }
+
+  let amount = 0;
+  let previousUpTo = 0;
+  for (const tier of tiers) {
+    if (item.quantity <= previousUpTo) break;
+    const units = Math.min(item.quantity, tier.upTo ?? Infinity) - previousUpTo;
+    amount += units * tier.unitAmountCents + tier.flatAmountCents;
+    if (tier.upTo === null) break;
+    previousUpTo = tier.upTo;
+  }
+  return amount;
+}
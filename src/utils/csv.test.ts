@@ -0,0 +1,39 @@
+/**
+ * Tests for the CSV reader.
+ * Covers: header normalization, quoting, CRLF, blank lines, short rows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCsv, normalizeHeader } from './csv.js';
+
+describe('normalizeHeader', () => {
+  it('snake-cases headers and drops the (UTC) suffix', () => {
+    expect(normalizeHeader('Customer ID')).toBe('customer_id');
+    expect(normalizeHeader('Current Period End (UTC)')).toBe('current_period_end');
+    expect(normalizeHeader('id')).toBe('id');
+  });
+});
+
+describe('parseCsv', () => {
+  it('parses rows keyed by header', () => {
+    expect(parseCsv('id,Amount\nsub_1,49.00\nsub_2,19.00\n')).toEqual([
+      { id: 'sub_1', amount: '49.00' },
+      { id: 'sub_2', amount: '19.00' },
+    ]);
+  });
+
+  it('handles quoted commas, newlines and escaped quotes', () => {
+    const [row] = parseCsv('id,Description\r\nsub_1,"Pro, annual\nplan ""gold"""\r\n');
+    expect(row.description).toBe('Pro, annual\nplan "gold"');
+  });
+
+  it('skips blank lines, pads short rows and ignores a BOM', () => {
+    expect(parseCsv('\uFEFFid,Email,Name\n\nsub_1,a@example.com\n')).toEqual([
+      { id: 'sub_1', email: 'a@example.com', name: '' },
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * CSV parsing utilities for stripe-analytics-mcp.
+ * Minimal RFC 4180 reader for Stripe dashboard exports.
+ */
+
+/**
+ * Parse CSV text into one record per row, keyed by normalized header name.
+ *
+ * Rules:
+ * 1. Fields may be quoted; quoted fields may contain commas, newlines and "" escapes
+ * 2. Headers are normalized with normalizeHeader ("Created (UTC)" → "created")
+ * 3. Blank lines are skipped; missing trailing fields are empty strings
+ *
+ * @param text - CSV file contents (a leading BOM is ignored)
+ * @returns Array of records
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = parseRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  return rows.slice(1)
+    .filter(row => row.some(field => field.trim() !== ''))
+    .map(row => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = (row[index] ?? '').trim();
+      });
+      return record;
+    });
+}
+
+/**
+ * Normalize a column header to snake_case without the "(UTC)" suffix.
+ * E.g. "Customer ID" → "customer_id", "Current Period End (UTC)" → "current_period_end".
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\(utc\)/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Split CSV text into rows of raw fields.
+ */
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -13,6 +13,8 @@ import {
   planBreakdownToMarkdown,
   subscriberStatsToMarkdown,
   changesToMarkdown,
+  formatGrowthRate,
+  mrrHistoryToMarkdown,
 } from './format.js';
 import type {
   MrrResult,
@@ -20,6 +22,7 @@ import type {
   RevenueByPlanResult,
   SubscriberStats,
   RecentChangesResult,
+  MrrHistoryResult,
 } from '../types.js';
 
 describe('formatCents', () => {
@@ -42,7 +45,7 @@ describe('formatCents', () => {
     expect(formatCents(1000, 'usd')).toBe('$10.00');
     expect(formatCents(1000, 'eur')).toBe('€10.00');
     expect(formatCents(1000, 'gbp')).toBe('£10.00');
-    expect(formatCents(1000, 'jpy')).toBe('¥10.00');
+    expect(formatCents(1000, 'jpy')).toBe('¥1,000');
     expect(formatCents(1000, 'cad')).toBe('CA$10.00');
   });
 
@@ -155,6 +158,13 @@ describe('churnToMarkdown', () => {
       churnedMrrFormatted: '$150.00',
       startingCustomers: 58,
       startingMrrCents: 395000,
+      voluntary: { customerChurnRate: 3.4, revenueChurnRate: 2.5, churnedCustomers: 2, churnedMrrCents: 10000, churnedMrrFormatted: '$100.00' },
+      involuntary: { customerChurnRate: 1.7, revenueChurnRate: 1.3, churnedCustomers: 1, churnedMrrCents: 5000, churnedMrrFormatted: '$50.00' },
+      unclassified: { customerChurnRate: 0, revenueChurnRate: 0, churnedCustomers: 0, churnedMrrCents: 0, churnedMrrFormatted: '$0.00' },
+      reasons: [
+        { churnType: 'voluntary', reason: 'cancellation_requested', feedback: 'too_expensive', churnedCustomers: 2, churnedMrrCents: 10000, churnedMrrFormatted: '$100.00', percentOfChurnedMrr: 66.7 },
+        { churnType: 'involuntary', reason: 'payment_failed', feedback: null, churnedCustomers: 1, churnedMrrCents: 5000, churnedMrrFormatted: '$50.00', percentOfChurnedMrr: 33.3 },
+      ],
       currency: 'usd',
     };
 
@@ -168,6 +178,11 @@ describe('churnToMarkdown', () => {
     expect(md).toContain('**Churned MRR:** $150.00');
     expect(md).toContain('**Starting Customers:** 58');
     expect(md).toContain('**Starting MRR:** $3,950.00');
+    expect(md).toContain('| Voluntary (customer requested) | 2 | 3.4% | $100.00 | 2.5% |');
+    expect(md).toContain('| Involuntary (payment failed) | 1 | 1.7% | $50.00 | 1.3% |');
+    expect(md).toContain('## Cancellation Reasons');
+    expect(md).toContain('| voluntary | cancellation_requested | too_expensive | 2 | $100.00 | 66.7% |');
+    expect(md).toContain('| involuntary | payment_failed | — | 1 | $50.00 | 33.3% |');
   });
 
   it('handles zero churn', () => {
@@ -182,12 +197,17 @@ describe('churnToMarkdown', () => {
       churnedMrrFormatted: '$0.00',
       startingCustomers: 50,
       startingMrrCents: 500000,
+      voluntary: { customerChurnRate: 0, revenueChurnRate: 0, churnedCustomers: 0, churnedMrrCents: 0, churnedMrrFormatted: '$0.00' },
+      involuntary: { customerChurnRate: 0, revenueChurnRate: 0, churnedCustomers: 0, churnedMrrCents: 0, churnedMrrFormatted: '$0.00' },
+      unclassified: { customerChurnRate: 0, revenueChurnRate: 0, churnedCustomers: 0, churnedMrrCents: 0, churnedMrrFormatted: '$0.00' },
+      reasons: [],
       currency: 'usd',
     };
 
     const md = churnToMarkdown(result);
     expect(md).toContain('**Customer Churn Rate:** 0.0%');
     expect(md).toContain('**Churned Customers:** 0');
+    expect(md).not.toContain('## Cancellation Reasons');
   });
 });
 
@@ -481,3 +501,37 @@ describe('changesToMarkdown', () => {
     expect(md).not.toContain('### Failed Payments');
   });
 });
+
+describe('formatGrowthRate', () => {
+  it('adds an explicit sign', () => {
+    expect(formatGrowthRate(4.2)).toBe('+4.2%');
+    expect(formatGrowthRate(-1)).toBe('-1.0%');
+    expect(formatGrowthRate(0)).toBe('+0.0%');
+  });
+
+  it('renders missing baselines as a dash', () => {
+    expect(formatGrowthRate(null)).toBe('—');
+    expect(formatGrowthRate(Infinity)).toBe('—');
+  });
+});
+
+describe('mrrHistoryToMarkdown', () => {
+  it('formats history as a table with growth column', () => {
+    const result: MrrHistoryResult = {
+      granularity: 'month',
+      periods: 2,
+      currency: 'usd',
+      points: [
+        { periodLabel: '2026-01', periodEnd: '2026-01-31', mrrCents: 100000, mrrFormatted: '$1,000.00', subscriptionCount: 10, growthRate: null },
+        { periodLabel: '2026-02', periodEnd: '2026-02-15', mrrCents: 110000, mrrFormatted: '$1,100.00', subscriptionCount: 11, growthRate: 10 },
+      ],
+    };
+
+    const md = mrrHistoryToMarkdown(result);
+    expect(md).toContain('# MRR History');
+    expect(md).toContain('| Month | MRR | Subscriptions | Growth |');
+    expect(md).toContain('| 2026-01 | $1,000.00 | 10 | — |');
+    expect(md).toContain('| 2026-02 | $1,100.00 | 11 | +10.0% |');
+    expect(md).toContain('**Change over period:** +10.0% ($1,000.00 → $1,100.00)');
+  });
+});
@@ -6,51 +6,27 @@
 import type {
   MrrResult,
   ChurnResult,
+  ChurnSegment,
   RevenueByPlanResult,
   SubscriberStats,
   RecentChangesResult,
   DashboardResult,
   FailedPaymentsResult,
   MrrMovementResult,
+  MrrHistoryResult,
+  CohortRetentionResult,
+  RevenueRetentionResult,
+  TopCustomersResult,
+  DiscountCliffResult,
+  PendingCancellationsResult,
+  TrialConversionResult,
+  CurrencySubtotal,
+  SyncStatusResult,
 } from '../types.js';
+import { formatCents, formatTotalsByCurrency } from './money.js';
 
-/**
- * Format cents to currency string.
- * @param cents - Amount in cents (can be negative or 0)
- * @param currency - Currency code (default "usd")
- * @returns Formatted string like "$12.50" or "-$5.00"
- */
-export function formatCents(cents: number, currency: string = 'usd'): string {
-  const isNegative = cents < 0;
-  const absCents = Math.abs(cents);
-  const dollars = absCents / 100;
-
-  // Get currency symbol
-  const symbol = getCurrencySymbol(currency);
-
-  // Format with 2 decimal places and thousands separators
-  const formatted = dollars.toLocaleString('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  });
-
-  return isNegative ? `-${symbol}${formatted}` : `${symbol}${formatted}`;
-}
-
-/**
- * Get currency symbol from currency code.
- */
-function getCurrencySymbol(currency: string): string {
-  const symbols: Record<string, string> = {
-    'usd': '$',
-    'eur': '€',
-    'gbp': '£',
-    'jpy': '¥',
-    'cad': 'CA$',
-    'aud': 'A$',
-  };
-  return symbols[currency.toLowerCase()] || currency.toUpperCase() + ' ';
-}
+// Money formatting lives in money.ts; re-exported for existing importers
+export { formatCents };
 
 /**
  * Format percentage value.
@@ -72,6 +48,18 @@ export function formatPercent(value: number): string {
   return `${value.toFixed(1)}%`;
 }
 
+/**
+ * Format a period-over-period growth rate with an explicit sign.
+ * @param value - Percentage change, or null when there is no baseline
+ * @returns Formatted string like "+4.2%", "-1.0%" or "—"
+ */
+export function formatGrowthRate(value: number | null): string {
+  if (value === null || isNaN(value) || !isFinite(value)) {
+    return '—';
+  }
+  return `${value >= 0 ? '+' : ''}${formatPercent(value)}`;
+}
+
 /**
  * Format unix timestamp to ISO date string (UTC).
  * @param timestamp - Unix timestamp in seconds
@@ -100,6 +88,19 @@ export function mrrToMarkdown(result: MrrResult): string {
     `- Past Due: ${result.statusBreakdown.pastDue}`,
   ];
   
+  if (result.currencyBreakdown) {
+    lines.push('', ...currencyBreakdownToMarkdown('## MRR by Currency', result.currencyBreakdown, result.currency));
+  }
+  
+  if (result.accountBreakdown) {
+    lines.push('', '## MRR by Account', '');
+    lines.push('| Account | Subscriptions | MRR | % of Total |');
+    lines.push('|---------|---------------|-----|------------|');
+    for (const account of result.accountBreakdown) {
+      lines.push(`| ${account.accountId} | ${account.subscriptionCount} | ${account.mrrFormatted} | ${formatPercent(account.percentOfTotal)} |`);
+    }
+  }
+  
   return lines.join('\n');
 }
 
@@ -123,7 +124,32 @@ export function churnToMarkdown(result: ChurnResult): string {
     '## Starting Metrics',
     `- **Starting Customers:** ${result.startingCustomers}`,
     `- **Starting MRR:** ${formatCents(result.startingMrrCents, result.currency)}`,
+    '',
+    '## Voluntary vs Involuntary',
+    '| Type | Customers | Customer Churn | MRR | Revenue Churn |',
+    '|------|-----------|----------------|-----|---------------|',
+  ];
+  const segments: Array<[string, ChurnSegment]> = [
+    ['Voluntary (customer requested)', result.voluntary],
+    ['Involuntary (payment failed)', result.involuntary],
+    ['Unclassified (no reason recorded)', result.unclassified],
   ];
+  for (const [label, segment] of segments) {
+    lines.push(`| ${label} | ${segment.churnedCustomers} | ${formatPercent(segment.customerChurnRate)} | ${segment.churnedMrrFormatted} | ${formatPercent(segment.revenueChurnRate)} |`);
+  }
+
+  if (result.reasons.length > 0) {
+    lines.push('', '## Cancellation Reasons', '');
+    lines.push('| Type | Reason | Feedback | Customers | MRR | % of Churned MRR |');
+    lines.push('|------|--------|----------|-----------|-----|------------------|');
+    for (const reason of result.reasons) {
+      lines.push(`| ${reason.churnType} | ${reason.reason ?? '—'} | ${reason.feedback ?? '—'} | ${reason.churnedCustomers} | ${reason.churnedMrrFormatted} | ${formatPercent(reason.percentOfChurnedMrr)} |`);
+    }
+  }
+  
+  if (result.currencyBreakdown) {
+    lines.push('', ...currencyBreakdownToMarkdown('## Churned MRR by Currency', result.currencyBreakdown, result.currency));
+  }
   
   return lines.join('\n');
 }
@@ -159,9 +185,33 @@ export function planBreakdownToMarkdown(result: RevenueByPlanResult): string {
     lines.push(`| ${row} |`);
   }
   
+  if (result.currencyBreakdown) {
+    lines.push('', ...currencyBreakdownToMarkdown('## MRR by Currency', result.currencyBreakdown, result.currency));
+  }
+  
   return lines.join('\n');
 }
 
+/**
+ * Render per-currency subtotals (original amount and converted amount) as a table.
+ */
+function currencyBreakdownToMarkdown(
+  heading: string,
+  subtotals: CurrencySubtotal[],
+  reportingCurrency: string
+): string[] {
+  const lines = [
+    heading,
+    '',
+    `| Currency | Subscriptions | Amount | In ${reportingCurrency.toUpperCase()} |`,
+    '|----------|---------------|--------|--------|',
+  ];
+  for (const subtotal of subtotals) {
+    lines.push(`| ${subtotal.currency.toUpperCase()} | ${subtotal.subscriptionCount} | ${subtotal.mrrFormatted} | ${subtotal.convertedMrrFormatted} |`);
+  }
+  return lines;
+}
+
 /**
  * Format subscriber stats as markdown.
  */
@@ -195,6 +245,7 @@ export function changesToMarkdown(result: RecentChangesResult): string {
     '# Recent Subscription Changes',
     '',
     `**Period:** Last ${result.days} days`,
+    ...(result.coverageWarning ? [`**Warning:** ${result.coverageWarning}`] : []),
     '',
     '## Summary',
     `- New: ${result.summary.newCount}`,
@@ -254,7 +305,7 @@ export function changesToMarkdown(result: RecentChangesResult): string {
  */
 export function dashboardToMarkdown(result: DashboardResult): string {
   const lines: string[] = [];
-  const today = new Date().toISOString().split('T')[0];
+  const today = result.mrr.asOfDate.split('T')[0];
 
   lines.push(`# Dashboard — ${today}`);
   lines.push('');
@@ -279,9 +330,8 @@ export function dashboardToMarkdown(result: DashboardResult): string {
   lines.push(`**Quick Ratio:** ${qr === Infinity ? '∞' : qr.toFixed(1)} (${qrLabel})`);
 
   if (result.failedPayments.length > 0) {
-    const totalAtRisk = result.failedPayments.reduce((sum, fp) => sum + fp.amountCents, 0);
     lines.push('');
-    lines.push(`## Failed Payments (${result.failedPayments.length} — ${formatCents(totalAtRisk)} at risk)`);
+    lines.push(`## Failed Payments (${result.failedPayments.length} — ${formatTotalsByCurrency(result.failedPayments)} at risk)`);
     for (const fp of result.failedPayments.slice(0, 10)) {
       lines.push(`- **${fp.customerEmail}** — ${fp.amountFormatted} — ${fp.failureReason} — attempt ${fp.attemptCount}`);
     }
@@ -297,7 +347,7 @@ export function dashboardToMarkdown(result: DashboardResult): string {
   if (result.expiringTrials.length > 0) {
     const potentialMrr = result.expiringTrials.reduce((sum, t) => sum + t.mrrIfConverted, 0);
     lines.push('');
-    lines.push(`## Trials Expiring Soon (${result.expiringTrials.length} — ${formatCents(potentialMrr)} potential MRR)`);
+    lines.push(`## Trials Expiring Soon (${result.expiringTrials.length} — ${formatCents(potentialMrr, result.mrr.currency)} potential MRR)`);
     for (const trial of result.expiringTrials) {
       lines.push(`- **${trial.customerEmail}** — ${trial.planName} — ${trial.daysRemaining} day${trial.daysRemaining !== 1 ? 's' : ''} left — ${trial.mrrIfConvertedFormatted}/mo`);
     }
@@ -307,6 +357,16 @@ export function dashboardToMarkdown(result: DashboardResult): string {
     lines.push('_No trials expiring in the next 3 days._');
   }
 
+  lines.push('');
+  lines.push('## Scheduled Cancellations');
+  if (result.mrrAtRisk.some(risk => risk.subscriptionCount > 0)) {
+    for (const risk of result.mrrAtRisk) {
+      lines.push(`- Next ${risk.withinDays} days: -${risk.mrrFormatted} (${risk.subscriptionCount} subscription${risk.subscriptionCount !== 1 ? 's' : ''})`);
+    }
+  } else {
+    lines.push(`_No cancellations scheduled in the next ${result.mrrAtRisk[result.mrrAtRisk.length - 1]?.withinDays ?? 90} days._`);
+  }
+
   return lines.join('\n');
 }
 
@@ -321,6 +381,10 @@ export function failedPaymentsToMarkdown(result: FailedPaymentsResult): string {
     `**Failed invoices:** ${result.failedPayments.length}`,
   ];
 
+  if (result.totalAtRiskCents === null) {
+    lines.push('', '_Failed payments are in several currencies, so they are totaled per currency. Set a reporting currency and FX rates for a single total._');
+  }
+
   if (result.failedPayments.length === 0) {
     lines.push('', '_No failed payments — all invoices are healthy._');
     return lines.join('\n');
@@ -341,10 +405,11 @@ export function failedPaymentsToMarkdown(result: FailedPaymentsResult): string {
  * Format MRR movement result.
  */
 export function mrrMovementToMarkdown(result: MrrMovementResult): string {
-  return [
+  const lines = [
     '# MRR Movement',
     '',
     `**Period:** Last ${result.periodDays} days`,
+    ...(result.coverageWarning ? [`**Warning:** ${result.coverageWarning}`] : []),
     `**Net New MRR:** ${result.netNewMrrFormatted}`,
     '',
     '## Breakdown',
@@ -354,5 +419,335 @@ export function mrrMovementToMarkdown(result: MrrMovementResult): string {
     `- **Churned MRR:** -${formatCents(result.churnedMrrCents, result.currency)}`,
     '',
     `**Net:** ${result.netNewMrrFormatted}`,
-  ].join('\n');
+  ];
+
+  if (result.accountBreakdown) {
+    lines.push('', '## Movement by Account', '');
+    lines.push('| Account | New | Expansion | Contraction | Churned | Net |');
+    lines.push('|---------|-----|-----------|-------------|---------|-----|');
+    for (const account of result.accountBreakdown) {
+      lines.push(`| ${account.accountId} | +${formatCents(account.newMrrCents, result.currency)} | +${formatCents(account.expansionMrrCents, result.currency)} | -${formatCents(account.contractionMrrCents, result.currency)} | -${formatCents(account.churnedMrrCents, result.currency)} | ${account.netNewMrrFormatted} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format MRR history as a markdown table with a growth-rate column.
+ */
+export function mrrHistoryToMarkdown(result: MrrHistoryResult): string {
+  const unit = result.granularity === 'month' ? 'Month' : 'Week Ending';
+  const lines: string[] = [
+    '# MRR History',
+    '',
+    `**Periods:** Last ${result.periods} ${result.granularity}${result.periods !== 1 ? 's' : ''}`,
+    `**Currency:** ${result.currency.toUpperCase()}`,
+  ];
+
+  if (result.points.length === 0) {
+    lines.push('', '_No history available._');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push(`| ${unit} | MRR | Subscriptions | Growth |`);
+  lines.push(`|${'-'.repeat(unit.length + 2)}|-----|---------------|--------|`);
+
+  for (const point of result.points) {
+    lines.push(`| ${point.periodLabel} | ${point.mrrFormatted} | ${point.subscriptionCount} | ${formatGrowthRate(point.growthRate)} |`);
+  }
+
+  const first = result.points[0];
+  const last = result.points[result.points.length - 1];
+  if (result.points.length > 1 && first.mrrCents > 0) {
+    const overall = ((last.mrrCents - first.mrrCents) / first.mrrCents) * 100;
+    lines.push('');
+    lines.push(`**Change over period:** ${formatGrowthRate(overall)} (${first.mrrFormatted} → ${last.mrrFormatted})`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format cohort retention as two triangular markdown tables (logo and revenue).
+ * Each row is a signup month; column M<n> is n months after signup.
+ */
+export function cohortRetentionToMarkdown(result: CohortRetentionResult): string {
+  const lines: string[] = [
+    '# Cohort Retention',
+    '',
+    `**Cohorts:** Signup months over the last ${result.months} month${result.months !== 1 ? 's' : ''}`,
+    `**Currency:** ${result.currency.toUpperCase()}`,
+  ];
+
+  if (result.cohorts.length === 0) {
+    lines.push('', '_No customers signed up in this range._');
+    return lines.join('\n');
+  }
+
+  const width = Math.max(...result.cohorts.map(c => c.logoRetention.length));
+  const offsets = Array.from({ length: width }, (_, i) => `M${i}`);
+
+  lines.push('', '## Logo Retention (% of customers still active)', '');
+  lines.push(`| Cohort | Customers | ${offsets.join(' | ')} |`);
+  lines.push(`|--------|-----------|${offsets.map(() => '----').join('|')}|`);
+  for (const row of result.cohorts) {
+    lines.push(`| ${row.cohort} | ${row.customers} | ${triangularCells(row.logoRetention, width)} |`);
+  }
+
+  lines.push('', '## Revenue Retention (% of starting MRR still active)', '');
+  lines.push(`| Cohort | Starting MRR | ${offsets.join(' | ')} |`);
+  lines.push(`|--------|--------------|${offsets.map(() => '----').join('|')}|`);
+  for (const row of result.cohorts) {
+    lines.push(`| ${row.cohort} | ${row.startingMrrFormatted} | ${triangularCells(row.revenueRetention, width)} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render one row of a triangular table, padding months that have not happened yet.
+ */
+function triangularCells(values: (number | null)[], width: number): string {
+  const cells: string[] = [];
+  for (let i = 0; i < width; i++) {
+    if (i >= values.length) {
+      cells.push('');
+    } else {
+      const value = values[i];
+      cells.push(value === null ? '—' : formatPercent(value));
+    }
+  }
+  return cells.join(' | ');
+}
+
+/**
+ * Format NRR / GRR result as markdown.
+ */
+export function revenueRetentionToMarkdown(result: RevenueRetentionResult): string {
+  const lines = [
+    '# Revenue Retention',
+    '',
+    `**Window:** ${result.windowMonths} month${result.windowMonths !== 1 ? 's' : ''} (${result.startDate} to ${result.endDate})`,
+    '',
+    '## Retention Rates',
+    `- **Net Revenue Retention (NRR):** ${formatPercent(result.netRevenueRetention)}`,
+    `- **Gross Revenue Retention (GRR):** ${formatPercent(result.grossRevenueRetention)}`,
+    '',
+    '## Starting Base',
+    `- **Customers:** ${result.startingCustomers}`,
+    `- **Starting MRR:** ${result.startingMrrFormatted}`,
+    `- **Same customers today:** ${result.endingMrrFormatted}`,
+    '',
+    '## Movement',
+    `- **Expansion:** +${formatCents(result.expansionMrrCents, result.currency)} (${result.expandedCustomers} customer${result.expandedCustomers !== 1 ? 's' : ''})`,
+    `- **Contraction:** -${formatCents(result.contractionMrrCents, result.currency)} (${result.contractedCustomers} customer${result.contractedCustomers !== 1 ? 's' : ''})`,
+    `- **Churn:** -${formatCents(result.churnedMrrCents, result.currency)} (${result.churnedCustomers} customer${result.churnedCustomers !== 1 ? 's' : ''})`,
+  ];
+
+  if (result.startingCustomers === 0) {
+    lines.push('', '_No paying customers at the start of the window._');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format top customers and revenue concentration as markdown.
+ */
+export function topCustomersToMarkdown(result: TopCustomersResult): string {
+  const lines: string[] = [
+    '# Top Customers by MRR',
+    '',
+    `**Total MRR:** ${result.totalMrrFormatted}`,
+    `**Paying customers:** ${result.totalCustomers}`,
+    `**Currency:** ${result.currency.toUpperCase()}`,
+  ];
+
+  if (result.customers.length === 0) {
+    lines.push('', '_No paying customers._');
+    return lines.join('\n');
+  }
+
+  let concentrationLabel = 'unconcentrated';
+  if (result.herfindahlIndex >= 2500) concentrationLabel = 'highly concentrated';
+  else if (result.herfindahlIndex >= 1500) concentrationLabel = 'moderately concentrated';
+
+  lines.push('');
+  lines.push('## Concentration');
+  lines.push(`- **Herfindahl index:** ${result.herfindahlIndex} (${concentrationLabel})`);
+  lines.push(`- **Top 10% of customers:** ${formatPercent(result.top10PercentShare)} of MRR`);
+  lines.push(`- **Customers making up 80% of MRR:** ${result.customersFor80Percent} of ${result.totalCustomers}`);
+
+  lines.push('');
+  lines.push('| # | Customer | Subscriptions | Plans | MRR | % of Total | Cumulative |');
+  lines.push('|---|----------|---------------|-------|-----|------------|------------|');
+  for (const customer of result.customers) {
+    lines.push(`| ${customer.rank} | ${customer.customerEmail || customer.customerId} | ${customer.subscriptionCount} | ${customer.planNames.join(', ') || '—'} | ${customer.mrrFormatted} | ${formatPercent(customer.percentOfTotal)} | ${formatPercent(customer.cumulativePercent)} |`);
+  }
+
+  if (result.totalCustomers > result.customers.length) {
+    lines.push('', `_...and ${result.totalCustomers - result.customers.length} more customers._`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert DiscountCliffResult to markdown.
+ */
+export function discountCliffToMarkdown(result: DiscountCliffResult): string {
+  const lines: string[] = [
+    `# Discount Cliff (Next ${result.periodDays} Days)`,
+    '',
+    `**Current MRR:** ${result.currentMrrFormatted}`,
+    `**MRR returning as coupons expire:** ${result.returningMrrFormatted}`,
+    `**Expiring discounts:** ${result.expiringDiscounts.length}`,
+    `**Currency:** ${result.currency.toUpperCase()}`,
+  ];
+
+  if (result.expiringDiscounts.length === 0) {
+    lines.push('', '_No coupons expire in this period._');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push('| Ends | Customer | Subscription | Coupon | Returning MRR |');
+  lines.push('|------|----------|--------------|--------|---------------|');
+  for (const discount of result.expiringDiscounts) {
+    lines.push(`| ${discount.endsAt} | ${discount.customerEmail || discount.customerId} | ${discount.subscriptionId} | ${discount.couponId} | ${discount.returningMrrFormatted} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert PendingCancellationsResult to markdown.
+ */
+export function pendingCancellationsToMarkdown(result: PendingCancellationsResult): string {
+  const lines: string[] = [
+    '# Pending Cancellations',
+    '',
+    `**Scheduled to cancel:** ${result.cancellations.length} subscription${result.cancellations.length !== 1 ? 's' : ''} (${result.totalMrrFormatted} MRR)`,
+    `**Currency:** ${result.currency.toUpperCase()}`,
+    '',
+    '## MRR at Risk',
+  ];
+  for (const risk of result.mrrAtRisk) {
+    lines.push(`- Next ${risk.withinDays} days: ${risk.mrrFormatted} (${risk.subscriptionCount} subscription${risk.subscriptionCount !== 1 ? 's' : ''})`);
+  }
+
+  if (result.cancellations.length === 0) {
+    lines.push('', '_No subscriptions are scheduled to cancel._');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push('| Cancels | Days | Customer | Subscription | Plan | MRR | Scheduled by |');
+  lines.push('|---------|------|----------|--------------|------|-----|--------------|');
+  for (const c of result.cancellations) {
+    const scheduledBy = c.atPeriodEnd ? 'Period end' : 'Cancel date';
+    lines.push(`| ${c.cancelDate} | ${c.daysUntilCancel} | ${c.customerEmail || c.customerId} | ${c.subscriptionId} | ${c.planName} | ${c.mrrFormatted} | ${scheduledBy} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert TrialConversionResult to markdown.
+ */
+export function trialConversionToMarkdown(result: TrialConversionResult): string {
+  const lines: string[] = [
+    '# Trial Conversion',
+    '',
+    `**Period:** ${result.periodDays} days (${result.startDate} to ${result.endDate})`,
+    `**Trials ended:** ${result.trials}`,
+    `**Conversion rate:** ${formatPercent(result.conversionRate)}`,
+    '',
+    '## Outcomes',
+    `- **Converted to paid:** ${result.converted}`,
+    `- **Canceled:** ${result.canceled}`,
+    `- **Past due:** ${result.pastDue}`,
+  ];
+
+  if (result.trials === 0) {
+    lines.push('', '_No trials ended in this period._');
+    return lines.join('\n');
+  }
+
+  lines.push('', '## By Plan', '');
+  lines.push('| Plan | Trials | Converted | Canceled | Past Due | Conversion |');
+  lines.push('|------|--------|-----------|----------|----------|------------|');
+  for (const plan of result.byPlan) {
+    lines.push(`| ${plan.planName} | ${plan.trials} | ${plan.converted} | ${plan.canceled} | ${plan.pastDue} | ${formatPercent(plan.conversionRate)} |`);
+  }
+
+  lines.push('', '## By Trial Length', '');
+  lines.push('| Trial Length | Trials | Converted | Canceled | Past Due | Conversion |');
+  lines.push('|--------------|--------|-----------|----------|----------|------------|');
+  for (const length of result.byTrialLength) {
+    lines.push(`| ${length.trialDays} day${length.trialDays !== 1 ? 's' : ''} | ${length.trials} | ${length.converted} | ${length.canceled} | ${length.pastDue} | ${formatPercent(length.conversionRate)} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert SyncStatusResult to markdown.
+ */
+export function syncStatusToMarkdown(result: SyncStatusResult): string {
+  const storage = result.storePath ? `\`${result.storePath}\`` : 'memory only';
+  const title = result.accountId ? `# Sync Status: ${result.accountId}` : '# Sync Status';
+
+  if (!result.synced) {
+    return [
+      title,
+      '',
+      `**Storage:** ${storage}`,
+      '',
+      '_Not synced yet — the first tool call performs a full sync._',
+    ].join('\n');
+  }
+
+  const lines = [
+    title,
+    '',
+    `**Storage:** ${storage}`,
+    `**Last sync:** ${formatTimestamp(result.lastSyncAt!)} (${formatAge(result.ageSeconds!)} ago, ${result.lastSyncMode})`,
+    `**Last full sync:** ${formatTimestamp(result.lastFullSyncAt!)}`,
+    `**Event cursor:** ${formatTimestamp(result.cursor!)}`,
+  ];
+  if (result.lastSyncMode === 'incremental') {
+    lines.push(`**Events applied in last sync:** ${result.lastSyncEventCount}`);
+  }
+  if (result.lastWebhookAt !== null) {
+    lines.push(`**Last webhook change:** ${formatTimestamp(result.lastWebhookAt)}`);
+  }
+
+  lines.push('');
+  lines.push(`## Subscriptions (${result.subscriptionCount})`);
+  const statuses = Object.entries(result.statusCounts).sort((a, b) => b[1] - a[1]);
+  for (const [status, count] of statuses) {
+    lines.push(`- **${status}:** ${count}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format unix timestamp as "2026-02-15 14:03 UTC".
+ */
+function formatTimestamp(timestamp: number): string {
+  return `${new Date(timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Format a duration in seconds as "45s", "12m", "3h" or "2d".
+ */
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
 }
@@ -0,0 +1,137 @@
+/**
+ * Tests for fx.ts currency conversion and its use in metric functions.
+ * Covers: rate math, missing rates, rate table validation, subscription and
+ * event conversion, per-currency subtotals in computeMrr / computeRevenueByPlan.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertCents,
+  toReportingCurrency,
+  eventsToReportingCurrency,
+  parseFxRates,
+} from './fx.js';
+import { computeMrr } from '../metrics/mrr.js';
+import { computeRevenueByPlan } from '../metrics/plans.js';
+import type { CurrencyOptions, NormalizedEvent } from '../types.js';
+import { createSubscription } from '../test/helpers/subscription.js';
+
+const fxRates = { base: 'usd', rates: { eur: 0.5, gbp: 0.25 } };
+const options: CurrencyOptions = { reportingCurrency: 'usd', fxRates };
+
+describe('convertCents', () => {
+  it('converts from and to the base currency', () => {
+    expect(convertCents(1000, 'eur', 'usd', fxRates)).toBe(2000);
+    expect(convertCents(1000, 'usd', 'eur', fxRates)).toBe(500);
+  });
+
+  it('crosses two non-base currencies', () => {
+    expect(convertCents(1000, 'eur', 'gbp', fxRates)).toBe(500);
+  });
+
+  it('is case-insensitive and a no-op for the same currency', () => {
+    expect(convertCents(1234, 'EUR', 'eur', fxRates)).toBe(1234);
+  });
+
+  it('accounts for differing minor units', () => {
+    const rates = { base: 'usd', rates: { jpy: 150, kwd: 0.3 } };
+    // $10.00 → ¥1,500 (whole yen) and KWD 3.000 (fils)
+    expect(convertCents(1000, 'usd', 'jpy', rates)).toBeCloseTo(1500);
+    expect(convertCents(1000, 'usd', 'kwd', rates)).toBeCloseTo(3000);
+    expect(convertCents(1500, 'jpy', 'usd', rates)).toBeCloseTo(1000);
+  });
+
+  it('throws when a rate is missing', () => {
+    expect(() => convertCents(1000, 'jpy', 'usd', fxRates)).toThrow('No FX rate for JPY');
+  });
+});
+
+describe('parseFxRates', () => {
+  it('lowercases currency codes', () => {
+    expect(parseFxRates({ base: 'USD', rates: { EUR: 0.9 } })).toEqual({ base: 'usd', rates: { eur: 0.9 } });
+  });
+
+  it('rejects malformed tables', () => {
+    expect(() => parseFxRates(null)).toThrow('Invalid FX rates');
+    expect(() => parseFxRates({ rates: {} })).toThrow('Invalid FX rates');
+    expect(() => parseFxRates({ base: 'usd', rates: { eur: -1 } })).toThrow('Invalid FX rate for EUR');
+  });
+});
+
+describe('toReportingCurrency', () => {
+  it('keeps the mixed-currency error without options', () => {
+    const subs = [
+      createSubscription({ id: 'sub_usd' }),
+      createSubscription({ id: 'sub_eur', currency: 'eur' }),
+    ];
+    expect(() => toReportingCurrency(subs)).toThrow('Mixed currencies not supported. Found: EUR, USD');
+  });
+
+  it('rescales prices and amount-off discounts', () => {
+    const sub = createSubscription({
+      id: 'sub_eur',
+      currency: 'eur',
+      discounts: [{ couponId: 'c', percentOff: null, amountOff: 100, duration: 'forever', end: null }],
+    });
+    const { currency, subscriptions: [converted] } = toReportingCurrency([sub], options);
+    expect(currency).toBe('usd');
+    expect(converted.currency).toBe('usd');
+    expect(converted.items[0].unitAmountCents).toBe(2000);
+    expect(converted.discounts[0].amountOff).toBe(200);
+    // Input is not mutated
+    expect(sub.items[0].unitAmountCents).toBe(1000);
+  });
+});
+
+describe('eventsToReportingCurrency', () => {
+  it('converts event amounts and leaves currency-less events alone', () => {
+    const base: NormalizedEvent = {
+      id: 'evt_1',
+      type: 'customer.subscription.updated',
+      created: 0,
+      customerId: null,
+      customerEmail: null,
+      subscriptionId: 'sub_1',
+      planName: null,
+      amountCents: 1000,
+      previousPlanName: null,
+      previousAmountCents: 500,
+      currency: 'eur',
+    };
+    const [converted, untouched] = eventsToReportingCurrency([base, { ...base, currency: null }], options);
+    expect(converted.amountCents).toBe(2000);
+    expect(converted.previousAmountCents).toBe(1000);
+    expect(converted.currency).toBe('usd');
+    expect(untouched.amountCents).toBe(1000);
+  });
+});
+
+describe('metrics with a reporting currency', () => {
+  const subs = [
+    createSubscription({ id: 'sub_usd' }, 1000),
+    createSubscription({ id: 'sub_eur', currency: 'eur' }, 1000),
+  ];
+
+  it('computeMrr converts and returns per-currency subtotals', () => {
+    const result = computeMrr(subs, options);
+    expect(result.currency).toBe('usd');
+    expect(result.totalMrrCents).toBe(3000);
+    expect(result.currencyBreakdown).toEqual([
+      expect.objectContaining({ currency: 'eur', subscriptionCount: 1, mrrCents: 1000, convertedMrrCents: 2000 }),
+      expect.objectContaining({ currency: 'usd', subscriptionCount: 1, mrrCents: 1000, convertedMrrCents: 1000 }),
+    ]);
+  });
+
+  it('computeMrr has no breakdown without options', () => {
+    expect(computeMrr([subs[0]]).currencyBreakdown).toBeUndefined();
+  });
+
+  it('computeRevenueByPlan lists the same plan once per currency, priced in its own currency', () => {
+    const result = computeRevenueByPlan(subs, options);
+    expect(result.totalMrrCents).toBe(3000);
+    expect(result.plans).toHaveLength(2);
+    expect(result.plans[0].priceFormatted).toBe('€10.00');
+    expect(result.plans[0].mrrCents).toBe(2000);
+    expect(result.plans[1].priceFormatted).toBe('$10.00');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Currency conversion utilities for stripe-analytics-mcp.
+ * Converts subscriptions and events into a single reporting currency
+ * using a caller-supplied FX rate table.
+ */
+
+import { readFileSync } from 'node:fs';
+import type {
+  SubscriptionData,
+  NormalizedEvent,
+  FxRates,
+  CurrencyOptions,
+  CurrencySubtotal,
+  DiscountData,
+} from '../types.js';
+import { formatCents, toMajorUnits, toMinorUnits } from './money.js';
+
+/**
+ * Convert an amount in minor units between two currencies.
+ * Accounts for differing minor units (e.g. USD cents to whole yen).
+ *
+ * @param amountCents - Amount in the source currency's minor units
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param fxRates - Rate table; must contain both currencies (or have them as base)
+ * @returns Converted amount (unrounded)
+ * @throws Error if either currency is missing from the rate table
+ */
+export function convertCents(
+  amountCents: number,
+  from: string,
+  to: string,
+  fxRates: FxRates
+): number {
+  const source = from.toLowerCase();
+  const target = to.toLowerCase();
+  if (source === target) {
+    return amountCents;
+  }
+  const major = toMajorUnits(amountCents, source);
+  return toMinorUnits((major / getRate(source, fxRates)) * getRate(target, fxRates), target);
+}
+
+/**
+ * Bring a set of subscriptions into one currency.
+ *
+ * Without options, all subscriptions must already share a currency (throws on
+ * mismatch, as every metric always has). With options, every subscription is
+ * converted into the reporting currency — item prices and amount-off
+ * discounts are rescaled, so the normal MRR rules apply unchanged.
+ *
+ * @param subscriptions - Subscriptions in any currency
+ * @param options - Reporting currency and FX rates
+ * @returns The (possibly converted) subscriptions and their common currency
+ * @throws Error if mixed currencies are found without options, or a rate is missing
+ */
+export function toReportingCurrency(
+  subscriptions: SubscriptionData[],
+  options?: CurrencyOptions
+): { currency: string; subscriptions: SubscriptionData[] } {
+  if (options) {
+    const currency = options.reportingCurrency.toLowerCase();
+    return {
+      currency,
+      subscriptions: subscriptions.map(sub => convertSubscription(sub, currency, options.fxRates)),
+    };
+  }
+
+  return {
+    currency: requireSingleCurrency(subscriptions.map(sub => sub.currency)),
+    subscriptions,
+  };
+}
+
+/**
+ * Ensure a set of amounts all share one currency.
+ *
+ * @param currencies - Currency code of each amount, any case
+ * @returns The common currency, lowercased ("usd" when the list is empty)
+ * @throws Error if more than one currency is present
+ */
+export function requireSingleCurrency(currencies: string[]): string {
+  const distinct = new Set(currencies.map(c => c.toLowerCase()));
+  if (distinct.size > 1) {
+    const currencyList = Array.from(distinct)
+      .map(c => c.toUpperCase())
+      .sort()
+      .join(', ');
+    throw new Error(`Mixed currencies not supported. Found: ${currencyList}. Set a reporting currency and FX rates to convert.`);
+  }
+  return distinct.size > 0 ? [...distinct][0] : 'usd';
+}
+
+/**
+ * Convert event amounts into the reporting currency.
+ * Events without a currency are assumed to already be in it.
+ *
+ * @param events - Normalized events
+ * @param options - Reporting currency and FX rates; without them events are returned as-is
+ * @returns Events with amountCents / previousAmountCents in the reporting currency
+ */
+export function eventsToReportingCurrency(
+  events: NormalizedEvent[],
+  options?: CurrencyOptions
+): NormalizedEvent[] {
+  if (!options) {
+    return events;
+  }
+  const target = options.reportingCurrency.toLowerCase();
+  return events.map(event => {
+    if (event.currency === null || event.currency.toLowerCase() === target) {
+      return event;
+    }
+    const from = event.currency;
+    return {
+      ...event,
+      amountCents: event.amountCents === null ? null : convertCents(event.amountCents, from, target, options.fxRates),
+      previousAmountCents: event.previousAmountCents === null ? null : convertCents(event.previousAmountCents, from, target, options.fxRates),
+      currency: target,
+    };
+  });
+}
+
+/**
+ * Sum a per-subscription value by original currency, alongside its converted total.
+ *
+ * @param subscriptions - Subscriptions in their ORIGINAL currencies
+ * @param valueOf - Per-subscription amount in that subscription's currency (e.g. MRR)
+ * @param options - Reporting currency and FX rates
+ * @returns One subtotal per currency, largest converted amount first
+ */
+export function computeCurrencySubtotals(
+  subscriptions: SubscriptionData[],
+  valueOf: (sub: SubscriptionData) => number,
+  options: CurrencyOptions
+): CurrencySubtotal[] {
+  const target = options.reportingCurrency.toLowerCase();
+  const totals = new Map<string, { count: number; amount: number }>();
+
+  for (const sub of subscriptions) {
+    const currency = sub.currency.toLowerCase();
+    const entry = totals.get(currency) || { count: 0, amount: 0 };
+    entry.count++;
+    entry.amount += valueOf(sub);
+    totals.set(currency, entry);
+  }
+
+  return Array.from(totals.entries())
+    .map(([currency, { count, amount }]) => {
+      const converted = convertCents(amount, currency, target, options.fxRates);
+      return {
+        currency,
+        subscriptionCount: count,
+        mrrCents: Math.round(amount),
+        mrrFormatted: formatCents(amount, currency),
+        convertedMrrCents: Math.round(converted),
+        convertedMrrFormatted: formatCents(converted, target),
+      };
+    })
+    .sort((a, b) => b.convertedMrrCents - a.convertedMrrCents);
+}
+
+/**
+ * Load an FX rate table from a JSON file.
+ * Expected shape: { "base": "usd", "rates": { "eur": 0.92, "gbp": 0.79 } }
+ *
+ * @param filePath - Path to the JSON file
+ * @returns Validated rate table with lowercase currency codes
+ * @throws Error if the file cannot be read or is malformed
+ */
+export function loadFxRates(filePath: string): FxRates {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read FX rates from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return parseFxRates(raw);
+}
+
+/**
+ * Validate an FX rate table and lowercase its currency codes.
+ *
+ * @param raw - Untrusted rate table (e.g. parsed JSON or embedder config)
+ * @returns Validated rate table
+ * @throws Error if the shape is wrong or a rate is not a positive number
+ */
+export function parseFxRates(raw: unknown): FxRates {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid FX rates: expected an object with "base" and "rates"');
+  }
+  const { base, rates } = raw as { base?: unknown; rates?: unknown };
+  if (typeof base !== 'string' || typeof rates !== 'object' || rates === null) {
+    throw new Error('Invalid FX rates: expected an object with "base" and "rates"');
+  }
+
+  const normalized: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(rates as Record<string, unknown>)) {
+    if (typeof rate !== 'number' || !isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid FX rate for ${code.toUpperCase()}: expected a positive number`);
+    }
+    normalized[code.toLowerCase()] = rate;
+  }
+
+  return { base: base.toLowerCase(), rates: normalized };
+}
+
+/**
+ * Units of `currency` per one unit of the table's base currency.
+ */
+function getRate(currency: string, fxRates: FxRates): number {
+  if (currency === fxRates.base.toLowerCase()) {
+    return 1;
+  }
+  const rate = fxRates.rates[currency];
+  if (rate === undefined) {
+    throw new Error(`No FX rate for ${currency.toUpperCase()} (base ${fxRates.base.toUpperCase()})`);
+  }
+  return rate;
+}
+
+/**
+ * Rescale a subscription's amounts into another currency.
+ */
+function convertSubscription(
+  sub: SubscriptionData,
+  target: string,
+  fxRates: FxRates
+): SubscriptionData {
+  const from = sub.currency.toLowerCase();
+  if (from === target) {
+    return sub;
+  }
+  return {
+    ...sub,
+    currency: target,
+    discounts: convertDiscounts(sub.discounts, from, target, fxRates),
+    items: sub.items.map(item => ({
+      ...item,
+      unitAmountCents: convertCents(item.unitAmountCents, from, target, fxRates),
+      tiers: item.tiers && item.tiers.map(tier => ({
+        ...tier,
+        unitAmountCents: convertCents(tier.unitAmountCents, from, target, fxRates),
+        flatAmountCents: convertCents(tier.flatAmountCents, from, target, fxRates),
+      })),
+      discounts: item.discounts && convertDiscounts(item.discounts, from, target, fxRates),
+    })),
+  };
+}
+
+/**
+ * Rescale amount-off discounts; percentages are unchanged.
+ */
+function convertDiscounts(discounts: DiscountData[], from: string, target: string, fxRates: FxRates): DiscountData[] {
+  return discounts.map(discount => ({
+    ...discount,
+    amountOff: discount.amountOff === null ? null : convertCents(discount.amountOff, from, target, fxRates),
+  }));
+}
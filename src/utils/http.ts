@@ -0,0 +1,47 @@
+/**
+ * HTTP utilities for stripe-analytics-mcp.
+ * Shared by the webhook endpoint and the streamable HTTP transport.
+ */
+
+import type { IncomingMessage } from 'node:http';
+
+/**
+ * A request body over the size limit, as opposed to a connection that failed
+ * while it was being read.
+ */
+export class BodyTooLargeError extends Error {
+  constructor() {
+    super('Request body too large');
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Read a request body as a Buffer, refusing oversized bodies.
+ *
+ * @param request - Incoming request
+ * @param maxBytes - Largest body accepted
+ * @returns Body bytes
+ * @throws BodyTooLargeError if the body is larger than maxBytes; the
+ *   connection's own error if it fails first
+ */
+export function readBody(request: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => {
+      if (size > maxBytes) {
+        reject(new BodyTooLargeError());
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    request.on('error', reject);
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for money.ts minor-unit handling and formatting.
+ * Covers: zero- and three-decimal currencies, unit conversion,
+ * locale-provided symbols, signed amounts, per-currency totals, malformed codes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMinorUnitDigits,
+  toMajorUnits,
+  toMinorUnits,
+  formatCents,
+  formatSignedCents,
+  formatTotalsByCurrency,
+} from './money.js';
+
+describe('getMinorUnitDigits', () => {
+  it('knows zero-, two- and three-decimal currencies', () => {
+    expect(getMinorUnitDigits('jpy')).toBe(0);
+    expect(getMinorUnitDigits('KRW')).toBe(0);
+    expect(getMinorUnitDigits('usd')).toBe(2);
+    expect(getMinorUnitDigits('kwd')).toBe(3);
+    expect(getMinorUnitDigits('BHD')).toBe(3);
+  });
+});
+
+describe('toMajorUnits / toMinorUnits', () => {
+  it('scales by the currency exponent', () => {
+    expect(toMajorUnits(1250, 'usd')).toBe(12.5);
+    expect(toMajorUnits(1250, 'jpy')).toBe(1250);
+    expect(toMajorUnits(1250, 'kwd')).toBe(1.25);
+    expect(toMinorUnits(1.25, 'kwd')).toBe(1250);
+  });
+});
+
+describe('formatCents', () => {
+  it('renders zero-decimal currencies without dividing by 100', () => {
+    expect(formatCents(1250, 'jpy')).toBe('¥1,250');
+    expect(formatCents(50000, 'krw')).toBe('₩50,000');
+  });
+
+  it('renders three-decimal currencies with three places', () => {
+    expect(formatCents(1250, 'kwd')).toBe('KWD 1.250');
+    expect(formatCents(-1250, 'bhd')).toBe('-BHD 1.250');
+  });
+
+  it('covers symbols beyond the common six', () => {
+    expect(formatCents(1000, 'inr')).toBe('₹10.00');
+    expect(formatCents(1000, 'chf')).toBe('CHF 10.00');
+  });
+
+  it('honours the locale', () => {
+    expect(formatCents(123456, 'eur', 'de-DE')).toBe('1.234,56 €');
+  });
+
+  it('falls back to the code for malformed currencies', () => {
+    expect(formatCents(1000, 'dollars')).toBe('DOLLARS 10.00');
+  });
+});
+
+describe('formatSignedCents', () => {
+  it('always shows the sign', () => {
+    expect(formatSignedCents(1250)).toBe('+$12.50');
+    expect(formatSignedCents(-1250, 'jpy')).toBe('-¥1,250');
+    expect(formatSignedCents(0)).toBe('+$0.00');
+  });
+});
+
+describe('formatTotalsByCurrency', () => {
+  it('sums each currency separately, largest first', () => {
+    expect(formatTotalsByCurrency([
+      { amountCents: 1000, currency: 'eur' },
+      { amountCents: 1500, currency: 'USD' },
+      { amountCents: 1000, currency: 'usd' },
+    ])).toBe('$25.00 + €10.00');
+    expect(formatTotalsByCurrency([{ amountCents: 1250, currency: 'jpy' }])).toBe('¥1,250');
+    expect(formatTotalsByCurrency([])).toBe('$0.00');
+  });
+});
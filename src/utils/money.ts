@@ -0,0 +1,144 @@
+/**
+ * Money utilities for stripe-analytics-mcp.
+ * Stripe amounts are integers in a currency's minor unit — cents for USD, but
+ * whole yen for JPY and fils (1/1000) for KWD. Everything that turns an amount
+ * into a display string or a major-unit value goes through this module.
+ */
+
+/**
+ * Currencies Stripe represents without a minor unit.
+ * https://docs.stripe.com/currencies#zero-decimal
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga',
+  'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+/**
+ * Currencies Stripe represents with three decimal places.
+ * https://docs.stripe.com/currencies#three-decimal
+ */
+const THREE_DECIMAL_CURRENCIES = new Set([
+  'bhd', 'iqd', 'jod', 'kwd', 'lyd', 'omr', 'tnd',
+]);
+
+const DEFAULT_LOCALE = 'en-US';
+
+const formatters = new Map<string, Intl.NumberFormat | null>();
+
+/**
+ * Number of decimal places in a currency's minor unit, as Stripe counts them.
+ * This is ISO 4217 except where Stripe keeps two decimals for backwards
+ * compatibility (e.g. ISK, HUF, TWD).
+ *
+ * @param currency - Currency code, any case
+ * @returns 0, 2 or 3
+ */
+export function getMinorUnitDigits(currency: string): number {
+  const code = currency.toLowerCase();
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) return 0;
+  if (THREE_DECIMAL_CURRENCIES.has(code)) return 3;
+  return 2;
+}
+
+/**
+ * Convert an amount in minor units to major units (e.g. 1250 USD cents → 12.5).
+ */
+export function toMajorUnits(amountMinor: number, currency: string): number {
+  return amountMinor / 10 ** getMinorUnitDigits(currency);
+}
+
+/**
+ * Convert an amount in major units to minor units (unrounded).
+ */
+export function toMinorUnits(amountMajor: number, currency: string): number {
+  return amountMajor * 10 ** getMinorUnitDigits(currency);
+}
+
+/**
+ * Format an amount in minor units as a currency string.
+ * Symbols come from the locale's CLDR data, so every ISO 4217 code is covered;
+ * codes without a symbol render as "CHF 10.00".
+ *
+ * @param amountMinor - Amount in the currency's minor units (can be negative or 0)
+ * @param currency - Currency code (default "usd")
+ * @param locale - BCP 47 locale used for symbols and separators (default "en-US")
+ * @returns Formatted string like "$12.50", "¥1,250" or "-KWD 1.250"
+ */
+export function formatCents(
+  amountMinor: number,
+  currency: string = 'usd',
+  locale: string = DEFAULT_LOCALE
+): string {
+  const major = toMajorUnits(amountMinor, currency);
+  const formatter = getFormatter(currency, locale);
+  if (!formatter) {
+    // Not a well-formed currency code — Intl refuses it
+    const digits = getMinorUnitDigits(currency);
+    const number = Math.abs(major).toLocaleString(locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
+    return `${major < 0 ? '-' : ''}${currency.toUpperCase()} ${number}`;
+  }
+  // Intl separates code-style symbols with a no-break space
+  return formatter.format(major).replace(/\u00a0/g, ' ');
+}
+
+/**
+ * Format an amount in minor units with an explicit sign, e.g. "+$12.50" or "-$5.00".
+ */
+export function formatSignedCents(
+  amountMinor: number,
+  currency: string = 'usd',
+  locale: string = DEFAULT_LOCALE
+): string {
+  const formatted = formatCents(Math.abs(amountMinor), currency, locale);
+  return `${amountMinor >= 0 ? '+' : '-'}${formatted}`;
+}
+
+/**
+ * Format the total of amounts that may be in different currencies, one sum
+ * per currency, e.g. "$20.00 + €10.00". Amounts are never added across
+ * currencies; an empty list formats as "$0.00".
+ *
+ * @param amounts - Amounts in each currency's minor units
+ * @returns Formatted totals, largest first, joined with " + "
+ */
+export function formatTotalsByCurrency(amounts: { amountCents: number; currency: string }[]): string {
+  const totals = new Map<string, number>();
+  for (const { amountCents, currency } of amounts) {
+    const code = currency.toLowerCase();
+    totals.set(code, (totals.get(code) || 0) + amountCents);
+  }
+  if (totals.size === 0) {
+    return formatCents(0);
+  }
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([currency, total]) => formatCents(total, currency))
+    .join(' + ');
+}
+
+/**
+ * Cached Intl formatter for a currency/locale pair, or null if Intl rejects the code.
+ */
+function getFormatter(currency: string, locale: string): Intl.NumberFormat | null {
+  const key = `${locale}:${currency.toLowerCase()}`;
+  if (!formatters.has(key)) {
+    const digits = getMinorUnitDigits(currency);
+    let formatter: Intl.NumberFormat | null;
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: currency.toUpperCase(),
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      });
+    } catch {
+      formatter = null;
+    }
+    formatters.set(key, formatter);
+  }
+  return formatters.get(key)!;
+}
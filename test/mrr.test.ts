@@ -1,6 +1,7 @@
 /**
  * Tests for MRR computation module.
- * Covers: monthly/annual/weekly normalization, discounts (percent + amount),
+ * Covers: monthly/annual/weekly normalization, discounts (percent + amount,
+ * duration and expiry, item-level, stacking),
  * mixed currency error, empty list, trialing exclusion.
  */
 
@@ -20,9 +21,12 @@ function createTestSubscription(overrides: Partial<SubscriptionData> = {}): Subs
     currentPeriodEnd: Math.floor(Date.now() / 1000) + 86400,
     canceledAt: null,
     cancelAt: null,
+    cancelAtPeriodEnd: false,
+    cancellationDetails: null,
     createdAt: Math.floor(Date.now() / 1000) - 86400,
+    trialStart: null,
     trialEnd: null,
-    discount: null,
+    discounts: [],
     currency: 'usd',
     items: [],
     ...overrides,
@@ -227,11 +231,13 @@ describe('computeMrr', () => {
     it('should apply percent-off discount', () => {
       const subscription = createTestSubscription({
         status: 'active',
-        discount: {
+        discounts: [{
           couponId: 'coupon_20off',
           percentOff: 20,
           amountOff: null,
-        },
+          duration: 'forever',
+          end: null,
+        }],
         items: [
           {
             priceId: 'price_123',
@@ -253,11 +259,13 @@ describe('computeMrr', () => {
     it('should apply amount-off discount (monthly)', () => {
       const subscription = createTestSubscription({
         status: 'active',
-        discount: {
+        discounts: [{
           couponId: 'coupon_5off',
           percentOff: null,
           amountOff: 500, // $5 off
-        },
+          duration: 'forever',
+          end: null,
+        }],
         items: [
           {
             priceId: 'price_123',
@@ -279,11 +287,13 @@ describe('computeMrr', () => {
     it('should normalize amount-off discount for annual subscriptions', () => {
       const subscription = createTestSubscription({
         status: 'active',
-        discount: {
+        discounts: [{
           couponId: 'coupon_60off',
           percentOff: null,
           amountOff: 6000, // $60 off per year
-        },
+          duration: 'forever',
+          end: null,
+        }],
         items: [
           {
             priceId: 'price_123',
@@ -306,11 +316,13 @@ describe('computeMrr', () => {
     it('should clamp negative amounts to zero', () => {
       const subscription = createTestSubscription({
         status: 'active',
-        discount: {
+        discounts: [{
           couponId: 'coupon_huge',
           percentOff: null,
           amountOff: 5000, // $50 off (more than price)
-        },
+          duration: 'forever',
+          end: null,
+        }],
         items: [
           {
             priceId: 'price_123',
@@ -328,6 +340,56 @@ describe('computeMrr', () => {
       
       expect(result.totalMrrCents).toBe(0); // Clamped to 0
     });
+
+    const monthlyItem = {
+      priceId: 'price_123',
+      productName: 'Test Product',
+      planName: 'Basic Plan',
+      quantity: 1,
+      unitAmountCents: 2000, // $20/month
+      interval: 'month' as const,
+      intervalCount: 1,
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    it('should ignore one-time and expired coupons', () => {
+      const subscription = createTestSubscription({
+        discounts: [
+          { couponId: 'welcome', percentOff: 50, amountOff: null, duration: 'once', end: null },
+          { couponId: 'launch', percentOff: 25, amountOff: null, duration: 'repeating', end: now - 86400 },
+        ],
+        items: [monthlyItem],
+      });
+
+      expect(computeMrr([subscription]).totalMrrCents).toBe(2000);
+    });
+
+    it('should apply repeating coupons until they end', () => {
+      const subscription = createTestSubscription({
+        discounts: [
+          { couponId: 'launch', percentOff: 25, amountOff: null, duration: 'repeating', end: now + 86400 },
+        ],
+        items: [monthlyItem],
+      });
+
+      expect(computeMrr([subscription]).totalMrrCents).toBe(1500);
+    });
+
+    it('should stack item and subscription discounts in order', () => {
+      const subscription = createTestSubscription({
+        discounts: [
+          { couponId: 'partner', percentOff: 10, amountOff: null, duration: 'forever', end: null },
+          { couponId: 'credit', percentOff: null, amountOff: 300, duration: 'forever', end: null },
+        ],
+        items: [
+          { ...monthlyItem, discounts: [{ couponId: 'seat', percentOff: null, amountOff: 500, duration: 'forever', end: null }] },
+          { ...monthlyItem, priceId: 'price_456' },
+        ],
+      });
+
+      // ($20 - $5 + $20) * 0.9 - $3 = $28.50
+      expect(computeMrr([subscription]).totalMrrCents).toBe(2850);
+    });
   });
 
   describe('mixed currency error', () => {
@@ -0,0 +1,105 @@
+/**
+ * End-to-end tests against recorded fixtures.
+ * Serves test/fixtures/acme through the replay source (as --replay does) and
+ * calls the tools over MCP. The server answers as of the recording time, so
+ * the time windows see what they saw when it was recorded.
+ *
+ * The account: ada upgraded Starter ($29) → Pro ($49) 5 days ago; bo signed up
+ * for Basic ($1,200/year) 20 days ago; cy canceled Pro 10 days ago (too
+ * expensive); dee is 2 days from the end of a Pro trial; eve pays for 15 seats
+ * on a volume-tiered price and has a failed $75 invoice.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/acme', import.meta.url));
+
+describe('tools replayed from fixtures', () => {
+  const client = new Client({ name: 'test', version: '1.0.0' });
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer('', { replay: FIXTURES }).connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  async function call(name: string, args: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError, `${name}: ${JSON.stringify(result.content)}`).toBeFalsy();
+    return result.structuredContent as Record<string, unknown>;
+  }
+
+  it('computes MRR with yearly, tiered and trialing subscriptions', async () => {
+    expect(await call('get_mrr')).toMatchObject({
+      totalMrrCents: 4900 + 10000 + 7500,
+      subscriptionCount: 3,
+      statusBreakdown: { active: 3, trialing: 1, pastDue: 0 },
+    });
+
+    const { plans } = await call('get_revenue_by_plan') as { plans: { planName: string; mrrCents: number }[] };
+    expect(plans.map(plan => [plan.planName, plan.mrrCents])).toEqual([
+      ['Basic (year)', 10000],
+      ['Seats (month)', 7500],
+      ['Pro (month)', 4900],
+    ]);
+  });
+
+  it('breaks down churn by reason', async () => {
+    expect(await call('get_churn', { period_days: 30 })).toMatchObject({
+      churnedCustomers: 1,
+      churnedMrrCents: 4900,
+      startingCustomers: 2,
+      voluntary: { churnedCustomers: 1 },
+      reasons: [{ reason: 'cancellation_requested', feedback: 'too_expensive', churnedMrrCents: 4900 }],
+    });
+  });
+
+  it('replays the MRR waterfall from events', async () => {
+    expect(await call('get_mrr_movement', { period_days: 30 })).toMatchObject({
+      newMrrCents: 10000,
+      expansionMrrCents: 2000,
+      contractionMrrCents: 0,
+      churnedMrrCents: 4900,
+      netNewMrrCents: 7100,
+    });
+
+    expect(await call('get_revenue_retention', { window_months: 12 })).toMatchObject({
+      startingCustomers: 2,
+      startingMrrCents: 2900 + 7500,
+      endingMrrCents: 4900 + 7500,
+      expandedCustomers: 1,
+      grossRevenueRetention: 100,
+    });
+  });
+
+  it('lists failed payments and expiring trials on the dashboard', async () => {
+    expect(await call('get_failed_payments', { days: 30 })).toMatchObject({
+      failedPayments: [{ customerEmail: 'eve@example.com', amountCents: 7500, attemptCount: 2, planName: 'Seats' }],
+      totalAtRiskCents: 7500,
+    });
+
+    expect(await call('get_dashboard')).toMatchObject({
+      mrr: { totalMrrCents: 22400 },
+      mrrMovement: { periodDays: 7, expansionMrrCents: 2000, churnedMrrCents: 0 },
+      failedPayments: [{ customerId: 'cus_e' }],
+      expiringTrials: [{ customerEmail: 'dee@example.com', daysRemaining: 2, mrrIfConverted: 4900 }],
+    });
+  });
+
+  it('names customers in recent changes from the recorded customers', async () => {
+    expect(await call('get_recent_changes', { days: 7 })).toMatchObject({
+      changes: [
+        { type: 'payment_failed', customerEmail: 'eve@example.com', amountFormatted: '$75.00' },
+        { type: 'upgraded', customerEmail: 'ada@example.com', amountFormatted: '$49.00' },
+      ],
+    });
+  });
+});